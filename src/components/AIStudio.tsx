@@ -1,24 +1,33 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { userStorageKey } from '@/lib/user-storage';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ImageGenerator } from './ImageGenerator';
 import { TextGenerator } from './TextGenerator';
-import { Sparkles, Image, FileText } from 'lucide-react';
+import { ChatStudio } from './ChatStudio';
+import { BulkTextGenerator } from './BulkTextGenerator';
+import { UsageIndicator } from './UsageIndicator';
+import { Sparkles, Image, FileText, MessageSquare, UserCircle, Table2 } from 'lucide-react';
 
 export const AIStudio = () => {
   const [activeTab, setActiveTab] = useState('image');
+  const { user } = useAuth();
+  const tabStorageKey = userStorageKey('activeTab', user.id);
 
   // Save active tab to localStorage
   useEffect(() => {
-    const savedTab = localStorage.getItem('ai-studio-active-tab');
-    if (savedTab && (savedTab === 'image' || savedTab === 'text')) {
+    const savedTab = localStorage.getItem(tabStorageKey);
+    if (savedTab && (savedTab === 'image' || savedTab === 'text' || savedTab === 'chat' || savedTab === 'bulk')) {
       setActiveTab(savedTab);
     }
-  }, []);
+  }, [tabStorageKey]);
 
   // Update localStorage when tab changes
   useEffect(() => {
-    localStorage.setItem('ai-studio-active-tab', activeTab);
-  }, [activeTab]);
+    localStorage.setItem(tabStorageKey, activeTab);
+  }, [activeTab, tabStorageKey]);
 
   return (
     <div className="min-h-screen relative overflow-hidden">
@@ -29,6 +38,17 @@ export const AIStudio = () => {
       <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[600px] h-[600px] bg-accent/10 rounded-full blur-[150px] -z-10" style={{ animationDelay: '2s' }} />
 
       <div className="container mx-auto px-4 py-8 md:py-12 relative z-10">
+        {/* Credits & Account */}
+        <div className="flex items-center justify-end gap-2 mb-4">
+          <UsageIndicator />
+          <Button asChild variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+            <Link to="/account" aria-label="Account settings">
+              <UserCircle className="mr-2 h-4 w-4" />
+              <span className="max-w-[200px] truncate">{user?.email}</span>
+            </Link>
+          </Button>
+        </div>
+
         {/* Header */}
         <div className="text-center mb-8 md:mb-12 animate-fade-in">
           <div className="inline-flex items-center gap-2 mb-4 px-4 py-2 bg-gradient-to-r from-primary/20 via-secondary/20 to-accent/20 rounded-full border border-primary/30 backdrop-blur-sm">
@@ -44,7 +64,7 @@ export const AIStudio = () => {
             </span>
           </h1>
           <p className="sr-only">
-            AI-powered creative studio for generating images and text content
+            AI-powered creative studio for generating images, text and chat conversations
           </p>
           
           <p className="text-muted-foreground text-base md:text-lg max-w-2xl mx-auto leading-relaxed">
@@ -54,7 +74,7 @@ export const AIStudio = () => {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="max-w-5xl mx-auto">
-          <TabsList className="grid w-full max-w-md mx-auto grid-cols-2 mb-8 bg-card/50 backdrop-blur-xl border border-border h-14" aria-label="Content generation tabs">
+          <TabsList className="grid w-full max-w-2xl mx-auto grid-cols-4 mb-8 bg-card/50 backdrop-blur-xl border border-border h-14" aria-label="Content generation tabs">
             <TabsTrigger 
               value="image" 
               className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-secondary data-[state=active]:text-primary-foreground transition-all duration-300 h-full"
@@ -73,6 +93,24 @@ export const AIStudio = () => {
               <span className="hidden sm:inline">Text Generation</span>
               <span className="sm:hidden">Text</span>
             </TabsTrigger>
+            <TabsTrigger 
+              value="chat"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-accent data-[state=active]:to-primary data-[state=active]:text-primary-foreground transition-all duration-300 h-full"
+              aria-label="Chat tab"
+            >
+              <MessageSquare className="w-4 h-4 mr-2" aria-hidden="true" />
+              <span className="hidden sm:inline">Chat</span>
+              <span className="sm:hidden">Chat</span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="bulk"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-secondary data-[state=active]:to-primary data-[state=active]:text-primary-foreground transition-all duration-300 h-full"
+              aria-label="Bulk text generation tab"
+            >
+              <Table2 className="w-4 h-4 mr-2" aria-hidden="true" />
+              <span className="hidden sm:inline">Bulk Text</span>
+              <span className="sm:hidden">Bulk</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="image" className="animate-fade-in">
@@ -82,6 +120,14 @@ export const AIStudio = () => {
           <TabsContent value="text" className="animate-fade-in">
             <TextGenerator />
           </TabsContent>
+
+          <TabsContent value="chat" className="animate-fade-in">
+            <ChatStudio />
+          </TabsContent>
+
+          <TabsContent value="bulk" className="animate-fade-in">
+            <BulkTextGenerator />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
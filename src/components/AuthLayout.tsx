@@ -0,0 +1,37 @@
+import { ReactNode } from 'react';
+import { Card } from '@/components/ui/card';
+import { Sparkles } from 'lucide-react';
+
+interface AuthLayoutProps {
+  title: string;
+  description: string;
+  children: ReactNode;
+}
+
+export const AuthLayout = ({ title, description, children }: AuthLayoutProps) => {
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center px-4 py-12">
+      {/* Ambient Background */}
+      <div className="fixed inset-0 bg-gradient-to-br from-background via-background to-primary/10 -z-10" />
+      <div className="fixed top-20 -right-20 w-96 h-96 bg-primary/20 rounded-full blur-[120px] animate-pulse -z-10" />
+      <div className="fixed bottom-20 -left-20 w-96 h-96 bg-secondary/20 rounded-full blur-[120px] animate-pulse -z-10" style={{ animationDelay: '1s' }} />
+
+      <div className="w-full max-w-md animate-fade-in">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 mb-4 px-4 py-2 bg-gradient-to-r from-primary/20 via-secondary/20 to-accent/20 rounded-full border border-primary/30 backdrop-blur-sm">
+            <Sparkles className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              AI Creative Studio
+            </span>
+          </div>
+          <h1 className="text-3xl md:text-4xl font-bold mb-2">{title}</h1>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+
+        <Card className="bg-card/50 backdrop-blur-xl border-border shadow-2xl p-6">
+          {children}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,519 @@
+import { useState, useRef, useEffect, ChangeEvent } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  Clock,
+  FileDown,
+  FileSpreadsheet,
+  Loader2,
+  Play,
+  Plus,
+  RotateCcw,
+  SlidersHorizontal,
+  Square,
+  Upload,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Form, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { TextParamsPanel } from './TextParamsPanel';
+import { TemplateEditorDialog } from './TemplateEditorDialog';
+import { WritingStyleSelect } from './WritingStyleSelect';
+import { useToast } from '@/hooks/use-toast';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import {
+  BulkRow,
+  BulkRowStatus,
+  MAX_BULK_CONCURRENCY,
+  MAX_BULK_ROWS,
+  PreparedPrompt,
+  useBulkTextGeneration,
+} from '@/hooks/use-bulk-generation';
+import { downloadBlob } from '@/lib/download';
+import { CsvTable, parseCsv, toCsv, toJsonLines } from '@/lib/csv';
+import { createVariablesSchema, fillTemplate, getDefaultInputs } from '@/lib/prompt-templates';
+import { defaultTextParams, getTextModelLabel } from '@/lib/text-params';
+import { MAX_PROMPT_LENGTH, textGenerationSchema } from '@shared/schemas';
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024;
+// Radix Select has no empty value, so "use the default" gets a sentinel
+const USE_DEFAULT = '__default__';
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_BULK_CONCURRENCY }, (_, index) => index + 1);
+
+// The text form's settings, applied to every row; prompts come from the template
+const bulkSettingsSchema = textGenerationSchema.pick({ type: true, params: true }).extend({
+  concurrency: z.number().int().min(1).max(MAX_BULK_CONCURRENCY, `Up to ${MAX_BULK_CONCURRENCY} parallel requests are supported`),
+});
+
+type BulkSettingsValues = z.infer<typeof bulkSettingsSchema>;
+
+// Columns appended to the download, prefixed so they never clash with the upload's own
+const outputColumns = ['ai_prompt', 'ai_output', 'ai_model', 'ai_status', 'ai_error'] as const;
+
+const statusIcons: Record<BulkRowStatus, JSX.Element> = {
+  pending: <Clock className="h-4 w-4 text-muted-foreground" aria-label="Pending" />,
+  running: <Loader2 className="h-4 w-4 animate-spin text-primary" aria-label="Running" />,
+  succeeded: <CheckCircle2 className="h-4 w-4 text-primary" aria-label="Done" />,
+  failed: <AlertCircle className="h-4 w-4 text-destructive" aria-label="Failed" />,
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const downloadFile = (content: string, type: string, fileName: string) => downloadBlob(new Blob([content], { type }), fileName);
+
+const toOutputRecord = (row: BulkRow) => ({
+  ...row.values,
+  ai_prompt: row.prompt ?? '',
+  ai_output: row.output ?? '',
+  ai_model: row.model ?? '',
+  ai_status: row.status,
+  ai_error: row.error ?? '',
+});
+
+// Runs a prompt template over every row of an uploaded CSV
+export const BulkTextGenerator = () => {
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const form = useForm<BulkSettingsValues>({
+    resolver: zodResolver(bulkSettingsSchema),
+    defaultValues: { type: 'creative', params: defaultTextParams, concurrency: 3 },
+  });
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { data: templates = [] } = usePromptTemplates('text');
+  const template = templates.find(candidate => candidate.id === templateId) ?? null;
+  const { rows, isRunning, load, clear, run, stop } = useBulkTextGeneration();
+
+  const finished = rows.filter(row => row.status === 'succeeded' || row.status === 'failed').length;
+  const failedRows = rows.filter(row => row.status === 'failed');
+  const pendingRows = rows.filter(row => row.status === 'pending');
+  const succeededCount = rows.filter(row => row.status === 'succeeded').length;
+  const params = form.watch('params');
+
+  // Reveal the advanced panel when one of its fields is invalid
+  const paramsErrors = form.formState.errors.params;
+  useEffect(() => {
+    if (paramsErrors) setShowAdvanced(true);
+  }, [paramsErrors]);
+
+  // Matches template fields to columns of the same name or label
+  const autoMap = (headers: string[], fields = template?.fields ?? []) =>
+    Object.fromEntries(fields.map(field => {
+      const column = headers.find(header =>
+        [field.name, field.label].some(candidate => normalizeHeader(candidate) === normalizeHeader(header))
+      );
+      return [field.name, column ?? USE_DEFAULT];
+    }));
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_CSV_BYTES) {
+      toast({
+        title: 'File too large',
+        description: 'CSV files must be 2 MB or smaller',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The file needs a header row and at least one data row');
+      }
+      if (parsed.rows.length > MAX_BULK_ROWS) {
+        throw new Error(`Batches are limited to ${MAX_BULK_ROWS} rows; this file has ${parsed.rows.length}`);
+      }
+
+      setTable(parsed);
+      setFileName(file.name);
+      setMapping(autoMap(parsed.headers));
+      load(parsed.rows);
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Could not read the CSV file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const removeFile = () => {
+    setTable(null);
+    setFileName('');
+    clear();
+  };
+
+  const selectTemplate = (id: string) => {
+    const next = templates.find(candidate => candidate.id === id) ?? null;
+    setTemplateId(next?.id ?? null);
+    setMapping(autoMap(table?.headers ?? [], next?.fields ?? []));
+  };
+
+  // Fills the template from a row's mapped columns, falling back to field defaults
+  const prepare = (values: Record<string, string>): PreparedPrompt => {
+    if (!template) return { error: 'Pick a template' };
+
+    const defaults = getDefaultInputs(template.fields);
+    const inputs = Object.fromEntries(template.fields.map(field => {
+      const column = mapping[field.name];
+      return [field.name, column && column !== USE_DEFAULT ? values[column] ?? '' : defaults[field.name]];
+    }));
+    const result = createVariablesSchema(template.fields).safeParse(inputs);
+    if (!result.success) return { error: result.error.issues[0].message };
+
+    const prompt = fillTemplate(template.body, result.data as Record<string, string | number>).trim();
+    if (!prompt) return { error: 'The filled-in prompt is empty' };
+    if (prompt.length > MAX_PROMPT_LENGTH) return { error: `The filled-in prompt is over ${MAX_PROMPT_LENGTH} characters` };
+    return { prompt };
+  };
+
+  // A submit handler that runs `targets` with the form's settings
+  const startRun = (targets: BulkRow[]) => form.handleSubmit(async ({ type, params, concurrency }) => {
+    const summary = await run(targets, { prepare, type, params, concurrency });
+
+    if (summary.stoppedBy === 'quota') {
+      toast({
+        title: 'Out of credits',
+        description: 'The batch stopped; remaining rows can be run once your credits reset',
+        variant: 'destructive',
+      });
+    } else if (summary.stoppedBy === 'user') {
+      toast({
+        title: 'Batch stopped',
+        description: `${summary.succeeded} rows generated before stopping`,
+      });
+    } else {
+      toast({
+        title: 'Batch finished',
+        description: summary.failed > 0
+          ? `${summary.succeeded} rows generated, ${summary.failed} failed. Retry them or download the results.`
+          : `All ${summary.succeeded} rows generated`,
+        variant: summary.failed > 0 && summary.succeeded === 0 ? 'destructive' : 'default',
+      });
+    }
+  });
+
+  const downloadResults = (format: 'csv' | 'jsonl') => {
+    if (!table) return;
+    const baseName = fileName.replace(/\.csv$/i, '') || 'batch';
+    const records = rows.map(toOutputRecord);
+
+    if (format === 'csv') {
+      downloadFile(toCsv([...table.headers, ...outputColumns], records), 'text/csv;charset=utf-8', `${baseName}-generated.csv`);
+    } else {
+      downloadFile(toJsonLines(records), 'application/x-ndjson', `${baseName}-generated.jsonl`);
+    }
+  };
+
+  const preview = table && template ? prepare(table.rows[0]) : null;
+  const canRun = !!table && !!template && !isRunning;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <Card className="bg-card/50 backdrop-blur-xl border-border shadow-2xl overflow-hidden">
+          <Form {...form}>
+            <form onSubmit={startRun(pendingRows)} className="p-6 space-y-6" noValidate>
+              {/* File */}
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Spreadsheet</Label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={handleUpload}
+                  aria-label="Upload CSV file"
+                />
+                {table ? (
+                  <div className="flex items-center gap-3 rounded-lg border border-border bg-background/30 p-3">
+                    <FileSpreadsheet className="h-5 w-5 shrink-0 text-primary" aria-hidden="true" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{fileName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {table.rows.length} rows • {table.headers.length} columns
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={removeFile}
+                      disabled={isRunning}
+                      aria-label="Remove file"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full h-20 border-dashed hover:bg-primary/10"
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Upload a CSV (header row, up to {MAX_BULK_ROWS} rows)
+                  </Button>
+                )}
+              </div>
+
+              {/* Template and column mapping */}
+              <div>
+                <Label htmlFor="bulk-template" className="text-sm font-medium mb-2 block">
+                  Template
+                </Label>
+                <div className="flex gap-2">
+                  <Select value={templateId ?? undefined} onValueChange={selectTemplate} disabled={isRunning}>
+                    <SelectTrigger id="bulk-template" className="bg-background/50 border-border">
+                      <SelectValue placeholder={templates.length > 0 ? 'Pick a template' : 'Create a template to get started'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map((candidate) => (
+                        <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="shrink-0 hover:bg-primary/10"
+                    onClick={() => setEditorOpen(true)}
+                    disabled={isRunning}
+                    aria-label="New template"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {template && table && template.fields.length > 0 && (
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 rounded-lg border border-border bg-background/30 p-4">
+                    {template.fields.map((field) => (
+                      <div key={field.name}>
+                        <Label htmlFor={`bulk-map-${field.name}`} className="text-sm font-medium mb-2 block">
+                          {field.label}
+                        </Label>
+                        <Select
+                          value={mapping[field.name] ?? USE_DEFAULT}
+                          onValueChange={(column) => setMapping(prev => ({ ...prev, [field.name]: column }))}
+                          disabled={isRunning}
+                        >
+                          <SelectTrigger id={`bulk-map-${field.name}`} className="bg-background/50 border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={USE_DEFAULT}>
+                              Default value{field.defaultValue ? `: ${field.defaultValue}` : ''}
+                            </SelectItem>
+                            {table.headers.map((header) => (
+                              <SelectItem key={header} value={header}>Column: {header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {preview && (
+                  <p className="mt-3 text-sm text-muted-foreground">
+                    <span className="font-medium">First row:</span>{' '}
+                    {'prompt' in preview ? preview.prompt : <span className="text-destructive">{preview.error}</span>}
+                  </p>
+                )}
+              </div>
+
+              {/* Style, concurrency and parameters */}
+              <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel htmlFor="bulk-style" className="text-sm font-medium mb-2 block">Writing Style</FormLabel>
+                      <WritingStyleSelect
+                        id="bulk-style"
+                        value={field.value}
+                        onValueChange={(value, style) => {
+                          field.onChange(value);
+                          if (style?.temperature !== undefined) form.setValue('params.temperature', style.temperature);
+                        }}
+                        disabled={isRunning}
+                      />
+                      <FormMessage className="mt-2" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="concurrency"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel htmlFor="bulk-concurrency" className="text-sm font-medium mb-2 block">Parallel requests</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))} disabled={isRunning}>
+                        <SelectTrigger id="bulk-concurrency" className="w-24 bg-background/50 border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONCURRENCY_OPTIONS.map((count) => (
+                            <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage className="mt-2" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced}>
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" size="sm" className="mb-2 px-2 text-muted-foreground hover:text-foreground">
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Advanced
+                    <span className="ml-2 text-xs">
+                      {getTextModelLabel(params.model)} • temp {params.temperature.toFixed(1)}
+                    </span>
+                    <ChevronDown className={`ml-2 h-4 w-4 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <FormField
+                    control={form.control}
+                    name="params"
+                    render={({ field }) => (
+                      <TextParamsPanel
+                        value={field.value}
+                        onChange={field.onChange}
+                        errors={form.formState.errors.params}
+                        disabled={isRunning}
+                      />
+                    )}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+
+              {isRunning ? (
+                <Button
+                  type="button"
+                  onClick={stop}
+                  variant="outline"
+                  className="w-full h-12 text-base font-medium border-primary/50 hover:bg-primary/10"
+                >
+                  <Square className="mr-2 h-4 w-4 fill-current" />
+                  Stop After Current Rows
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={!canRun || pendingRows.length === 0}
+                  className="w-full h-12 text-base font-medium bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300"
+                >
+                  <Play className="mr-2 h-5 w-5" />
+                  {finished > 0 && pendingRows.length > 0 ? `Continue (${pendingRows.length} rows left)` : `Generate ${pendingRows.length} Rows`}
+                </Button>
+              )}
+            </form>
+          </Form>
+        </Card>
+      </div>
+
+      {/* Progress and results */}
+      {rows.some(row => row.status !== 'pending') && (
+        <Card className="bg-card/30 backdrop-blur-xl border-border p-6 animate-fade-in">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-muted-foreground" aria-live="polite">
+              {finished} / {rows.length} rows • {succeededCount} generated
+              {failedRows.length > 0 && <span className="text-destructive"> • {failedRows.length} failed</span>}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startRun(failedRows)}
+                disabled={!canRun || failedRows.length === 0}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retry Failed
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadResults('csv')} disabled={isRunning || succeededCount === 0}>
+                <FileDown className="mr-2 h-4 w-4" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadResults('jsonl')} disabled={isRunning || succeededCount === 0}>
+                <FileDown className="mr-2 h-4 w-4" />
+                JSONL
+              </Button>
+            </div>
+          </div>
+          <Progress value={(finished / rows.length) * 100} className="mb-4" aria-label="Batch progress" />
+
+          <ScrollArea className="h-96 rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead className="w-10"><span className="sr-only">Status</span></TableHead>
+                  <TableHead>Prompt</TableHead>
+                  <TableHead>Output</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.index}>
+                    <TableCell className="text-muted-foreground">{row.index + 1}</TableCell>
+                    <TableCell>{statusIcons[row.status]}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <p className="line-clamp-2 text-xs text-muted-foreground">{row.prompt ?? '—'}</p>
+                    </TableCell>
+                    <TableCell className="max-w-sm">
+                      {row.status === 'failed' ? (
+                        <p className="line-clamp-2 text-xs text-destructive">{row.error}</p>
+                      ) : (
+                        <p className="line-clamp-3 text-xs">{row.output ?? ''}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </Card>
+      )}
+
+      <TemplateEditorDialog
+        kind="text"
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        template={null}
+        onSaved={(saved) => {
+          setTemplateId(saved.id);
+          setMapping(autoMap(table?.headers ?? [], saved.fields));
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,473 @@
+import { useState, useEffect, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { usageQueryKey } from '@/hooks/use-usage';
+import { streamFunction } from '@/lib/stream';
+import { Loader2, Send, Square, Plus, Pencil, Trash2, GitBranch, Copy, MessageSquare, Check } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { WritingStyleSelect } from './WritingStyleSelect';
+import { useWritingStyleOptions } from '@/hooks/use-writing-styles';
+import { useAuth } from '@/hooks/use-auth';
+import { userStorageKey } from '@/lib/user-storage';
+import { ChatInputValues, chatInputSchema, MAX_CHAT_MESSAGE_LENGTH, MAX_CHAT_MESSAGES } from '@shared/schemas';
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+interface ChatThread {
+  id: string;
+  title: string;
+  type: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createThread = (type: string, title = 'New chat', messages: ChatMessage[] = []): ChatThread => ({
+  id: createId(),
+  title,
+  type,
+  messages,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// The newest messages, within what generate-text accepts. Replies past the length
+// limit are cut to their opening, so a long thread keeps working instead of being rejected.
+const toRequestHistory = (messages: ChatMessage[]) =>
+  messages
+    .slice(-MAX_CHAT_MESSAGES)
+    .map(({ role, content }) => ({ role, content: content.slice(0, MAX_CHAT_MESSAGE_LENGTH) }));
+
+export const ChatStudio = () => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<ChatMessage | null>(null);
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { styles } = useWritingStyleOptions();
+  const { user } = useAuth();
+  const storageKey = userStorageKey('chats', user.id);
+  const form = useForm<ChatInputValues>({
+    resolver: zodResolver(chatInputSchema),
+    defaultValues: { content: '' },
+  });
+  const input = form.watch('content');
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId) ?? null;
+
+  // Load the user's threads from localStorage on mount
+  useEffect(() => {
+    const savedThreads = localStorage.getItem(storageKey);
+    if (savedThreads) {
+      try {
+        const parsed: ChatThread[] = JSON.parse(savedThreads);
+        setThreads(parsed);
+        setActiveThreadId(parsed[0]?.id ?? null);
+      } catch (error) {
+        console.error('Failed to load saved chats:', error);
+      }
+    }
+  }, [storageKey]);
+
+  // Save threads to localStorage whenever threads change
+  useEffect(() => {
+    if (threads.length > 0) {
+      localStorage.setItem(storageKey, JSON.stringify(threads));
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  }, [threads, storageKey]);
+
+  // Abort any in-flight stream when the tab unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Keep the latest message in view while the reply streams in
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [activeThread?.messages.length, streamingReply?.content]);
+
+  const updateThread = (id: string, update: (thread: ChatThread) => ChatThread) => {
+    setThreads(prev => prev.map(thread => (thread.id === id ? { ...update(thread), updatedAt: Date.now() } : thread)));
+  };
+
+  const startNewThread = () => {
+    const thread = createThread(activeThread?.type ?? 'creative');
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    form.reset();
+  };
+
+  const sendMessage = async ({ content }: ChatInputValues) => {
+    if (isGenerating) return;
+
+    const userMessage: ChatMessage = { id: createId(), role: 'user', content, timestamp: Date.now() };
+    let thread = activeThread;
+    if (!thread) {
+      const newThread = createThread('creative');
+      setThreads(prev => [newThread, ...prev]);
+      setActiveThreadId(newThread.id);
+      thread = newThread;
+    }
+
+    const threadId = thread.id;
+    const history = [...thread.messages, userMessage];
+    const temperature = styles.find(style => style.value === thread.type)?.temperature;
+    updateThread(threadId, current => ({
+      ...current,
+      // Name untitled threads after their opening message
+      title: current.messages.length === 0 && current.title === 'New chat' ? content.slice(0, 40) : current.title,
+      messages: history,
+    }));
+    form.reset();
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const reply: ChatMessage = { id: createId(), role: 'assistant', content: '', timestamp: Date.now() };
+    let replyContent = '';
+    setStreamingReply(reply);
+    setIsGenerating(true);
+
+    const commitReply = () => {
+      updateThread(threadId, current => ({
+        ...current,
+        messages: [...current.messages, { ...reply, content: replyContent }],
+      }));
+    };
+
+    try {
+      await streamFunction('generate-text', {
+        body: {
+          type: thread.type,
+          messages: toRequestHistory(history),
+          // Custom styles carry their own default temperature
+          ...(temperature !== undefined && { params: { temperature } }),
+        },
+        signal: abortController.signal,
+        onDelta: (delta) => {
+          replyContent += delta;
+          setStreamingReply({ ...reply, content: replyContent });
+        },
+      });
+
+      if (!replyContent) {
+        throw new Error('No reply generated');
+      }
+      commitReply();
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever has been written so far
+        if (replyContent) commitReply();
+        return;
+      }
+
+      console.error('Error generating reply:', error);
+      toast({
+        title: 'Reply failed',
+        description: error instanceof Error ? error.message : 'Failed to generate a reply. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: usageQueryKey });
+      abortControllerRef.current = null;
+      setStreamingReply(null);
+      setIsGenerating(false);
+    }
+  };
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const forkFromMessage = (thread: ChatThread, messageId: string) => {
+    const index = thread.messages.findIndex(message => message.id === messageId);
+    if (index === -1) return;
+
+    const messages = thread.messages.slice(0, index + 1).map(message => ({ ...message, id: createId() }));
+    const fork = createThread(thread.type, `${thread.title} (fork)`, messages);
+    setThreads(prev => [fork, ...prev]);
+    setActiveThreadId(fork.id);
+    toast({
+      title: 'Thread forked',
+      description: 'Continue the conversation from the selected message',
+    });
+  };
+
+  const startRenaming = (thread: ChatThread) => {
+    setRenamingThreadId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const finishRenaming = () => {
+    if (renamingThreadId && renameValue.trim()) {
+      updateThread(renamingThreadId, thread => ({ ...thread, title: renameValue.trim() }));
+    }
+    setRenamingThreadId(null);
+  };
+
+  const deleteThread = (id: string) => {
+    if (!confirm('Delete this conversation?')) return;
+    if (id === activeThreadId) {
+      stopGenerating();
+      setActiveThreadId(threads.find(thread => thread.id !== id)?.id ?? null);
+    }
+    setThreads(prev => prev.filter(thread => thread.id !== id));
+    toast({
+      title: 'Deleted',
+      description: 'Conversation has been removed',
+    });
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: 'Copied!',
+      description: 'Message copied to clipboard',
+    });
+  };
+
+  const visibleMessages = activeThread
+    ? streamingReply ? [...activeThread.messages, streamingReply] : activeThread.messages
+    : [];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+      {/* Thread List */}
+      <Card className="bg-card/50 backdrop-blur-xl border-border shadow-2xl p-4 h-fit">
+        <Button
+          onClick={startNewThread}
+          disabled={isGenerating}
+          className="w-full mb-4 bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Chat
+        </Button>
+        {threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No conversations yet</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <ul className="space-y-1" aria-label="Conversations">
+              {threads.map((thread) => (
+                <li
+                  key={thread.id}
+                  className={cn(
+                    'group flex items-center gap-1 rounded-md px-2 py-1.5 transition-colors',
+                    thread.id === activeThreadId ? 'bg-primary/20' : 'hover:bg-muted/50'
+                  )}
+                >
+                  {renamingThreadId === thread.id ? (
+                    <>
+                      <Input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={finishRenaming}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') finishRenaming();
+                          if (e.key === 'Escape') setRenamingThreadId(null);
+                        }}
+                        className="h-7 text-sm"
+                        aria-label="Conversation name"
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={finishRenaming} aria-label="Save name">
+                        <Check className="h-3 w-3" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => setActiveThreadId(thread.id)}
+                        disabled={isGenerating}
+                        className="flex-1 min-w-0 text-left text-sm truncate"
+                        title={thread.title}
+                      >
+                        {thread.title}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        onClick={() => startRenaming(thread)}
+                        aria-label="Rename conversation"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-destructive/20"
+                        onClick={() => deleteThread(thread.id)}
+                        aria-label="Delete conversation"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </Card>
+
+      {/* Conversation */}
+      <Card className="bg-card/50 backdrop-blur-xl border-border shadow-2xl overflow-hidden flex flex-col min-h-[60vh]">
+        <div className="p-4 border-b border-border flex items-center gap-3">
+          <Label htmlFor="chat-style" className="text-sm font-medium shrink-0">
+            Writing Style
+          </Label>
+          <div className="flex-1">
+            <WritingStyleSelect
+              id="chat-style"
+              value={activeThread?.type ?? 'creative'}
+              onValueChange={(value) => activeThread && updateThread(activeThread.id, thread => ({ ...thread, type: value }))}
+              disabled={!activeThread || isGenerating}
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 p-4 space-y-4 overflow-y-auto max-h-[60vh]" aria-live="polite">
+          {visibleMessages.length === 0 && (
+            <div className="text-center py-16">
+              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 flex items-center justify-center border border-primary/20">
+                <MessageSquare className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Start a conversation</h3>
+              <p className="text-muted-foreground max-w-md mx-auto">
+                Ask for a draft, then keep refining it. The whole thread is sent with every message.
+              </p>
+            </div>
+          )}
+          {visibleMessages.map((message) => {
+            const isStreaming = message.id === streamingReply?.id;
+            return (
+              <div
+                key={message.id}
+                className={cn('group flex', message.role === 'user' ? 'justify-end' : 'justify-start')}
+              >
+                <div
+                  className={cn(
+                    'max-w-[85%] rounded-2xl px-4 py-3',
+                    message.role === 'user'
+                      ? 'bg-gradient-to-r from-primary/30 to-secondary/30 border border-primary/30'
+                      : 'bg-muted/50 border border-border'
+                  )}
+                >
+                  <p className="whitespace-pre-wrap text-foreground leading-relaxed">
+                    {message.content}
+                    {isStreaming && (
+                      <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary animate-pulse" aria-hidden="true" />
+                    )}
+                  </p>
+                  {!isStreaming && activeThread && (
+                    <div className="flex gap-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => copyToClipboard(message.content)}
+                        aria-label="Copy message"
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => forkFromMessage(activeThread, message.id)}
+                        disabled={isGenerating}
+                        aria-label="Fork conversation from this message"
+                        title="Fork from here"
+                      >
+                        <GitBranch className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <div ref={messagesEndRef} />
+        </div>
+
+        <div className="p-4 border-t border-border">
+          {activeThread && activeThread.messages.length >= MAX_CHAT_MESSAGES && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Long conversation: only the latest {MAX_CHAT_MESSAGES} messages are sent with each reply.
+            </p>
+          )}
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(sendMessage)} className="flex gap-2" noValidate>
+              <FormField
+                control={form.control}
+                name="content"
+                render={({ field }) => (
+                  <FormItem className="flex-1 space-y-2">
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder="Send a message... (Ctrl+Enter to send)"
+                        className="min-h-16 bg-background/50 border-border focus:border-primary resize-none text-base"
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && e.ctrlKey) {
+                            e.preventDefault();
+                            form.handleSubmit(sendMessage)();
+                          }
+                        }}
+                        aria-label="Chat message"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {isGenerating ? (
+                <Button
+                  type="button"
+                  onClick={stopGenerating}
+                  variant="outline"
+                  className="h-auto self-stretch border-primary/50 hover:bg-primary/10"
+                  aria-label="Stop generating reply"
+                >
+                  {streamingReply?.content ? <Square className="h-4 w-4 fill-current" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="h-auto self-stretch bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90"
+                  aria-label="Send message"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </form>
+          </Form>
+        </div>
+      </Card>
+    </div>
+  );
+};
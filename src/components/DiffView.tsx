@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { countChanges, diffWords } from '@/lib/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+// Word-level changes from `before` to `after`, removed words struck through and added ones highlighted
+export const DiffView = ({ before, after, className }: DiffViewProps) => {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  const { added, removed } = countChanges(parts);
+
+  return (
+    <div className={className}>
+      <p className="mb-2 text-xs text-muted-foreground">
+        <span className="text-primary">+{added}</span> / <span className="text-destructive">−{removed}</span> words
+      </p>
+      <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+        {parts.map((part, index) => {
+          if (part.type === 'insert') {
+            return <ins key={index} className="rounded-sm bg-primary/20 text-foreground no-underline">{part.text}</ins>;
+          }
+          if (part.type === 'delete') {
+            return <del key={index} className="rounded-sm bg-destructive/20 text-muted-foreground">{part.text}</del>;
+          }
+          return <span key={index}>{part.text}</span>;
+        })}
+      </p>
+    </div>
+  );
+};
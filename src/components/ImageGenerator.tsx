@@ -1,96 +1,235 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, BaseSyntheticEvent, ChangeEvent } from 'react';
+import { FieldPath, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Sparkles, Download, Copy, ZoomIn, X } from 'lucide-react';
+import { describeRetries, getFieldErrors } from '@/lib/functions';
+import { Loader2, Sparkles, Download, Copy, ZoomIn, X, Upload, Pencil, GitBranch, SlidersHorizontal, ChevronDown, Zap, FileCode2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { ImageSettingsPanel } from './ImageSettingsPanel';
+import { VariationSet } from './VariationSet';
+import { JobQueue } from './JobQueue';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { defaultImageSettings, imageSettingsSchema } from '@/lib/image-settings';
+import { userStorageKey } from '@/lib/user-storage';
+import { cn } from '@/lib/utils';
+import { ImageGenerationValues, imageGenerationSchema, MAX_PROMPT_LENGTH, MAX_SOURCE_IMAGES } from '@shared/schemas';
+import {
+  GeneratedImage,
+  toGeneratedImage,
+  useClearGenerations,
+  useDeleteGeneration,
+  useDeleteGenerations,
+  useGenerations,
+} from '@/hooks/use-generations';
+import { GenerationJob, getJobResult, useDismissJob, useGenerationJobs, useSubmitJob } from '@/hooks/use-jobs';
+import { useTemplateSelection } from '@/hooks/use-prompt-templates';
+import { useAuth } from '@/hooks/use-auth';
+import type { TemplateUsage } from '@/lib/prompt-templates';
 
-interface GeneratedImage {
-  id: string;
+// An image the next generation edits: an upload or an existing gallery item
+interface SourceImage {
+  key: string;
   url: string;
-  prompt: string;
-  timestamp: number;
+  label: string;
+  galleryId: string | null;
 }
 
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const VARIATION_COUNTS = [1, 2, 3, 4, 6, 8];
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// A gallery entry: a single image, or the variations generated by one request
+type GalleryItem =
+  | { type: 'image'; image: GeneratedImage }
+  | { type: 'batch'; id: string; images: GeneratedImage[] };
+
 export const ImageGenerator = () => {
-  const [prompt, setPrompt] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [images, setImages] = useState<GeneratedImage[]>([]);
+  const form = useForm<ImageGenerationValues>({
+    resolver: zodResolver(imageGenerationSchema),
+    defaultValues: { prompt: '', settings: defaultImageSettings, variations: 1 },
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [hoveredImage, setHoveredImage] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<GeneratedImage | null>(null);
   const [imageLoading, setImageLoading] = useState<Set<string>>(new Set());
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
+  const [sourceImages, setSourceImages] = useState<SourceImage[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const settingsStorageKey = userStorageKey('imageSettings', user.id);
+
+  const { data: rows = [], isLoading } = useGenerations('image');
+  const submitJob = useSubmitJob();
+  const dismissJob = useDismissJob('image');
+  const deleteGeneration = useDeleteGeneration('image');
+  const deleteGenerations = useDeleteGenerations('image');
+  const clearGenerations = useClearGenerations('image');
+  const templateSelection = useTemplateSelection('image');
+  const prompt = form.watch('prompt');
+  const settings = form.watch('settings');
+
+  // A picked template writes the prompt
+  const templatePrompt = templateSelection.prompt;
+  useEffect(() => {
+    if (templatePrompt !== null) form.setValue('prompt', templatePrompt, { shouldValidate: form.formState.isSubmitted });
+  }, [templatePrompt, form]);
 
-  // Load images from localStorage on mount
+  // Restore the last used image settings, dropping any the schema no longer accepts
   useEffect(() => {
-    const savedImages = localStorage.getItem('ai-studio-images');
-    if (savedImages) {
+    const savedSettings = localStorage.getItem(settingsStorageKey);
+    if (savedSettings) {
       try {
-        const parsed = JSON.parse(savedImages);
-        setImages(parsed);
+        const result = imageSettingsSchema.safeParse(JSON.parse(savedSettings));
+        if (result.success) form.setValue('settings', result.data);
       } catch (error) {
-        console.error('Failed to load saved images:', error);
+        console.error('Failed to load saved image settings:', error);
       }
     }
-  }, []);
+  }, [form, settingsStorageKey]);
 
-  // Save images to localStorage whenever images change
   useEffect(() => {
-    if (images.length > 0) {
-      localStorage.setItem('ai-studio-images', JSON.stringify(images));
+    localStorage.setItem(settingsStorageKey, JSON.stringify(settings));
+  }, [settings, settingsStorageKey]);
+
+  // Reveal the settings panel when one of its fields is invalid
+  const settingsErrors = form.formState.errors.settings;
+  useEffect(() => {
+    if (settingsErrors) setShowSettings(true);
+  }, [settingsErrors]);
+
+  const images = rows.map(toGeneratedImage);
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  const isEditing = sourceImages.length > 0;
+
+  // Newest first; a batch sits where its newest variation would
+  const galleryItems = images.reduce<GalleryItem[]>((items, image) => {
+    const batch = image.batchId
+      ? items.find((item): item is Extract<GalleryItem, { type: 'batch' }> => item.type === 'batch' && item.id === image.batchId)
+      : undefined;
+    if (batch) {
+      batch.images.push(image);
+    } else if (image.batchId) {
+      items.push({ type: 'batch', id: image.batchId, images: [image] });
+    } else {
+      items.push({ type: 'image', image });
     }
-  }, [images]);
+    return items;
+  }, []).map((item): GalleryItem =>
+    // A batch whittled down to one image is shown like any other image
+    item.type === 'batch' && item.images.length === 1 ? { type: 'image', image: item.images[0] } : item
+  );
 
-  const generateImage = async () => {
-    if (!prompt.trim()) {
+  // The worker has saved the images by now; report how the batch went
+  const handleJobSucceeded = (job: GenerationJob) => {
+    const { generationIds = [], results = [] } = getJobResult(job);
+    const failed = results.filter(result => !result.ok);
+    const isEdit = !!(job.request as { parentId?: string | null }).parentId;
+    // Across a batch, count every extra attempt any variation needed
+    const retries = describeRetries(results.reduce((total, result) => total + Math.max(result.attempts - 1, 0), 1));
+
+    // Variation sets render their own thumbnails; only a lone image gets a loading card
+    if (generationIds.length === 1) setImageLoading(prev => new Set(prev).add(generationIds[0]));
+
+    if (failed.length > 0) {
       toast({
-        title: 'Prompt required',
-        description: 'Please enter a description for your image',
+        title: `${generationIds.length} of ${results.length} variations generated`,
+        description: `${failed[0].error}${retries ? ` (${retries})` : ''}`,
         variant: 'destructive',
       });
-      return;
+    } else {
+      toast({
+        title: isEdit ? 'Image edited!' : 'Image generated!',
+        description: [
+          generationIds.length > 1
+            ? `${generationIds.length} variations are ready. Pick your favourite.`
+            : isEdit ? 'Your edited image is ready' : 'Your AI-generated image is ready',
+          retries && `(${retries})`,
+        ].filter(Boolean).join(' '),
+      });
     }
+  };
+
+  const handleJobFailed = (job: GenerationJob) => {
+    const { attempts } = getJobResult(job);
+    toast({
+      title: 'Generation failed',
+      description: `${job.error || 'Failed to generate image. Please try again.'}${attempts && attempts > 1 ? ` (gave up after ${attempts} attempts)` : ''}`,
+      variant: 'destructive',
+    });
+  };
+
+  const { jobs } = useGenerationJobs('image', { onSucceeded: handleJobSucceeded, onFailed: handleJobFailed });
 
-    setIsGenerating(true);
+  // Checks the template's fields along with the form, so both show their errors at once
+  const submitWithTemplate = (event?: BaseSyntheticEvent) => {
+    const checked = templateSelection.validate();
+    return form.handleSubmit((values) => (checked.ok ? generateImage(values, { template: checked.usage }) : undefined))(event);
+  };
+
+  // Takes values already validated by the form's schema; regenerate passes the original prompt and settings
+  // and skips the response cache with `fresh`
+  const generateImage = async (
+    request: ImageGenerationValues,
+    { fresh = false, template = null }: { fresh?: boolean; template?: TemplateUsage | null } = {}
+  ) => {
+    setIsSubmitting(true);
     try {
-      const { data, error } = await supabase.functions.invoke('generate-image', {
-        body: { prompt },
+      await submitJob.mutateAsync({
+        kind: 'image',
+        input: { ...request, images: sourceImages.map(source => source.url), fresh },
+        // Record which gallery image an edit came from
+        parentId: sourceImages.find(source => source.galleryId)?.galleryId ?? null,
+        template,
       });
-
-      if (error) throw error;
-
-      if (data?.imageUrl) {
-        const newImage: GeneratedImage = {
-          id: Date.now().toString(),
-          url: data.imageUrl,
-          prompt,
-          timestamp: Date.now(),
-        };
-        setImages(prev => [newImage, ...prev]);
-        setImageLoading(prev => new Set(prev).add(newImage.id));
-        toast({
-          title: 'Image generated!',
-          description: 'Your AI-generated image is ready',
-        });
-        setPrompt('');
+      toast({
+        title: 'Added to the queue',
+        description: 'Keep working or close the tab; the result will be waiting in your gallery',
+      });
+      // A template keeps its values so the next run can change just one
+      if (!template) form.resetField('prompt');
+      setSourceImages([]);
+    } catch (error) {
+      console.error('Error queueing image generation:', error);
+      // Source image problems have no field of their own; the toast covers them
+      for (const [path, message] of getFieldErrors(error, 'input.')) {
+        if (!path.startsWith('images')) form.setError(path as FieldPath<ImageGenerationValues>, { message });
       }
-    } catch (error: any) {
-      console.error('Error generating image:', error);
       toast({
         title: 'Generation failed',
-        description: error.message || 'Failed to generate image. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to generate image. Please try again.',
         variant: 'destructive',
       });
     } finally {
-      setIsGenerating(false);
+      setIsSubmitting(false);
+    }
+  };
+
+  const dismissFailedJob = async (job: GenerationJob) => {
+    try {
+      await dismissJob.mutateAsync(job.id);
+    } catch (error) {
+      console.error('Error dismissing job:', error);
     }
   };
 
-  const downloadImage = async (url: string, prompt: string) => {
+  const downloadImage = async ({ url, prompt, mimeType }: GeneratedImage) => {
     try {
       const response = await fetch(url);
       const blob = await response.blob();
@@ -99,7 +238,8 @@ export const ImageGenerator = () => {
       const link = document.createElement('a');
       link.href = objectUrl;
       const sanitizedPrompt = prompt.slice(0, 50).replace(/[^a-z0-9]/gi, '-').toLowerCase();
-      link.download = `ai-generated-${sanitizedPrompt}-${Date.now()}.png`;
+      const extension = (mimeType ?? blob.type).split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+      link.download = `ai-generated-${sanitizedPrompt}-${Date.now()}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -148,11 +288,281 @@ export const ImageGenerator = () => {
     });
   };
 
+  const clearImages = async () => {
+    if (!confirm('Clear all generated images?')) return;
+    try {
+      await clearGenerations.mutateAsync();
+      toast({
+        title: 'Cleared',
+        description: 'All images have been cleared',
+      });
+    } catch (error) {
+      console.error('Error clearing images:', error);
+      toast({
+        title: 'Clear failed',
+        description: error instanceof Error ? error.message : 'Failed to clear images. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const discardImage = async (image: GeneratedImage) => {
+    try {
+      await deleteGeneration.mutateAsync(image.id);
+    } catch (error) {
+      console.error('Error discarding image:', error);
+      toast({
+        title: 'Discard failed',
+        description: error instanceof Error ? error.message : 'Failed to discard the image. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Keeps the chosen variation and deletes the rest of its batch
+  const pickVariation = async (image: GeneratedImage) => {
+    const others = images.filter(candidate => candidate.batchId === image.batchId && candidate.id !== image.id);
+    try {
+      await deleteGenerations.mutateAsync(others.map(other => other.id));
+      toast({
+        title: 'Variation picked',
+        description: `Discarded ${others.length} other variation${others.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      console.error('Error picking variation:', error);
+      toast({
+        title: 'Pick failed',
+        description: error instanceof Error ? error.message : 'Failed to discard the other variations. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const addSourceImages = (sources: SourceImage[]) => {
+    const combined = [
+      ...sourceImages,
+      ...sources.filter(source => !sourceImages.some(existing => existing.url === source.url)),
+    ];
+    if (combined.length > MAX_SOURCE_IMAGES) {
+      toast({
+        title: 'Too many images',
+        description: `You can edit with up to ${MAX_SOURCE_IMAGES} source images`,
+        variant: 'destructive',
+      });
+    }
+    setSourceImages(combined.slice(0, MAX_SOURCE_IMAGES));
+  };
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    const valid = files.filter(file => file.type.startsWith('image/') && file.size <= MAX_UPLOAD_BYTES);
+    if (valid.length < files.length) {
+      toast({
+        title: 'Some files were skipped',
+        description: 'Only images up to 5 MB can be used for editing',
+        variant: 'destructive',
+      });
+    }
+
+    try {
+      const sources = await Promise.all(
+        valid.map(async (file) => ({
+          key: `${file.name}-${file.lastModified}`,
+          url: await readFileAsDataUrl(file),
+          label: file.name,
+          galleryId: null,
+        }))
+      );
+      addSourceImages(sources);
+    } catch (error) {
+      console.error('Error reading uploaded image:', error);
+      toast({
+        title: 'Upload failed',
+        description: 'Could not read the selected image',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const removeSourceImage = (key: string) => {
+    setSourceImages(prev => prev.filter(source => source.key !== key));
+  };
+
+  const editImage = (image: GeneratedImage) => {
+    setSourceImages([{ key: image.id, url: image.url, label: image.prompt, galleryId: image.id }]);
+    setSelectedImage(null);
+    // Edits are described freely rather than from a template
+    templateSelection.select(null);
+    form.resetField('prompt');
+    promptRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    form.setFocus('prompt');
+  };
+
+  // Ancestors first, ending with the image itself
+  const getLineage = (image: GeneratedImage) => {
+    const lineage = [image];
+    let parent = image.parentId ? imagesById.get(image.parentId) : undefined;
+    while (parent && !lineage.includes(parent)) {
+      lineage.unshift(parent);
+      parent = parent.parentId ? imagesById.get(parent.parentId) : undefined;
+    }
+    return lineage;
+  };
+
+  const getEdits = (image: GeneratedImage) => images.filter(candidate => candidate.parentId === image.id);
+
   const regenerateImage = async (image: GeneratedImage) => {
-    setPrompt(image.prompt);
-    await generateImage();
+    const imageSettings = { ...defaultImageSettings, ...image.settings };
+    form.setValue('settings', imageSettings);
+    await generateImage(
+      { prompt: image.prompt, settings: imageSettings, variations: form.getValues('variations') },
+      { fresh: true, template: image.template }
+    );
   };
 
+  // Loads the template with the values this image was made with, ready to change one
+  const fillTemplateAgain = (image: GeneratedImage) => {
+    const template = templateSelection.templates.find(candidate => candidate.id === image.template?.id);
+    if (!template) return;
+    templateSelection.select(template, image.template.variables);
+    form.setValue('settings', { ...defaultImageSettings, ...image.settings });
+    promptRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const renderImageCard = (image: GeneratedImage) => (
+    <div
+      key={image.id}
+      onMouseEnter={() => setHoveredImage(image.id)}
+      onMouseLeave={() => setHoveredImage(null)}
+      className="group relative bg-card/30 backdrop-blur-xl rounded-2xl overflow-hidden border border-border hover:border-primary/50 transition-all duration-500 hover:scale-[1.02] hover:shadow-2xl hover:shadow-primary/20"
+    >
+      <div className="aspect-square relative overflow-hidden cursor-pointer" onClick={() => setSelectedImage(image)}>
+        {imageLoading.has(image.id) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
+            <Skeleton className="w-full h-full" />
+            <Loader2 className="absolute h-8 w-8 animate-spin text-primary" />
+          </div>
+        )}
+        {imageErrors.has(image.id) ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-destructive/10 text-destructive p-4">
+            <X className="h-8 w-8 mb-2" />
+            <p className="text-sm text-center">Failed to load image</p>
+          </div>
+        ) : (
+          <img
+            src={image.thumbnailUrl}
+            alt={image.prompt}
+            className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
+            style={{
+              filter: hoveredImage === image.id ? 'brightness(1.1)' : 'brightness(1)',
+              display: imageLoading.has(image.id) ? 'none' : 'block',
+            }}
+            onLoad={() => handleImageLoad(image.id)}
+            onError={() => handleImageError(image.id)}
+            loading="lazy"
+          />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-background/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+        
+        {(image.parentId || image.cached) && (
+          <div className="absolute top-2 left-2 flex gap-1">
+            {image.parentId && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-background/80 backdrop-blur-sm text-xs border border-border">
+                <GitBranch className="h-3 w-3" aria-hidden="true" />
+                Edit
+              </span>
+            )}
+            {image.cached && (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-background/80 backdrop-blur-sm text-xs border border-border"
+                title="Answered from an identical earlier request; regenerate for a fresh take"
+              >
+                <Zap className="h-3 w-3" aria-hidden="true" />
+                Cached
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Action buttons on hover */}
+        <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
+            onClick={(e) => {
+              e.stopPropagation();
+              setSelectedImage(image);
+            }}
+            aria-label="Zoom image"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
+            onClick={(e) => {
+              e.stopPropagation();
+              copyPrompt(image.prompt);
+            }}
+            aria-label="Copy prompt"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          {image.template && templateSelection.templates.some(template => template.id === image.template.id) && (
+            <Button
+              variant="secondary"
+              size="icon"
+              className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
+              onClick={(e) => {
+                e.stopPropagation();
+                fillTemplateAgain(image);
+              }}
+              aria-label="Fill in the template again"
+              title="Load this image's template values to change one and generate again"
+            >
+              <FileCode2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        
+        {/* Animated corner accents */}
+        <div className="absolute top-0 left-0 w-20 h-20 border-t-2 border-l-2 border-primary opacity-0 group-hover:opacity-100 transition-all duration-500 group-hover:w-8 group-hover:h-8" />
+        <div className="absolute bottom-0 right-0 w-20 h-20 border-b-2 border-r-2 border-secondary opacity-0 group-hover:opacity-100 transition-all duration-500 group-hover:w-8 group-hover:h-8" />
+      </div>
+      
+      <div className="p-4 relative">
+        <p className="text-sm text-muted-foreground line-clamp-2 mb-3 transition-colors group-hover:text-foreground">
+          {image.prompt}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadImage(image)}
+            className="flex-1 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => regenerateImage(image)}
+            disabled={isSubmitting}
+            className="hover:bg-gradient-to-r hover:from-secondary/20 hover:to-accent/20 transition-all duration-300"
+            aria-label="Regenerate image"
+          >
+            <Sparkles className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
   const suggestedPrompts = [
     'A futuristic cyberpunk cityscape at night',
     'Abstract cosmic nebula with vibrant colors',
@@ -168,66 +578,204 @@ export const ImageGenerator = () => {
           {/* Shimmer effect */}
           <div className="absolute inset-0 bg-gradient-to-r from-transparent via-primary/5 to-transparent -translate-x-full animate-[shimmer_3s_infinite]" />
           
-          <div className="p-6 relative">
-            <Textarea
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              placeholder="Describe your vision... (e.g., 'A mystical forest with glowing mushrooms and ethereal lighting')"
-              className="min-h-32 mb-4 bg-background/50 border-border focus:border-primary resize-none text-base transition-all duration-300 focus:shadow-lg focus:shadow-primary/20"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && e.ctrlKey) {
-                  e.preventDefault();
-                  generateImage();
-                }
-              }}
-              aria-label="Image generation prompt"
-              aria-describedby="image-prompt-hint"
-            />
-            <p id="image-prompt-hint" className="sr-only">
-              Enter a description of the image you want to generate. Press Ctrl+Enter to generate.
-            </p>
-            
-            {/* Suggested Prompts */}
-            <div className="mb-4">
-              <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
-                <Sparkles className="w-3 h-3" />
-                Try these prompts:
-              </p>
-              <div className="flex flex-wrap gap-2">
-                {suggestedPrompts.map((suggestion, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setPrompt(suggestion)}
-                    className="text-xs px-3 py-1.5 rounded-full bg-muted/50 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300 border border-border hover:border-primary/50 hover:scale-105"
-                  >
-                    {suggestion}
-                  </button>
-                ))}
-              </div>
-            </div>
+          <Form {...form}>
+            <form onSubmit={submitWithTemplate} className="p-6 relative" noValidate>
+              {/* Source images for editing */}
+              {isEditing && (
+                <div className="mb-4">
+                  <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                    <Pencil className="w-3 h-3" />
+                    Editing from:
+                  </p>
+                  <div className="flex flex-wrap gap-3">
+                    {sourceImages.map((source) => (
+                      <div key={source.key} className="relative w-20 h-20 rounded-lg overflow-hidden border border-primary/50">
+                        <img src={source.url} alt={source.label} className="w-full h-full object-cover" />
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          size="icon"
+                          className="absolute top-1 right-1 h-5 w-5 bg-background/80 hover:bg-background"
+                          onClick={() => removeSourceImage(source.key)}
+                          aria-label={`Remove source image ${source.label}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
 
-            <Button
-              onClick={generateImage}
-              disabled={isGenerating || !prompt.trim()}
-              className="w-full h-12 text-base font-medium bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300 hover:shadow-lg hover:shadow-primary/30"
-              aria-label={isGenerating ? "Generating image" : "Generate image from prompt"}
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="mr-2 h-5 w-5" />
-                  Generate Image (Ctrl+Enter)
-                </>
+              <PromptTemplatePanel kind="image" selection={templateSelection} disabled={isSubmitting} />
+
+              <FormField
+                control={form.control}
+                name="prompt"
+                render={({ field }) => (
+                  <FormItem className="mb-4 space-y-0">
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        ref={(element) => {
+                          field.ref(element);
+                          promptRef.current = element;
+                        }}
+                        placeholder={isEditing
+                          ? "Describe how to change the image... (e.g., 'Make it a snowy winter evening')"
+                          : "Describe your vision... (e.g., 'A mystical forest with glowing mushrooms and ethereal lighting')"}
+                        className={cn(
+                          'min-h-32 bg-background/50 border-border focus:border-primary resize-none text-base transition-all duration-300 focus:shadow-lg focus:shadow-primary/20',
+                          templateSelection.template && 'text-muted-foreground'
+                        )}
+                        readOnly={!!templateSelection.template}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && e.ctrlKey) {
+                            e.preventDefault();
+                            submitWithTemplate();
+                          }
+                        }}
+                        aria-label="Image generation prompt"
+                        aria-describedby="image-prompt-hint"
+                      />
+                    </FormControl>
+                    <div className="flex items-start justify-between gap-4 mt-2">
+                      <FormMessage />
+                      {prompt.length > 0 && (
+                        <p
+                          className={cn('ml-auto text-xs', prompt.length > MAX_PROMPT_LENGTH ? 'text-destructive' : 'text-muted-foreground')}
+                          aria-live="polite"
+                        >
+                          {prompt.length} / {MAX_PROMPT_LENGTH} characters
+                        </p>
+                      )}
+                    </div>
+                    <p id="image-prompt-hint" className="sr-only">
+                      Enter a description of the image you want to generate. Press Ctrl+Enter to generate.
+                    </p>
+                  </FormItem>
+                )}
+              />
+              
+              {/* Suggested Prompts */}
+              {!templateSelection.template && (
+                <div className="mb-4">
+                  <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                    <Sparkles className="w-3 h-3" />
+                    Try these prompts:
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {suggestedPrompts.map((suggestion, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => form.setValue('prompt', suggestion, { shouldValidate: form.formState.isSubmitted })}
+                        className="text-xs px-3 py-1.5 rounded-full bg-muted/50 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300 border border-border hover:border-primary/50 hover:scale-105"
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               )}
-            </Button>
-          </div>
+
+              {/* Generation Settings */}
+              <Collapsible open={showSettings} onOpenChange={setShowSettings}>
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" size="sm" className="mb-2 px-2 text-muted-foreground hover:text-foreground">
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Settings
+                    <span className="ml-2 text-xs">
+                      {settings.aspectRatio} • {settings.resolution}px • {settings.format.toUpperCase()}
+                    </span>
+                    <ChevronDown className={`ml-2 h-4 w-4 transition-transform ${showSettings ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <FormField
+                    control={form.control}
+                    name="settings"
+                    render={({ field }) => (
+                      <ImageSettingsPanel
+                        value={field.value}
+                        onChange={field.onChange}
+                        errors={settingsErrors}
+                        disabled={isSubmitting}
+                      />
+                    )}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={handleUpload}
+                aria-label="Upload source images"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSubmitting || sourceImages.length >= MAX_SOURCE_IMAGES}
+                className="w-full mb-3 border-dashed hover:bg-primary/10"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {isEditing ? 'Add Another Source Image' : 'Upload an Image to Edit'}
+              </Button>
+
+              <div className="flex gap-3">
+                <FormField
+                  control={form.control}
+                  name="variations"
+                  render={({ field }) => (
+                    <Select
+                      value={String(field.value)}
+                      onValueChange={(value) => field.onChange(Number(value))}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger className="w-24 h-12 bg-background/50 border-border" aria-label="Number of variations">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VARIATION_COUNTS.map((count) => (
+                          <SelectItem key={count} value={String(count)}>
+                            ×{count}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  disabled={isSubmitting || !prompt.trim()}
+                  className="flex-1 h-12 text-base font-medium bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300 hover:shadow-lg hover:shadow-primary/30"
+                  aria-label={isSubmitting ? "Queueing image generation" : isEditing ? "Edit image from prompt" : "Generate image from prompt"}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Queueing...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="mr-2 h-5 w-5" />
+                      {isEditing ? 'Edit Image (Ctrl+Enter)' : 'Generate Image (Ctrl+Enter)'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
         </Card>
       </div>
 
+      <JobQueue jobs={jobs} onDismiss={dismissFailedJob} />
+
       {/* Gallery */}
       {images.length > 0 && (
         <div className="animate-fade-in">
@@ -236,118 +784,24 @@ export const ImageGenerator = () => {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => {
-                if (confirm('Clear all generated images?')) {
-                  setImages([]);
-                  localStorage.removeItem('ai-studio-images');
-                  toast({
-                    title: 'Cleared',
-                    description: 'All images have been cleared',
-                  });
-                }
-              }}
+              onClick={clearImages}
+              disabled={clearGenerations.isPending}
               className="text-muted-foreground hover:text-foreground"
             >
               Clear All
             </Button>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {images.map((image) => (
-              <div
-                key={image.id}
-                onMouseEnter={() => setHoveredImage(image.id)}
-                onMouseLeave={() => setHoveredImage(null)}
-                className="group relative bg-card/30 backdrop-blur-xl rounded-2xl overflow-hidden border border-border hover:border-primary/50 transition-all duration-500 hover:scale-[1.02] hover:shadow-2xl hover:shadow-primary/20"
-              >
-                <div className="aspect-square relative overflow-hidden cursor-pointer" onClick={() => setSelectedImage(image)}>
-                  {imageLoading.has(image.id) && (
-                    <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
-                      <Skeleton className="w-full h-full" />
-                      <Loader2 className="absolute h-8 w-8 animate-spin text-primary" />
-                    </div>
-                  )}
-                  {imageErrors.has(image.id) ? (
-                    <div className="absolute inset-0 flex flex-col items-center justify-center bg-destructive/10 text-destructive p-4">
-                      <X className="h-8 w-8 mb-2" />
-                      <p className="text-sm text-center">Failed to load image</p>
-                    </div>
-                  ) : (
-                    <img
-                      src={image.url}
-                      alt={image.prompt}
-                      className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
-                      style={{
-                        filter: hoveredImage === image.id ? 'brightness(1.1)' : 'brightness(1)',
-                        display: imageLoading.has(image.id) ? 'none' : 'block',
-                      }}
-                      onLoad={() => handleImageLoad(image.id)}
-                      onError={() => handleImageError(image.id)}
-                      loading="lazy"
-                    />
-                  )}
-                  <div className="absolute inset-0 bg-gradient-to-t from-background/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-                  
-                  {/* Action buttons on hover */}
-                  <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                    <Button
-                      variant="secondary"
-                      size="icon"
-                      className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedImage(image);
-                      }}
-                      aria-label="Zoom image"
-                    >
-                      <ZoomIn className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="secondary"
-                      size="icon"
-                      className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        copyPrompt(image.prompt);
-                      }}
-                      aria-label="Copy prompt"
-                    >
-                      <Copy className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  
-                  {/* Animated corner accents */}
-                  <div className="absolute top-0 left-0 w-20 h-20 border-t-2 border-l-2 border-primary opacity-0 group-hover:opacity-100 transition-all duration-500 group-hover:w-8 group-hover:h-8" />
-                  <div className="absolute bottom-0 right-0 w-20 h-20 border-b-2 border-r-2 border-secondary opacity-0 group-hover:opacity-100 transition-all duration-500 group-hover:w-8 group-hover:h-8" />
-                </div>
-                
-                <div className="p-4 relative">
-                  <p className="text-sm text-muted-foreground line-clamp-2 mb-3 transition-colors group-hover:text-foreground">
-                    {image.prompt}
-                  </p>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => downloadImage(image.url, image.prompt)}
-                      className="flex-1 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300"
-                    >
-                      <Download className="mr-2 h-4 w-4" />
-                      Download
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => regenerateImage(image)}
-                      disabled={isGenerating}
-                      className="hover:bg-gradient-to-r hover:from-secondary/20 hover:to-accent/20 transition-all duration-300"
-                      aria-label="Regenerate image"
-                    >
-                      <Sparkles className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            ))}
+            {galleryItems.map((item) => item.type === 'batch' ? (
+              <VariationSet
+                key={item.id}
+                images={item.images}
+                onOpen={setSelectedImage}
+                onPick={pickVariation}
+                onDiscard={discardImage}
+                disabled={deleteGeneration.isPending || deleteGenerations.isPending}
+              />
+            ) : renderImageCard(item.image))}
           </div>
         </div>
       )}
@@ -365,7 +819,46 @@ export const ImageGenerator = () => {
                 alt={selectedImage.prompt}
                 className="w-full h-auto rounded-lg max-h-[70vh] object-contain mx-auto"
               />
-              <div className="flex gap-2 mt-4 justify-end">
+              {selectedImage.width && selectedImage.height && (
+                <p className="text-xs text-muted-foreground mt-2 text-center">
+                  {selectedImage.width} × {selectedImage.height}
+                  {selectedImage.mimeType && ` • ${selectedImage.mimeType.replace('image/', '').toUpperCase()}`}
+                  {selectedImage.settings && ` • ${selectedImage.settings.aspectRatio}`}
+                </p>
+              )}
+              {(selectedImage.parentId || getEdits(selectedImage).length > 0) && (
+                <div className="mt-4">
+                  <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                    <GitBranch className="w-3 h-3" />
+                    Edit lineage
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {[...getLineage(selectedImage), ...getEdits(selectedImage)].map((image) => (
+                      <button
+                        key={image.id}
+                        onClick={() => setSelectedImage(image)}
+                        className={`w-14 h-14 rounded-md overflow-hidden border-2 transition-colors ${
+                          image.id === selectedImage.id ? 'border-primary' : 'border-border hover:border-primary/50'
+                        }`}
+                        title={image.prompt}
+                        aria-label={`View ${image.id === selectedImage.id ? 'current' : 'related'} image: ${image.prompt}`}
+                      >
+                        <img src={image.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2 mt-4 justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => editImage(selectedImage)}
+                  disabled={isSubmitting}
+                  className="hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20"
+                >
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit this image
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => copyPrompt(selectedImage.prompt)}
@@ -376,7 +869,7 @@ export const ImageGenerator = () => {
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={() => downloadImage(selectedImage.url, selectedImage.prompt)}
+                  onClick={() => downloadImage(selectedImage)}
                   className="hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20"
                 >
                   <Download className="mr-2 h-4 w-4" />
@@ -384,7 +877,7 @@ export const ImageGenerator = () => {
                 </Button>
                 <Button
                   onClick={() => regenerateImage(selectedImage)}
-                  disabled={isGenerating}
+                  disabled={isSubmitting}
                   className="bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90"
                 >
                   <Sparkles className="mr-2 h-4 w-4" />
@@ -396,7 +889,13 @@ export const ImageGenerator = () => {
         </DialogContent>
       </Dialog>
 
-      {images.length === 0 && (
+      {isLoading && (
+        <div className="flex justify-center py-20" role="status" aria-label="Loading images">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {!isLoading && images.length === 0 && (
         <div className="text-center py-20 animate-fade-in">
           <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 flex items-center justify-center backdrop-blur-sm border border-primary/20 animate-pulse">
             <Sparkles className="w-12 h-12 text-primary" />
@@ -0,0 +1,128 @@
+import { FieldErrors } from 'react-hook-form';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { aspectRatios, getTargetSize, ImageSettings, outputFormats, resolutions } from '@/lib/image-settings';
+
+interface ImageSettingsPanelProps {
+  value: ImageSettings;
+  onChange: (settings: ImageSettings) => void;
+  // Schema errors for individual settings, from the form or the function
+  errors?: FieldErrors<ImageSettings>;
+  disabled?: boolean;
+}
+
+const SettingError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs font-medium text-destructive mt-2">{message}</p> : null;
+
+export const ImageSettingsPanel = ({ value, onChange, errors, disabled }: ImageSettingsPanelProps) => {
+  const { width, height } = getTargetSize(value);
+  const isLossy = outputFormats.find(format => format.value === value.format)?.lossy ?? false;
+
+  const update = (changes: Partial<ImageSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="mb-4 space-y-4 rounded-lg border border-border bg-background/30 p-4">
+      <div>
+        <Label className="text-sm font-medium mb-2 block">Aspect Ratio</Label>
+        <ToggleGroup
+          type="single"
+          value={value.aspectRatio}
+          onValueChange={(aspectRatio) => aspectRatio && update({ aspectRatio: aspectRatio as ImageSettings['aspectRatio'] })}
+          className="flex-wrap justify-start"
+          disabled={disabled}
+          aria-label="Aspect ratio"
+        >
+          {aspectRatios.map((ratio) => (
+            <ToggleGroupItem
+              key={ratio.value}
+              value={ratio.value}
+              variant="outline"
+              size="sm"
+              className="data-[state=on]:bg-primary/20 data-[state=on]:border-primary/50"
+              title={`${ratio.label} • ${ratio.hint}`}
+            >
+              {ratio.value}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <SettingError message={errors?.aspectRatio?.message} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="image-resolution" className="text-sm font-medium mb-2 block">
+            Resolution
+          </Label>
+          <Select
+            value={String(value.resolution)}
+            onValueChange={(resolution) => update({ resolution: Number(resolution) as ImageSettings['resolution'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="image-resolution" className="bg-background/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {resolutions.map((resolution) => (
+                <SelectItem key={resolution} value={String(resolution)}>
+                  {resolution}px long edge
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SettingError message={errors?.resolution?.message} />
+        </div>
+
+        <div>
+          <Label htmlFor="image-format" className="text-sm font-medium mb-2 block">
+            Format
+          </Label>
+          <Select
+            value={value.format}
+            onValueChange={(format) => update({ format: format as ImageSettings['format'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="image-format" className="bg-background/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {outputFormats.map((format) => (
+                <SelectItem key={format.value} value={format.value}>
+                  {format.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SettingError message={errors?.format?.message} />
+        </div>
+      </div>
+
+      {isLossy && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label htmlFor="image-quality" className="text-sm font-medium">
+              Quality
+            </Label>
+            <span className="text-xs text-muted-foreground">{value.quality}</span>
+          </div>
+          <Slider
+            id="image-quality"
+            min={1}
+            max={100}
+            step={1}
+            value={[value.quality]}
+            onValueChange={([quality]) => update({ quality })}
+            disabled={disabled}
+            aria-label="Output quality"
+          />
+          <SettingError message={errors?.quality?.message} />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Output: {width} × {height} {outputFormats.find(format => format.value === value.format)?.label}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Clock, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { GenerationJob, getJobPrompt, isJobPending } from '@/hooks/use-jobs';
+
+interface JobQueueProps {
+  jobs: GenerationJob[];
+  onDismiss: (job: GenerationJob) => void;
+}
+
+const formatElapsed = (from: string, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - new Date(from).getTime()) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Background jobs still running, plus failures until they are dismissed
+export const JobQueue = ({ jobs, onDismiss }: JobQueueProps) => {
+  const [now, setNow] = useState(Date.now());
+  const hasPending = jobs.some(isJobPending);
+
+  // Tick the elapsed timers only while something is running
+  useEffect(() => {
+    if (!hasPending) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasPending]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="mb-8 bg-card/30 backdrop-blur-xl border-border p-4 animate-fade-in" aria-live="polite">
+      <h2 className="text-sm font-medium text-muted-foreground mb-3">
+        Queue • {jobs.filter(isJobPending).length} in progress
+      </h2>
+      <ul className="space-y-2">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-center gap-3 text-sm">
+            {job.status === 'failed' ? (
+              <AlertCircle className="h-4 w-4 shrink-0 text-destructive" aria-hidden="true" />
+            ) : job.status === 'running' ? (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" aria-hidden="true" />
+            ) : (
+              <Clock className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate">{getJobPrompt(job)}</p>
+              {job.status === 'failed' ? (
+                <p className="text-xs text-destructive truncate">{job.error ?? 'Generation failed'}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {job.status === 'running' ? 'Generating' : 'Queued'} • {formatElapsed(job.created_at, now)}
+                </p>
+              )}
+            </div>
+            {job.status === 'failed' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => onDismiss(job)}
+                aria-label="Dismiss failed job"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Braces, Loader2, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { StructuredOutputSelection, useDeleteJsonSchema, useSaveJsonSchema } from '@/hooks/use-json-schemas';
+import { MAX_JSON_SCHEMA_LENGTH, parseSchemaText, savedJsonSchemaSchema } from '@/lib/structured-output';
+import { cn } from '@/lib/utils';
+
+interface JsonSchemaPanelProps {
+  selection: StructuredOutputSelection;
+  disabled?: boolean;
+}
+
+// Radix Select has no empty value, so a schema that is not saved gets a sentinel
+const UNSAVED = 'unsaved';
+
+/**
+ * Switches the text generator to structured output and edits the JSON Schema
+ * the reply must match, which can be saved for reuse.
+ */
+export const JsonSchemaPanel = ({ selection, disabled }: JsonSchemaPanelProps) => {
+  const { schemas, enabled, setEnabled, saved, text, error, setError, select, edit } = selection;
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const saveSchema = useSaveJsonSchema();
+  const deleteSchema = useDeleteJsonSchema();
+  const { toast } = useToast();
+
+  // Saves over the picked schema, or as a new one named `newName`
+  const save = async (newName?: string) => {
+    const parsed = parseSchemaText(text);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const values = savedJsonSchemaSchema.safeParse({ name: newName ?? saved?.name, schema: parsed.schema });
+    if (!values.success) {
+      setError(values.error.issues[0].message);
+      return;
+    }
+
+    try {
+      const result = await saveSchema.mutateAsync({ id: newName === undefined ? saved?.id : undefined, values: values.data });
+      select(result);
+      setNaming(false);
+      setName('');
+      toast({
+        title: 'Schema saved',
+        description: `${result.name} is ready to reuse`,
+      });
+    } catch (saveError) {
+      console.error('Error saving schema:', saveError);
+      toast({
+        title: 'Save failed',
+        description: saveError instanceof Error ? saveError.message : 'Failed to save the schema. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const remove = async () => {
+    if (!saved || !confirm(`Delete the ${saved.name} schema?`)) return;
+    try {
+      await deleteSchema.mutateAsync(saved.id);
+      select(null);
+      toast({
+        title: 'Deleted',
+        description: 'The schema has been removed',
+      });
+    } catch (deleteError) {
+      console.error('Error deleting schema:', deleteError);
+      toast({
+        title: 'Delete failed',
+        description: deleteError instanceof Error ? deleteError.message : 'Failed to delete the schema. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isBusy = disabled || saveSchema.isPending || deleteSchema.isPending;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="text-structured" className="text-sm font-medium">
+            Structured JSON output
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Answer with fields matching a JSON Schema instead of paragraphs
+          </p>
+        </div>
+        <Switch id="text-structured" checked={enabled} onCheckedChange={setEnabled} disabled={disabled} />
+      </div>
+
+      {enabled && (
+        <div className="mt-4 space-y-3 rounded-lg border border-border bg-background/30 p-4">
+          <div className="flex gap-2">
+            <Select
+              value={saved?.id ?? UNSAVED}
+              onValueChange={(id) => select(schemas.find(candidate => candidate.id === id) ?? null)}
+              disabled={isBusy}
+            >
+              <SelectTrigger className="bg-background/50 border-border" aria-label="Saved schema">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNSAVED}>Unsaved schema</SelectItem>
+                {schemas.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    <span className="inline-flex items-center gap-2">
+                      <Braces className="h-3 w-3" aria-hidden="true" />
+                      {candidate.name}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {saved && (
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="shrink-0 hover:bg-destructive/20"
+                onClick={remove}
+                disabled={isBusy}
+                aria-label="Delete schema"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <Textarea
+            value={text}
+            onChange={(e) => edit(e.target.value)}
+            className={cn('min-h-48 bg-background/50 border-border resize-y font-mono text-xs', error && 'border-destructive')}
+            spellCheck={false}
+            disabled={disabled}
+            aria-label="JSON Schema"
+            aria-invalid={!!error}
+            aria-describedby={error ? 'text-structured-error' : undefined}
+          />
+          <div className="flex items-start justify-between gap-4">
+            {error && (
+              <p id="text-structured-error" className="text-xs font-medium text-destructive">
+                {error}
+              </p>
+            )}
+            <p className={cn('ml-auto text-xs', text.length > MAX_JSON_SCHEMA_LENGTH ? 'text-destructive' : 'text-muted-foreground')}>
+              {text.length} / {MAX_JSON_SCHEMA_LENGTH} characters
+            </p>
+          </div>
+
+          {naming ? (
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    save(name);
+                  }
+                }}
+                placeholder="e.g. Blog article"
+                className="bg-background/50 border-border"
+                aria-label="Schema name"
+                autoFocus
+              />
+              <Button type="button" onClick={() => save(name)} disabled={isBusy}>
+                {saveSchema.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setNaming(false)} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {saved && (
+                <Button type="button" variant="outline" size="sm" onClick={() => save()} disabled={isBusy}>
+                  {saveSchema.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save changes to {saved.name}
+                </Button>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={() => setNaming(true)} disabled={isBusy}>
+                <Save className="mr-2 h-4 w-4" />
+                Save as new schema
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { ChevronRight, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatJson } from '@/lib/structured-output';
+import { cn } from '@/lib/utils';
+
+interface JsonTreeProps {
+  value: unknown;
+  // Levels below this start collapsed
+  expandDepth?: number;
+  className?: string;
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+  expandDepth: number;
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+const Primitive = ({ value }: { value: unknown }) => {
+  if (value === null) return <span className="italic text-muted-foreground">null</span>;
+  if (typeof value === 'string') return <span className="whitespace-pre-wrap break-words text-foreground">"{value}"</span>;
+  return <span className="text-primary">{String(value)}</span>;
+};
+
+const JsonNode = ({ name, value, depth, expandDepth }: JsonNodeProps) => {
+  const [open, setOpen] = useState(depth < expandDepth);
+  const { toast } = useToast();
+
+  const label = name !== undefined && <span className="text-muted-foreground">{name}: </span>;
+
+  if (!isContainer(value)) {
+    return (
+      <div className="py-0.5 pl-5">
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  const copyNode = () => {
+    navigator.clipboard.writeText(formatJson(value));
+    toast({
+      title: 'Copied!',
+      description: `${name ?? 'JSON'} copied to clipboard`,
+    });
+  };
+
+  return (
+    <div>
+      <div className="group/node flex items-center gap-1 py-0.5">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1 rounded hover:bg-muted/50"
+          aria-expanded={open}
+        >
+          <ChevronRight className={cn('h-4 w-4 shrink-0 transition-transform', open && 'rotate-90')} aria-hidden="true" />
+          {label}
+          <span className="text-xs text-muted-foreground">{summary}</span>
+        </button>
+        <button
+          type="button"
+          onClick={copyNode}
+          className="rounded p-1 text-muted-foreground opacity-0 hover:text-foreground focus:opacity-100 group-hover/node:opacity-100"
+          aria-label={`Copy ${name ?? 'JSON'}`}
+        >
+          <Copy className="h-3 w-3" />
+        </button>
+      </div>
+      {open && (
+        <div className="ml-2 border-l border-border pl-2">
+          {entries.length === 0 && <div className="py-0.5 pl-5 text-xs text-muted-foreground">empty</div>}
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} value={item} depth={depth + 1} expandDepth={expandDepth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Collapsible view of a JSON document; each object and array can be copied on its own
+export const JsonTree = ({ value, expandDepth = 2, className }: JsonTreeProps) => (
+  <div className={cn('font-mono text-sm leading-relaxed', className)}>
+    <JsonNode value={value} depth={0} expandDepth={expandDepth} />
+  </div>
+);
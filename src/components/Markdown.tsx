@@ -0,0 +1,180 @@
+import { ReactNode, useState } from 'react';
+import type { ElementContent } from 'hast';
+import type { Nodes, Root } from 'mdast';
+import ReactMarkdown, { Components } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import { Check, Copy } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { isSafeUrl } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Copied state flips back after this long
+const COPIED_MS = 2000;
+
+// Raw HTML shows as the text it was written as, rather than being dropped
+const htmlAsText = (node: Nodes) => {
+  if (!('children' in node)) return;
+  node.children = node.children.map(child =>
+    child.type !== 'html'
+      ? child
+      : ['root', 'blockquote', 'listItem', 'footnoteDefinition'].includes(node.type)
+        ? { type: 'paragraph', children: [{ type: 'text', value: child.value }] }
+        : { type: 'text', value: child.value }
+  ) as typeof node.children;
+  node.children.forEach(htmlAsText);
+};
+
+const remarkHtmlAsText = () => (tree: Root) => htmlAsText(tree);
+
+// Plain text under a node, e.g. the source of a highlighted code block
+const nodeText = (node: ElementContent): string =>
+  node.type === 'text' ? node.value : 'children' in node ? node.children.map(nodeText).join('') : '';
+
+const CodeBlock = ({ lang, code, children }: { lang: string; code: string; children: ReactNode }) => {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_MS);
+    } catch (error) {
+      console.error('Error copying code:', error);
+      toast({
+        title: 'Copy failed',
+        description: 'Your browser blocked access to the clipboard',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="my-4 overflow-hidden rounded-lg border border-border bg-background/60">
+      <div className="flex items-center justify-between border-b border-border px-3 py-1.5">
+        <span className="font-mono text-xs text-muted-foreground">{lang || 'text'}</span>
+        <button
+          type="button"
+          onClick={copyCode}
+          className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+          aria-label={copied ? 'Code copied' : 'Copy code'}
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      {/* The code element inside is styled as inline code unless undone here */}
+      <pre className="overflow-x-auto p-3 text-sm leading-relaxed [&>code]:rounded-none [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-[1em]">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const headingClasses: Record<number, string> = {
+  1: 'text-2xl font-bold mt-6 mb-3',
+  2: 'text-xl font-semibold mt-5 mb-2',
+  3: 'text-lg font-semibold mt-4 mb-2',
+};
+
+const heading = (level: number): Components['h1'] => ({ node: _node, ...props }) => {
+  const Heading = `h${level}` as 'h1';
+  return <Heading {...props} className={headingClasses[level] ?? 'font-semibold mt-3 mb-1'} />;
+};
+
+// Only the cell's text alignment is kept from GitHub tables' style attribute
+const alignClass = (align: unknown) =>
+  align === 'center' ? 'text-center' : align === 'right' ? 'text-right' : align === 'left' ? 'text-left' : undefined;
+
+const components: Components = {
+  h1: heading(1),
+  h2: heading(2),
+  h3: heading(3),
+  h4: heading(4),
+  h5: heading(5),
+  h6: heading(6),
+  p: ({ node: _node, ...props }) => <p {...props} className="my-3 leading-relaxed" />,
+  a: ({ node: _node, href, children }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-4 hover:opacity-80">
+        {children}
+      </a>
+    ) : (
+      <>{children}</>
+    ),
+  // Images are linked rather than loaded, so output cannot make the browser fetch from anywhere
+  img: ({ src, alt }) =>
+    src ? (
+      <a href={src} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-4 hover:opacity-80">
+        {alt || src}
+      </a>
+    ) : (
+      <>{alt}</>
+    ),
+  strong: ({ node: _node, ...props }) => <strong {...props} className="font-semibold" />,
+  code: ({ node: _node, className, ...props }) => (
+    <code {...props} className={cn('rounded bg-muted px-1.5 py-0.5 font-mono text-[0.9em]', className)} />
+  ),
+  pre: ({ node, children }) => {
+    const code = node?.children.find(child => child.type === 'element' && child.tagName === 'code');
+    const classNames = code?.type === 'element' ? [code.properties.className ?? []].flat().map(String) : [];
+    const lang = classNames.find(name => name.startsWith('language-'))?.slice('language-'.length) ?? '';
+    return (
+      <CodeBlock lang={lang} code={code ? nodeText(code).replace(/\n$/, '') : ''}>
+        {children}
+      </CodeBlock>
+    );
+  },
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote {...props} className="my-3 border-l-2 border-primary/50 pl-4 text-muted-foreground" />
+  ),
+  ul: ({ node: _node, className, ...props }) => (
+    <ul {...props} className={cn('my-3 space-y-1 pl-6 list-disc', className?.includes('contains-task-list') && 'list-none pl-0')} />
+  ),
+  ol: ({ node: _node, className, ...props }) => (
+    <ol {...props} className={cn('my-3 space-y-1 pl-6 list-decimal', className?.includes('contains-task-list') && 'list-none pl-0')} />
+  ),
+  li: ({ node: _node, ...props }) => (
+    <li {...props} className="leading-relaxed [&>input]:mr-2 [&>input]:align-middle [&>p]:my-1" />
+  ),
+  table: ({ node: _node, children }) => (
+    <div className="my-4 rounded-lg border border-border">
+      <Table>{children}</Table>
+    </div>
+  ),
+  thead: ({ node: _node, children }) => <TableHeader>{children}</TableHeader>,
+  tbody: ({ node: _node, children }) => <TableBody>{children}</TableBody>,
+  tr: ({ node: _node, children }) => <TableRow>{children}</TableRow>,
+  th: ({ node, children }) => <TableHead className={alignClass(node?.properties.align)}>{children}</TableHead>,
+  td: ({ node, children }) => <TableCell className={alignClass(node?.properties.align)}>{children}</TableCell>,
+  hr: () => <hr className="my-6 border-border" />,
+};
+
+// Links are limited to http, https and mailto; any other URL is dropped and its text kept
+const urlTransform = (url: string) => (isSafeUrl(url) ? url : null);
+
+/**
+ * Renders model output written in Markdown (CommonMark with GitHub tables, task
+ * lists and strikethrough). Raw HTML is sanitized away and links are limited to
+ * http, https and mailto, so untrusted output cannot inject markup or scripts.
+ */
+export const Markdown = ({ content, className }: MarkdownProps) => (
+  <div className={cn('text-foreground break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0', className)}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkHtmlAsText]}
+      rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+      urlTransform={urlTransform}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { FileCode2, Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TemplateEditorDialog } from './TemplateEditorDialog';
+import type { GenerationKind } from '@/hooks/use-generations';
+import { PromptTemplate, TemplateSelection } from '@/hooks/use-prompt-templates';
+import type { TemplateField } from '@/lib/prompt-templates';
+
+interface PromptTemplatePanelProps {
+  kind: GenerationKind;
+  selection: TemplateSelection;
+  disabled?: boolean;
+}
+
+// Radix Select has no empty value, so "no template" gets a sentinel
+const NO_TEMPLATE = 'none';
+
+/**
+ * Picks a saved template and renders a form from its fields; the generator
+ * uses the filled-in template as its prompt.
+ */
+export const PromptTemplatePanel = ({ kind, selection, disabled }: PromptTemplatePanelProps) => {
+  const { templates, template, inputs, errors, select, setInput } = selection;
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+
+  const openEditor = (target: PromptTemplate | null) => {
+    setEditing(target);
+    setEditorOpen(true);
+  };
+
+  const renderInput = (field: TemplateField) => {
+    const id = `${kind}-template-${field.name}`;
+    const value = inputs[field.name] ?? '';
+    const describedBy = errors[field.name] ? `${id}-error` : undefined;
+
+    switch (field.type) {
+      case 'longtext':
+        return (
+          <Textarea
+            id={id}
+            value={value}
+            onChange={(e) => setInput(field.name, e.target.value)}
+            className="min-h-20 bg-background/50 border-border resize-none"
+            disabled={disabled}
+            aria-invalid={!!errors[field.name]}
+            aria-describedby={describedBy}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={value} onValueChange={(option) => setInput(field.name, option)} disabled={disabled}>
+            <SelectTrigger id={id} className="bg-background/50 border-border" aria-describedby={describedBy}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === 'number' ? 'number' : 'text'}
+            value={value}
+            onChange={(e) => setInput(field.name, e.target.value)}
+            className="bg-background/50 border-border"
+            disabled={disabled}
+            aria-invalid={!!errors[field.name]}
+            aria-describedby={describedBy}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <Label htmlFor={`${kind}-template`} className="text-sm font-medium mb-2 block">
+        Template
+      </Label>
+      <div className="flex gap-2">
+        <Select
+          value={template?.id ?? NO_TEMPLATE}
+          onValueChange={(id) => select(templates.find(candidate => candidate.id === id) ?? null)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${kind}-template`} className="bg-background/50 border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE}>No template: write the prompt freely</SelectItem>
+            {templates.map((candidate) => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                <span className="inline-flex items-center gap-2">
+                  <FileCode2 className="h-3 w-3" aria-hidden="true" />
+                  {candidate.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {template && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="shrink-0 hover:bg-primary/10"
+            onClick={() => openEditor(template)}
+            disabled={disabled}
+            aria-label="Edit template"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="shrink-0 hover:bg-primary/10"
+          onClick={() => openEditor(null)}
+          disabled={disabled}
+          aria-label="New template"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {template && template.fields.length > 0 && (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 rounded-lg border border-border bg-background/30 p-4">
+          {template.fields.map((field) => (
+            <div key={field.name} className={field.type === 'longtext' ? 'sm:col-span-2' : undefined}>
+              <Label htmlFor={`${kind}-template-${field.name}`} className="text-sm font-medium mb-2 block">
+                {field.label}
+              </Label>
+              {renderInput(field)}
+              {errors[field.name] && (
+                <p id={`${kind}-template-${field.name}-error`} className="text-xs font-medium text-destructive mt-2">
+                  {errors[field.name]}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TemplateEditorDialog
+        kind={kind}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        template={editing}
+        onSaved={(saved) => {
+          // A new template is picked straight away; an edited one keeps its values
+          if (!editing) select(saved);
+        }}
+        onDeleted={() => select(null)}
+      />
+    </div>
+  );
+};
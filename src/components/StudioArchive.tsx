@@ -0,0 +1,211 @@
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { OpenedArchive, useExportStudio, useImportStudio, useOpenStudioArchive } from '@/hooks/use-studio-archive';
+import { ImportMode, planImport } from '@/lib/studio-archive';
+
+const importModes: { value: ImportMode; label: string; hint: string }[] = [
+  { value: 'merge', label: 'Merge', hint: 'Keep everything you have and add what is new' },
+  { value: 'replace', label: 'Replace', hint: 'Remove your texts, images, private styles and settings' },
+];
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+// Back up or move the whole studio as one zip: texts, images, styles and settings
+export const StudioArchive = () => {
+  const [opened, setOpened] = useState<(OpenedArchive & { fileName: string }) | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const exportStudio = useExportStudio();
+  const openArchive = useOpenStudioArchive();
+  const importStudio = useImportStudio();
+  const { toast } = useToast();
+
+  const plan = useMemo(() => (opened ? planImport(opened.archive, opened.existing, mode) : null), [opened, mode]);
+
+  const handleExport = async () => {
+    try {
+      const result = await exportStudio.mutateAsync();
+      const saved = `${count(result.texts, 'text')}, ${count(result.images, 'image')} and ${count(result.styles, 'style')} saved`;
+      toast({
+        title: 'Workspace exported',
+        description: result.missingImages > 0
+          ? `${saved}. ${count(result.missingImages, 'image')} could not be downloaded and ${result.missingImages === 1 ? 'was' : 'were'} left out.`
+          : saved,
+        variant: result.missingImages > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Could not export your workspace. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await openArchive.mutateAsync(file);
+      setMode('merge');
+      setOpened({ ...result, fileName: file.name });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Could not read the archive. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!opened || !plan) return;
+    if (mode === 'replace' && !confirm('Replace your workspace? Your current texts, images and private styles will be deleted once the archive is in.')) return;
+
+    try {
+      await importStudio.mutateAsync({ ...opened, plan });
+      setOpened(null);
+      toast({
+        title: 'Workspace imported',
+        description: `${count(plan.texts.add.length, 'text')}, ${count(plan.images.add.length, 'image')} and ${count(plan.styles.add.length, 'style')} added`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'The import stopped partway. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const changes = plan
+    ? [
+        { label: 'Texts', ...plan.texts, add: plan.texts.add.length },
+        { label: 'Images', ...plan.images, add: plan.images.add.length },
+        { label: 'Styles', ...plan.styles, add: plan.styles.add.length },
+        { label: 'Settings', ...plan.settings, add: plan.settings.add.length },
+      ]
+    : [];
+  const hasChanges = changes.some(change => change.add > 0 || change.remove > 0);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save your texts, images, styles and settings as one zip file, to keep as a backup or import into another account.
+      </p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={handleFile}
+        aria-label="Upload workspace archive"
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleExport} disabled={exportStudio.isPending} className="flex-1">
+          {exportStudio.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export Workspace
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={openArchive.isPending || importStudio.isPending}
+          className="flex-1"
+        >
+          {openArchive.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import Workspace
+        </Button>
+      </div>
+
+      <Dialog open={!!opened} onOpenChange={(open) => !open && !importStudio.isPending && setOpened(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import workspace</DialogTitle>
+            <DialogDescription className="truncate">
+              {opened && `${opened.fileName} • exported ${format(new Date(opened.archive.manifest.exportedAt), 'PPp')}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Existing data</Label>
+            <ToggleGroup
+              type="single"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as ImportMode)}
+              className="justify-start"
+              disabled={importStudio.isPending}
+              aria-label="Import mode"
+            >
+              {importModes.map(option => (
+                <ToggleGroupItem
+                  key={option.value}
+                  value={option.value}
+                  variant="outline"
+                  size="sm"
+                  className="data-[state=on]:bg-primary/20 data-[state=on]:border-primary/50"
+                  title={option.hint}
+                >
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">{importModes.find(option => option.value === mode)?.hint}</p>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">New</TableHead>
+                <TableHead className="text-right">Already here</TableHead>
+                {mode === 'replace' && <TableHead className="text-right">Removed</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map(change => (
+                <TableRow key={change.label}>
+                  <TableCell className="font-medium">{change.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{change.add}</TableCell>
+                  <TableCell className="text-right tabular-nums text-muted-foreground">{change.skip}</TableCell>
+                  {mode === 'replace' && (
+                    <TableCell className={`text-right tabular-nums ${change.remove > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                      {change.remove}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {!hasChanges && (
+            <p className="text-sm text-muted-foreground">Everything in this archive is already in your workspace.</p>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="ghost" onClick={() => setOpened(null)} disabled={importStudio.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              onClick={handleImport}
+              disabled={!hasChanges || importStudio.isPending}
+            >
+              {importStudio.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'replace' ? 'Replace Workspace' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
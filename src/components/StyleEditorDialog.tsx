@@ -0,0 +1,260 @@
+import { useEffect } from 'react';
+import { FieldPath, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import {
+  CustomWritingStyle,
+  toWritingStyleValues,
+  useDeleteWritingStyle,
+  useSaveWritingStyle,
+} from '@/hooks/use-writing-styles';
+import { getFieldErrors } from '@/lib/functions';
+import { MAX_STYLE_EXAMPLES, MAX_SYSTEM_PROMPT_LENGTH, WritingStyleValues, writingStyleSchema } from '@shared/schemas';
+
+interface StyleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The style to edit, or null to create one
+  style: CustomWritingStyle | null;
+  onSaved?: (style: CustomWritingStyle) => void;
+  onDeleted?: (style: CustomWritingStyle) => void;
+}
+
+const emptyStyle: WritingStyleValues = {
+  name: '',
+  emoji: '✍️',
+  systemPrompt: '',
+  temperature: 0.8,
+  examples: [],
+  shared: false,
+};
+
+export const StyleEditorDialog = ({ open, onOpenChange, style, onSaved, onDeleted }: StyleEditorDialogProps) => {
+  const form = useForm<WritingStyleValues>({
+    resolver: zodResolver(writingStyleSchema),
+    defaultValues: emptyStyle,
+  });
+  const { data: workspace } = useWorkspace();
+  const saveStyle = useSaveWritingStyle();
+  const deleteStyle = useDeleteWritingStyle();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) form.reset(style ? toWritingStyleValues(style) : emptyStyle);
+  }, [open, style, form]);
+
+  const systemPrompt = form.watch('systemPrompt');
+
+  const submit = async (values: WritingStyleValues) => {
+    try {
+      const saved = await saveStyle.mutateAsync({ id: style?.id, style: values });
+      toast({
+        title: style ? 'Style updated' : 'Style created',
+        description: `${saved.emoji} ${saved.name} is ready to use`,
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving writing style:', error);
+      for (const [path, message] of getFieldErrors(error, 'style.')) {
+        form.setError(path as FieldPath<WritingStyleValues>, { message });
+      }
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save the style. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const remove = async () => {
+    if (!style || !confirm(`Delete the ${style.name} style?`)) return;
+    try {
+      await deleteStyle.mutateAsync(style.id);
+      toast({
+        title: 'Deleted',
+        description: 'The style has been removed',
+      });
+      onDeleted?.(style);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting writing style:', error);
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete the style. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isBusy = saveStyle.isPending || deleteStyle.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{style ? 'Edit writing style' : 'New writing style'}</DialogTitle>
+          <DialogDescription>
+            The system prompt tells the model how to write; the examples show up as suggested prompts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4" noValidate>
+            <div className="flex gap-3">
+              <FormField
+                control={form.control}
+                name="emoji"
+                render={({ field }) => (
+                  <FormItem className="w-20">
+                    <FormLabel>Emoji</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="text-center" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Release notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="systemPrompt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>System prompt</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="You are a release-notes writer. Keep entries short, start each with a verb..."
+                      className="min-h-32 resize-none"
+                    />
+                  </FormControl>
+                  <div className="flex items-start justify-between gap-4">
+                    <FormMessage />
+                    <p className="ml-auto text-xs text-muted-foreground">
+                      {systemPrompt.length} / {MAX_SYSTEM_PROMPT_LENGTH}
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="temperature"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Default temperature</FormLabel>
+                    <span className="text-xs text-muted-foreground">{field.value.toFixed(1)}</span>
+                  </div>
+                  <FormControl>
+                    <Slider
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={[field.value]}
+                      onValueChange={([temperature]) => field.onChange(temperature)}
+                    />
+                  </FormControl>
+                  <FormDescription>Applied when the style is picked; it can still be changed per generation</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="examples"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Example prompts</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      value={field.value.join('\n')}
+                      onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                      onBlur={field.onBlur}
+                      placeholder="One per line"
+                      className="min-h-20 resize-none"
+                    />
+                  </FormControl>
+                  <FormDescription>Up to {MAX_STYLE_EXAMPLES}, one per line</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="shared"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border border-border p-3 space-y-0">
+                  <div className="space-y-1">
+                    <FormLabel>Share with workspace</FormLabel>
+                    <FormDescription>
+                      {workspace
+                        ? `Everyone in ${workspace.name} can use this style`
+                        : 'Create or join a workspace from your account to share styles'}
+                    </FormDescription>
+                    <FormMessage />
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={!workspace && !field.value}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {style ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={remove}
+                  disabled={isBusy}
+                  className="hover:bg-destructive/20"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" disabled={isBusy}>
+                {saveStyle.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {style ? 'Save Changes' : 'Create Style'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
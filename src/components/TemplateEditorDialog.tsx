@@ -0,0 +1,259 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import type { GenerationKind } from '@/hooks/use-generations';
+import { PromptTemplate, useDeletePromptTemplate, useSavePromptTemplate } from '@/hooks/use-prompt-templates';
+import {
+  getPlaceholders,
+  PromptTemplateValues,
+  promptTemplateSchema,
+  syncTemplateFields,
+  templateFieldTypes,
+} from '@/lib/prompt-templates';
+
+interface TemplateEditorDialogProps {
+  kind: GenerationKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The template to edit, or null to create one
+  template: PromptTemplate | null;
+  onSaved?: (template: PromptTemplate) => void;
+  onDeleted?: (template: PromptTemplate) => void;
+}
+
+const emptyTemplate: PromptTemplateValues = { name: '', body: '', fields: [] };
+
+export const TemplateEditorDialog = ({ kind, open, onOpenChange, template, onSaved, onDeleted }: TemplateEditorDialogProps) => {
+  const form = useForm<PromptTemplateValues>({
+    resolver: zodResolver(promptTemplateSchema),
+    defaultValues: emptyTemplate,
+  });
+  const saveTemplate = useSavePromptTemplate(kind);
+  const deleteTemplate = useDeletePromptTemplate(kind);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) form.reset(template ? { name: template.name, body: template.body, fields: template.fields } : emptyTemplate);
+  }, [open, template, form]);
+
+  const body = form.watch('body');
+  const fields = form.watch('fields');
+
+  // Keep one field per placeholder as the body is edited
+  const placeholders = getPlaceholders(body).join(',');
+  useEffect(() => {
+    const synced = syncTemplateFields(placeholders ? placeholders.split(',') : [], form.getValues('fields'));
+    form.setValue('fields', synced);
+  }, [placeholders, form]);
+
+  const submit = async (values: PromptTemplateValues) => {
+    try {
+      const saved = await saveTemplate.mutateAsync({ id: template?.id, template: values });
+      toast({
+        title: template ? 'Template updated' : 'Template created',
+        description: `${saved.name} is ready to fill in`,
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save the template. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const remove = async () => {
+    if (!template || !confirm(`Delete the ${template.name} template?`)) return;
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast({
+        title: 'Deleted',
+        description: 'The template has been removed',
+      });
+      onDeleted?.(template);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete the template. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isBusy = saveTemplate.isPending || deleteTemplate.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit template' : 'New template'}</DialogTitle>
+          <DialogDescription>
+            Write the prompt with {'{{placeholders}}'} where the details change, then choose how each one is filled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4" noValidate>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Product description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Write a product description for {{product}}, aimed at {{audience}}, in about {{length}} words"
+                      className="min-h-28 resize-none font-mono text-sm"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {fields.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Variables</p>
+                {fields.map((variable, index) => (
+                  <div key={variable.name} className="rounded-lg border border-border bg-background/30 p-3 space-y-3">
+                    <code className="text-xs text-muted-foreground">{`{{${variable.name}}}`}</code>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Label</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.type`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Type</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {templateFieldTypes.map((type) => (
+                                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    {variable.type === 'select' && (
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.options`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Options</FormLabel>
+                            <FormControl>
+                              <Input
+                                value={field.value.join(',')}
+                                onChange={(e) => field.onChange(e.target.value.split(','))}
+                                onBlur={field.onBlur}
+                                placeholder="short, medium, long"
+                              />
+                            </FormControl>
+                            <FormDescription>Separated by commas</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name={`fields.${index}.defaultValue`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">Default value</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="Optional" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            {/* Placeholders without a field */}
+            <FormField
+              control={form.control}
+              name="fields"
+              render={() => (
+                <FormItem>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {template ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={remove}
+                  disabled={isBusy}
+                  className="hover:bg-destructive/20"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" disabled={isBusy}>
+                {saveTemplate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {template ? 'Save Changes' : 'Create Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,250 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Check, Loader2, Maximize2, Minimize2, Palette, RefreshCw, RotateCcw, SpellCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DiffView } from './DiffView';
+import { useToast } from '@/hooks/use-toast';
+import { usageQueryKey } from '@/hooks/use-usage';
+import { GeneratedText, useReviseGeneration } from '@/hooks/use-generations';
+import { FunctionError, invokeFunction } from '@/lib/functions';
+import { defaultTextParams } from '@/lib/text-params';
+import { EditAction, editActions, fitReplacement, replaceRange, TextRange, toTextEdit, tones } from '@/lib/text-edits';
+
+interface TextEditorDialogProps {
+  // The text to edit; the dialog keeps its own working copy until saved
+  text: GeneratedText | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A suggested replacement for one passage, waiting to be accepted or rejected
+interface Proposal {
+  action: EditAction;
+  range: TextRange;
+  original: string;
+  replacement: string;
+}
+
+const actionIcons: Record<EditAction, typeof RefreshCw> = {
+  rewrite: RefreshCw,
+  expand: Maximize2,
+  shorten: Minimize2,
+  tone: Palette,
+  grammar: SpellCheck,
+};
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Edits a generated text by hand or passage by passage: select some of it,
+ * pick what the AI should do, then accept or reject the suggestion shown as a
+ * diff. Saving records the result as a new version of the text.
+ */
+export const TextEditorDialog = ({ text, open, onOpenChange }: TextEditorDialogProps) => {
+  const [content, setContent] = useState('');
+  const [selection, setSelection] = useState<TextRange | null>(null);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [pendingAction, setPendingAction] = useState<EditAction | null>(null);
+  const [tone, setTone] = useState(tones[0]);
+  // Whether any of the changes were typed rather than suggested
+  const [editedManually, setEditedManually] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const reviseGeneration = useReviseGeneration();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open && text) {
+      setContent(text.content);
+      setSelection(null);
+      setProposal(null);
+      setEditedManually(false);
+    }
+  }, [open, text]);
+
+  const hasChanges = !!text && content !== text.content;
+
+  const trackSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || proposal) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    setSelection(end > start && textarea.value.slice(start, end).trim() ? { start, end } : null);
+  };
+
+  const requestEdit = async (action: EditAction, range: TextRange) => {
+    if (!text) return;
+    setPendingAction(action);
+    try {
+      const result = await invokeFunction<{ text: string; attempts: number }>('generate-text', {
+        body: {
+          type: text.type,
+          params: { ...defaultTextParams, ...text.params },
+          edit: toTextEdit(content, range, action, tone),
+        },
+      });
+      if (!result?.text) throw new Error('No text generated');
+
+      const original = content.slice(range.start, range.end);
+      setProposal({ action, range, original, replacement: fitReplacement(original, result.text) });
+    } catch (error) {
+      console.error('Error editing text:', error);
+      const attempts = error instanceof FunctionError && error.attempts;
+      toast({
+        title: 'Edit failed',
+        description: `${(error instanceof Error && error.message) || 'Failed to edit the text. Please try again.'}${attempts ? ` (gave up after ${attempts} attempts)` : ''}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingAction(null);
+      queryClient.invalidateQueries({ queryKey: usageQueryKey });
+    }
+  };
+
+  // Splices the suggestion in and selects it, ready for another pass
+  const acceptProposal = () => {
+    if (!proposal) return;
+    const { range, replacement } = proposal;
+    const next = { start: range.start, end: range.start + replacement.length };
+    setContent(replaceRange(content, range, replacement));
+    setProposal(null);
+    setSelection(next);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  const save = async () => {
+    if (!text) return;
+    try {
+      await reviseGeneration.mutateAsync({ id: text.id, output: content, source: editedManually ? 'manual_edit' : 'ai_edit' });
+      toast({
+        title: 'Changes saved',
+        description: 'Saved as a new version; earlier ones stay in the history',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving edited text:', error);
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save your changes. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen && hasChanges && !confirm('Discard your changes to this text?')) return;
+    onOpenChange(nextOpen);
+  };
+
+  const isBusy = !!pendingAction || reviseGeneration.isPending;
+  const selectedText = selection ? content.slice(selection.start, selection.end) : '';
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit text</DialogTitle>
+          <DialogDescription>
+            Type to make changes yourself, or select a passage and choose how the AI should change it. Suggestions are shown as a diff to accept or reject.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2" role="toolbar" aria-label="AI edits">
+          {editActions.map(({ value, label, description }) => {
+            const Icon = actionIcons[value];
+            return (
+              <Button
+                key={value}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => selection && requestEdit(value, selection)}
+                disabled={!selection || !!proposal || isBusy}
+                title={description}
+                className="hover:bg-primary/10"
+              >
+                {pendingAction === value ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Icon className="mr-2 h-4 w-4" />}
+                {label}
+              </Button>
+            );
+          })}
+          <Select value={tone} onValueChange={setTone} disabled={isBusy}>
+            <SelectTrigger className="h-9 w-36" aria-label="Tone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {tones.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground" aria-live="polite">
+          {proposal
+            ? 'Accept or reject the suggestion to keep editing'
+            : selection
+              ? `${countWords(selectedText)} words selected`
+              : 'Select a passage in the text to edit it'}
+        </p>
+
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          // Locked while a suggestion is open, since accepting it splices by position
+          readOnly={!!proposal || isBusy}
+          onChange={(event) => {
+            setContent(event.target.value);
+            setEditedManually(true);
+          }}
+          onSelect={trackSelection}
+          className="min-h-[320px] resize-y bg-background/50 border-border text-sm leading-relaxed"
+          aria-label="Text to edit"
+        />
+
+        {proposal && (
+          <div className="rounded-lg border border-primary/50 bg-background/30 p-4 animate-fade-in">
+            <p className="mb-3 text-sm font-medium">
+              Suggested {editActions.find(action => action.value === proposal.action)?.label.toLowerCase()}
+            </p>
+            <DiffView before={proposal.original} after={proposal.replacement} className="mb-4 max-h-64 overflow-y-auto" />
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" size="sm" onClick={acceptProposal} disabled={isBusy}>
+                <Check className="mr-2 h-4 w-4" />
+                Accept
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setProposal(null)} disabled={isBusy}>
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => requestEdit(proposal.action, proposal.range)}
+                disabled={isBusy}
+              >
+                {pendingAction ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                Try again
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="ghost" onClick={() => close(false)} disabled={reviseGeneration.isPending}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={save} disabled={!hasChanges || !!proposal || isBusy}>
+            {reviseGeneration.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,43 @@
+import { ReactNode } from 'react';
+import { FileCode2, FileText } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ExportFormat, exportFormats } from '@/lib/text-export';
+
+interface TextExportMenuProps {
+  // The button that opens the menu
+  children: ReactNode;
+  label: string;
+  onExport: (format: ExportFormat) => void;
+  // The text's own content as a file, offered first when exporting a single text
+  raw?: { label: string; onExport: () => void };
+}
+
+export const TextExportMenu = ({ children, label, onExport, raw }: TextExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>{label}</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {raw && (
+        <DropdownMenuItem onSelect={raw.onExport}>
+          <FileCode2 className="mr-2 h-4 w-4" />
+          {raw.label}
+        </DropdownMenuItem>
+      )}
+      {exportFormats.map(({ value, label: formatLabel, extension }) => (
+        <DropdownMenuItem key={value} onSelect={() => onExport(value)}>
+          <FileText className="mr-2 h-4 w-4" />
+          {formatLabel}
+          <span className="ml-auto pl-4 text-xs text-muted-foreground">.{extension}</span>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -1,130 +1,457 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, BaseSyntheticEvent } from 'react';
+import { FieldPath, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Sparkles, Copy, Wand2, FileText, Download, RotateCcw, Trash2 } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Label } from '@/components/ui/label';
-
-interface GeneratedText {
-  id: string;
-  content: string;
-  prompt: string;
-  type: string;
-  timestamp: number;
+import { useQueryClient } from '@tanstack/react-query';
+import { usageQueryKey } from '@/hooks/use-usage';
+import { streamFunction } from '@/lib/stream';
+import { describeRetries, FunctionError, getFieldErrors, invokeFunction } from '@/lib/functions';
+import { Loader2, Sparkles, Copy, Wand2, FileText, Download, RotateCcw, Trash2, Square, SlidersHorizontal, ChevronDown, Clock, Zap, FileCode2, Code, Eye, Pencil, History } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { TextParamsPanel } from './TextParamsPanel';
+import { JobQueue } from './JobQueue';
+import { WritingStyleSelect } from './WritingStyleSelect';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { JsonSchemaPanel } from './JsonSchemaPanel';
+import { JsonTree } from './JsonTree';
+import { Markdown } from './Markdown';
+import { TextEditorDialog } from './TextEditorDialog';
+import { TextHistoryDialog } from './TextHistoryDialog';
+import { TextExportMenu } from './TextExportMenu';
+import { getWritingStyleName } from '@/lib/writing-styles';
+import { useWritingStyleOptions } from '@/hooks/use-writing-styles';
+import { useTemplateSelection } from '@/hooks/use-prompt-templates';
+import { useAuth } from '@/hooks/use-auth';
+import { useStructuredOutput } from '@/hooks/use-json-schemas';
+import type { TemplateUsage } from '@/lib/prompt-templates';
+import { JsonSchema, parseJsonOutput, StructuredOutput } from '@/lib/structured-output';
+import { defaultTextParams, getTextModelLabel, textParamsSchema } from '@/lib/text-params';
+import { ExportFormat, ExportText, exportTexts } from '@/lib/text-export';
+import { downloadBlob } from '@/lib/download';
+import { userStorageKey } from '@/lib/user-storage';
+import { cn } from '@/lib/utils';
+import type { Json } from '@/integrations/supabase/types';
+import { MAX_PROMPT_LENGTH, TextGenerationValues, textGenerationSchema } from '@shared/schemas';
+import {
+  GeneratedText,
+  toGeneratedText,
+  useClearGenerations,
+  useCreateGeneration,
+  useReviseGeneration,
+  useDeleteGeneration,
+  useGenerations,
+} from '@/hooks/use-generations';
+import { GenerationJob, getJobResult, useDismissJob, useGenerationJobs, useSubmitJob } from '@/hooks/use-jobs';
+
+interface GenerationOptions {
+  // Skip the response cache
+  fresh?: boolean;
+  template?: TemplateUsage | null;
+  structured?: StructuredOutput | null;
+  // Save the result as a new version of this text instead of as a new text
+  revise?: string | null;
+}
+
+// What generate-text answers a structured request with
+interface StructuredTextResult {
+  text: string;
+  model: string;
+  attempts: number;
+  cached: boolean;
+  schema: JsonSchema;
 }
 
+// How many characters a PDF could not print are named in the export notice
+const MISSING_CHARACTERS_SHOWN = 8;
+
 export const TextGenerator = () => {
-  const [prompt, setPrompt] = useState('');
-  const [type, setType] = useState('creative');
+  const form = useForm<TextGenerationValues>({
+    resolver: zodResolver(textGenerationSchema),
+    defaultValues: { prompt: '', type: 'creative', params: defaultTextParams },
+  });
   const [isGenerating, setIsGenerating] = useState(false);
-  const [texts, setTexts] = useState<GeneratedText[]>([]);
+  const [draft, setDraft] = useState<GeneratedText | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  // Texts switched to their raw source instead of the rendered view
+  const [rawTextIds, setRawTextIds] = useState<Set<string>>(new Set());
+  const [editingText, setEditingText] = useState<GeneratedText | null>(null);
+  const [historyTextId, setHistoryTextId] = useState<string | null>(null);
+  // Texts ticked for exporting together
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const paramsStorageKey = userStorageKey('textParams', user.id);
+  const queryClient = useQueryClient();
 
-  // Load texts from localStorage on mount
+  const { data: rows = [], isLoading } = useGenerations('text');
+  const createGeneration = useCreateGeneration();
+  const reviseGeneration = useReviseGeneration();
+  const deleteGeneration = useDeleteGeneration('text');
+  const clearGenerations = useClearGenerations('text');
+  const texts = rows.map(toGeneratedText);
+  const selectedTexts = texts.filter(text => selectedIds.has(text.id));
+  const { styles } = useWritingStyleOptions();
+  const templateSelection = useTemplateSelection('text');
+  const structuredOutput = useStructuredOutput();
+  const submitJob = useSubmitJob();
+  const dismissJob = useDismissJob('text');
+  const { jobs } = useGenerationJobs('text', {
+    onSucceeded: (job) => {
+      const retries = describeRetries(getJobResult(job).attempts);
+      toast({
+        title: 'Text generated!',
+        description: `Your background text is ready${retries ? ` (${retries})` : ''}`,
+      });
+    },
+    onFailed: (job) => {
+      const { attempts } = getJobResult(job);
+      toast({
+        title: 'Generation failed',
+        description: `${job.error || 'Failed to generate text. Please try again.'}${attempts && attempts > 1 ? ` (gave up after ${attempts} attempts)` : ''}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Abort any in-flight stream when the tab unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const prompt = form.watch('prompt');
+  const type = form.watch('type');
+  const params = form.watch('params');
+
+  // Restore the last used generation parameters, dropping any the schema no longer accepts
   useEffect(() => {
-    const savedTexts = localStorage.getItem('ai-studio-texts');
-    if (savedTexts) {
+    const savedParams = localStorage.getItem(paramsStorageKey);
+    if (savedParams) {
       try {
-        const parsed = JSON.parse(savedTexts);
-        setTexts(parsed);
+        const result = textParamsSchema.safeParse(JSON.parse(savedParams));
+        if (result.success) form.setValue('params', result.data);
       } catch (error) {
-        console.error('Failed to load saved texts:', error);
+        console.error('Failed to load saved text parameters:', error);
       }
     }
-  }, []);
+  }, [form, paramsStorageKey]);
+
+  useEffect(() => {
+    localStorage.setItem(paramsStorageKey, JSON.stringify(params));
+  }, [params, paramsStorageKey]);
 
-  // Save texts to localStorage whenever texts change
+  // A picked template writes the prompt
+  const templatePrompt = templateSelection.prompt;
   useEffect(() => {
-    if (texts.length > 0) {
-      localStorage.setItem('ai-studio-texts', JSON.stringify(texts));
+    if (templatePrompt !== null) form.setValue('prompt', templatePrompt, { shouldValidate: form.formState.isSubmitted });
+  }, [templatePrompt, form]);
+
+  // Reveal the advanced panel when one of its fields is invalid
+  const paramsErrors = form.formState.errors.params;
+  useEffect(() => {
+    if (paramsErrors) setShowAdvanced(true);
+  }, [paramsErrors]);
+
+  // Places the function's field errors next to the matching inputs
+  const showFieldErrors = (error: unknown, prefix?: string) => {
+    for (const [path, message] of getFieldErrors(error, prefix)) {
+      if (path.startsWith('structured.')) {
+        structuredOutput.setError(message);
+      } else {
+        form.setError(path as FieldPath<TextGenerationValues>, { message });
+      }
     }
-  }, [texts]);
+  };
 
-  const generateText = async () => {
-    if (!prompt.trim()) {
-      toast({
-        title: 'Prompt required',
-        description: 'Please enter a description for your text',
-        variant: 'destructive',
+  // Checks the template's fields and the JSON Schema along with the form, so all show their errors at once
+  const submitWithOptions = (submit: (values: TextGenerationValues, options: GenerationOptions) => Promise<void>) =>
+    (event?: BaseSyntheticEvent) => {
+      const template = templateSelection.validate();
+      const output = structuredOutput.validate();
+      return form.handleSubmit((values) =>
+        template.ok && output.ok ? submit(values, { template: template.usage, structured: output.structured }) : undefined
+      )(event);
+    };
+
+  // Takes values already validated by the form's schema
+  const generateText = async (
+    request: TextGenerationValues,
+    { fresh = false, template = null, structured = null, revise = null }: GenerationOptions = {}
+  ) => {
+    const requestParams = request.params;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // The draft card fills in as deltas arrive and is saved once finished
+    const newText: GeneratedText = {
+      id: 'draft',
+      content: '',
+      prompt: request.prompt,
+      type: request.type,
+      model: requestParams.model,
+      params: requestParams,
+      cached: false,
+      template,
+      outputSchema: structured ? structured.schema ?? structuredOutput.saved?.schema ?? {} : null,
+      timestamp: Date.now(),
+      editedAt: null,
+    };
+    let content = '';
+    let outputSchema: JsonSchema | null = null;
+    const saveText = (model: string | null, cached = false) =>
+      revise
+        ? reviseGeneration.mutateAsync({ id: revise, output: content, source: 'regenerated', model: model ?? requestParams.model })
+        : createGeneration.mutateAsync({
+          kind: 'text',
+          prompt: request.prompt,
+          style: request.type,
+          model: model ?? requestParams.model,
+          output: content,
+          settings: requestParams,
+          cached,
+          template_id: template?.id ?? null,
+          variables: template?.variables ?? null,
+          output_schema: outputSchema as Json,
+        });
+    const body = { prompt: request.prompt, type: request.type, params: requestParams, fresh };
+
+    // Structured replies are validated as a whole, so they arrive in one piece
+    const requestStructured = async (output: StructuredOutput) => {
+      const result = await invokeFunction<StructuredTextResult>('generate-text', {
+        body: { ...body, structured: output },
+        signal: abortController.signal,
       });
-      return;
-    }
+      content = result.text;
+      outputSchema = result.schema;
+      return result;
+    };
 
+    setDraft(newText);
     setIsGenerating(true);
+
     try {
-      const { data, error } = await supabase.functions.invoke('generate-text', {
-        body: { prompt, type },
-      });
+      const { model, attempts, cached } = structured
+        ? await requestStructured(structured)
+        : await streamFunction('generate-text', {
+            body,
+            signal: abortController.signal,
+            onDelta: (delta) => {
+              content += delta;
+              setDraft({ ...newText, content });
+            },
+          });
 
-      if (error) throw error;
-
-      if (data?.text) {
-        const newText: GeneratedText = {
-          id: Date.now().toString(),
-          content: data.text,
-          prompt,
-          type,
-          timestamp: Date.now(),
-        };
-        setTexts(prev => [newText, ...prev]);
+      if (!content) {
+        throw new Error('No text generated');
+      }
+
+      await saveText(model, cached);
+      const retries = describeRetries(attempts);
+      toast({
+        title: revise ? 'Text regenerated!' : 'Text generated!',
+        description: revise
+          ? `Saved as a new version; earlier ones are in the text's history${retries ? ` (${retries})` : ''}`
+          : cached
+            ? 'Answered from an identical earlier request. Regenerate for a fresh take.'
+            : `Your AI-generated text is ready${retries ? ` (${retries})` : ''}`,
+      });
+      // A template keeps its values so the next run can change just one
+      if (!template) form.resetField('prompt');
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever has been written so far, unless it would replace a finished text
+        if (content && !revise) {
+          await saveText(null).catch((saveError) => console.error('Error saving partial text:', saveError));
+        }
         toast({
-          title: 'Text generated!',
-          description: 'Your AI-generated text is ready',
+          title: 'Generation stopped',
+          description: revise ? 'The text is unchanged' : content ? 'The partial text has been kept' : 'Nothing was generated',
         });
-        setPrompt('');
+        return;
       }
-    } catch (error: any) {
+
       console.error('Error generating text:', error);
+      showFieldErrors(error);
+      const attempts = error instanceof FunctionError && error.attempts;
       toast({
         title: 'Generation failed',
-        description: error.message || 'Failed to generate text. Please try again.',
+        description: `${(error instanceof Error && error.message) || 'Failed to generate text. Please try again.'}${attempts ? ` (gave up after ${attempts} attempts)` : ''}`,
         variant: 'destructive',
       });
     } finally {
+      queryClient.invalidateQueries({ queryKey: usageQueryKey });
+      abortControllerRef.current = null;
+      setDraft(null);
       setIsGenerating(false);
     }
   };
 
-  const copyToClipboard = (text: string) => {
+  // Queues the generation server-side so it finishes even if the tab is closed
+  const queueText = async (request: TextGenerationValues, { template = null, structured = null }: GenerationOptions) => {
+    try {
+      await submitJob.mutateAsync({ kind: 'text', input: { ...request, structured }, template });
+      toast({
+        title: 'Added to the queue',
+        description: 'Keep working or close the tab; the text will be waiting in your creations',
+      });
+      if (!template) form.resetField('prompt');
+    } catch (error) {
+      console.error('Error queueing text generation:', error);
+      showFieldErrors(error, 'input.');
+      toast({
+        title: 'Generation failed',
+        description: error instanceof Error ? error.message : 'Failed to generate text. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const dismissFailedJob = async (job: GenerationJob) => {
+    try {
+      await dismissJob.mutateAsync(job.id);
+    } catch (error) {
+      console.error('Error dismissing job:', error);
+    }
+  };
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const copyToClipboard = (text: string, what = 'Text') => {
     navigator.clipboard.writeText(text);
     toast({
       title: 'Copied!',
-      description: 'Text copied to clipboard',
+      description: `${what} copied to clipboard`,
     });
   };
 
   const exportText = (text: GeneratedText) => {
-    const blob = new Blob([text.content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
+    const blob = new Blob([text.content], { type: text.outputSchema ? 'application/json' : 'text/plain' });
     const sanitizedPrompt = text.prompt.slice(0, 50).replace(/[^a-z0-9]/gi, '-').toLowerCase();
-    link.download = `ai-generated-${sanitizedPrompt}-${Date.now()}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `ai-generated-${sanitizedPrompt}-${Date.now()}.${text.outputSchema ? 'json' : 'txt'}`);
     toast({
       title: 'Exported!',
       description: 'Text saved to your device',
     });
   };
 
-  const regenerateText = async (text: GeneratedText) => {
-    setPrompt(text.prompt);
-    setType(text.type);
-    await generateText();
+  // Several texts go into one document, in the order they are listed
+  const exportTextsAs = (selected: GeneratedText[], format: ExportFormat) => {
+    try {
+      const { blob, fileName, missingCharacters } = exportTexts(
+        selected.map((text): ExportText => ({
+          prompt: text.prompt,
+          style: getWritingStyleName(text.type, styles),
+          model: text.model,
+          date: new Date(text.timestamp),
+          content: text.content,
+          structured: !!text.outputSchema,
+        })),
+        format
+      );
+      downloadBlob(blob, fileName);
+      if (missingCharacters.length > 0) {
+        // PDFs use the built-in fonts, which only cover Western European characters
+        const shown = missingCharacters.slice(0, MISSING_CHARACTERS_SHOWN).join(' ');
+        toast({
+          title: 'Exported with missing characters',
+          description: `${shown}${missingCharacters.length > MISSING_CHARACTERS_SHOWN ? ' and others' : ''} could not be printed in the PDF and show as "?". Export as Word or HTML to keep them.`,
+        });
+        return;
+      }
+      toast({
+        title: 'Exported!',
+        description: selected.length === 1 ? 'Text saved to your device' : `${selected.length} texts saved to one document`,
+      });
+    } catch (error) {
+      console.error('Error exporting texts:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
-  const deleteText = (id: string) => {
-    setTexts(prev => prev.filter(t => t.id !== id));
-    toast({
-      title: 'Deleted',
-      description: 'Text has been removed',
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Runs the saved request through the form so it is checked against today's limits,
+  // bypassing the cache since the point is a different result. The result becomes the
+  // text's next version.
+  const regenerateText = async (text: GeneratedText) => {
+    form.reset({
+      prompt: text.prompt,
+      type: text.type as TextGenerationValues['type'],
+      params: { ...defaultTextParams, ...text.params },
     });
+    await form.handleSubmit((values) =>
+      generateText(values, {
+        fresh: true,
+        template: text.template,
+        structured: text.outputSchema && { schema: text.outputSchema },
+        revise: text.id,
+      })
+    )();
+  };
+
+  // Loads the template with the values this text was made with, ready to change one
+  const fillTemplateAgain = (text: GeneratedText) => {
+    const template = templateSelection.templates.find(candidate => candidate.id === text.template?.id);
+    if (!template) return;
+    templateSelection.select(template, text.template.variables);
+    form.setValue('type', text.type);
+    if (text.params) form.setValue('params', { ...defaultTextParams, ...text.params });
+    if (text.outputSchema) structuredOutput.load(text.outputSchema);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const deleteText = async (id: string) => {
+    try {
+      await deleteGeneration.mutateAsync(id);
+      toast({
+        title: 'Deleted',
+        description: 'Text has been removed',
+      });
+    } catch (error) {
+      console.error('Error deleting text:', error);
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete text. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const clearTexts = async () => {
+    if (!confirm('Clear all generated texts?')) return;
+    try {
+      await clearGenerations.mutateAsync();
+      toast({
+        title: 'Cleared',
+        description: 'All texts have been cleared',
+      });
+    } catch (error) {
+      console.error('Error clearing texts:', error);
+      toast({
+        title: 'Clear failed',
+        description: error instanceof Error ? error.message : 'Failed to clear texts. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const getWordCount = (text: string) => {
@@ -135,34 +462,32 @@ export const TextGenerator = () => {
     return text.length;
   };
 
-  const suggestedPrompts: Record<string, string[]> = {
-    creative: [
-      'Write a short story about a time traveler',
-      'Create a poem about the beauty of nature',
-      'Describe a futuristic city in vivid detail',
-    ],
-    professional: [
-      'Write a professional email about project updates',
-      'Create a business proposal summary',
-      'Draft a professional cover letter',
-    ],
-    casual: [
-      'Write a friendly message to a colleague',
-      'Create a casual blog post about productivity',
-      'Draft a fun social media caption',
-    ],
-    technical: [
-      'Explain how blockchain technology works',
-      'Write technical documentation for an API',
-      'Describe machine learning concepts',
-    ],
-    marketing: [
-      'Create a product launch announcement',
-      'Write compelling ad copy for a service',
-      'Draft an engaging email campaign',
-    ],
+  const toggleRaw = (id: string) => {
+    setRawTextIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
   };
 
+  // Markdown is rendered and structured texts show their fields, unless switched to the raw source
+  const renderContent = (text: GeneratedText) => {
+    const data = text.outputSchema ? parseJsonOutput(text.content) : undefined;
+    if (rawTextIds.has(text.id)) {
+      return (
+        <p className="whitespace-pre-wrap break-words font-mono text-sm text-foreground leading-relaxed">
+          {text.content}
+        </p>
+      );
+    }
+    if (data !== undefined) {
+      return <JsonTree value={data} className="rounded-lg border border-border bg-background/30 p-3" />;
+    }
+    return <Markdown content={text.content} />;
+  };
+
+  const suggestedPrompts = styles.find(style => style.value === type)?.examples ?? [];
+
   return (
     <div>
       {/* Input Section */}
@@ -171,114 +496,235 @@ export const TextGenerator = () => {
           {/* Subtle shimmer effect */}
           <div className="absolute inset-0 bg-gradient-to-r from-transparent via-primary/5 to-transparent -translate-x-full animate-[shimmer_3s_infinite]" />
           
-          <div className="p-6 relative">
-            <div className="mb-4">
-              <Label htmlFor="type" className="text-sm font-medium mb-2 block">
-                Writing Style
-              </Label>
-              <Select value={type} onValueChange={setType}>
-                <SelectTrigger className="bg-background/50 border-border">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="creative">🎨 Creative & Imaginative</SelectItem>
-                  <SelectItem value="professional">💼 Professional & Formal</SelectItem>
-                  <SelectItem value="casual">😊 Casual & Friendly</SelectItem>
-                  <SelectItem value="technical">⚙️ Technical & Detailed</SelectItem>
-                  <SelectItem value="marketing">📢 Marketing & Persuasive</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+          <Form {...form}>
+            <form onSubmit={submitWithOptions(generateText)} className="p-6 relative" noValidate>
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem className="mb-4 space-y-0">
+                    <FormLabel htmlFor="text-style" className="text-sm font-medium mb-2 block">Writing Style</FormLabel>
+                    <WritingStyleSelect
+                      id="text-style"
+                      value={field.value}
+                      onValueChange={(value, style) => {
+                        field.onChange(value);
+                        // Custom styles come with their own default temperature
+                        if (style?.temperature !== undefined) {
+                          form.setValue('params.temperature', style.temperature);
+                        }
+                      }}
+                      disabled={isGenerating}
+                    />
+                    <FormMessage className="mt-2" />
+                  </FormItem>
+                )}
+              />
 
-            <div className="mb-4">
-              <Textarea
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder="What would you like to write? (e.g., 'Write a compelling product description for eco-friendly water bottles')"
-                className="min-h-32 bg-background/50 border-border focus:border-primary resize-none text-base"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && e.ctrlKey) {
-                    e.preventDefault();
-                    generateText();
-                  }
-                }}
-                aria-label="Text generation prompt"
-                aria-describedby="text-prompt-hint"
+              <PromptTemplatePanel kind="text" selection={templateSelection} disabled={isGenerating} />
+
+              <FormField
+                control={form.control}
+                name="prompt"
+                render={({ field }) => (
+                  <FormItem className="mb-4 space-y-0">
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder="What would you like to write? (e.g., 'Write a compelling product description for eco-friendly water bottles')"
+                        className={cn(
+                          'min-h-32 bg-background/50 border-border focus:border-primary resize-none text-base',
+                          templateSelection.template && 'text-muted-foreground'
+                        )}
+                        readOnly={!!templateSelection.template}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && e.ctrlKey && !isGenerating) {
+                            e.preventDefault();
+                            submitWithOptions(generateText)();
+                          }
+                        }}
+                        aria-label="Text generation prompt"
+                        aria-describedby="text-prompt-hint"
+                      />
+                    </FormControl>
+                    <div className="flex items-start justify-between gap-4 mt-2">
+                      <FormMessage />
+                      {prompt.length > 0 && (
+                        <p
+                          className={cn('ml-auto text-xs', prompt.length > MAX_PROMPT_LENGTH ? 'text-destructive' : 'text-muted-foreground')}
+                          aria-live="polite"
+                        >
+                          {prompt.length} / {MAX_PROMPT_LENGTH} characters
+                        </p>
+                      )}
+                    </div>
+                    <p id="text-prompt-hint" className="sr-only">
+                      Enter a description of the text you want to generate. Press Ctrl+Enter to generate.
+                    </p>
+                  </FormItem>
+                )}
               />
-              {prompt.length > 0 && (
-                <p className="text-xs text-muted-foreground mt-2 text-right" aria-live="polite">
-                  {prompt.length} characters
-                </p>
+              
+              {/* Suggested Prompts */}
+              {suggestedPrompts.length > 0 && !templateSelection.template && (
+                <div className="mb-4">
+                  <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                    <Wand2 className="w-3 h-3" />
+                    Try these prompts:
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {suggestedPrompts.map((suggestion, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => form.setValue('prompt', suggestion, { shouldValidate: form.formState.isSubmitted })}
+                        className="text-xs px-3 py-1.5 rounded-full bg-muted/50 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300 border border-border hover:border-primary/50"
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               )}
-              <p id="text-prompt-hint" className="sr-only">
-                Enter a description of the text you want to generate. Press Ctrl+Enter to generate.
-              </p>
-            </div>
-            
-            {/* Suggested Prompts */}
-            <div className="mb-4">
-              <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
-                <Wand2 className="w-3 h-3" />
-                Try these prompts:
-              </p>
-              <div className="flex flex-wrap gap-2">
-                {suggestedPrompts[type]?.map((suggestion, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setPrompt(suggestion)}
-                    className="text-xs px-3 py-1.5 rounded-full bg-muted/50 hover:bg-gradient-to-r hover:from-primary/20 hover:to-secondary/20 transition-all duration-300 border border-border hover:border-primary/50"
-                  >
-                    {suggestion}
-                  </button>
-                ))}
-              </div>
-            </div>
 
-            <Button
-              onClick={generateText}
-              disabled={isGenerating || !prompt.trim()}
-              className="w-full h-12 text-base font-medium bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300"
-              aria-label={isGenerating ? "Generating text" : "Generate text from prompt"}
-            >
+              <JsonSchemaPanel selection={structuredOutput} disabled={isGenerating} />
+
+              {/* Advanced Parameters */}
+              <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced}>
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" size="sm" className="mb-2 px-2 text-muted-foreground hover:text-foreground">
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Advanced
+                    <span className="ml-2 text-xs">
+                      {getTextModelLabel(params.model)} • temp {params.temperature.toFixed(1)}
+                    </span>
+                    <ChevronDown className={`ml-2 h-4 w-4 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <FormField
+                    control={form.control}
+                    name="params"
+                    render={({ field }) => (
+                      <TextParamsPanel
+                        value={field.value}
+                        onChange={field.onChange}
+                        errors={form.formState.errors.params}
+                        disabled={isGenerating}
+                      />
+                    )}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+
               {isGenerating ? (
-                <>
-                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                  Generating...
-                </>
+                <Button
+                  type="button"
+                  onClick={stopGenerating}
+                  variant="outline"
+                  className="w-full h-12 text-base font-medium border-primary/50 hover:bg-primary/10 transition-all duration-300"
+                  aria-label="Stop generating text"
+                >
+                  <Square className="mr-2 h-4 w-4 fill-current" />
+                  Stop Generating
+                </Button>
               ) : (
-                <>
-                  <Sparkles className="mr-2 h-5 w-5" />
-                  Generate Text (Ctrl+Enter)
-                </>
+                <div className="flex gap-3">
+                  <Button
+                    type="submit"
+                    disabled={!prompt.trim()}
+                    className="flex-1 h-12 text-base font-medium bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90 transition-all duration-300"
+                    aria-label="Generate text from prompt"
+                  >
+                    <Sparkles className="mr-2 h-5 w-5" />
+                    Generate Text (Ctrl+Enter)
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={submitWithOptions(queueText)}
+                    disabled={!prompt.trim() || submitJob.isPending}
+                    className="h-12 hover:bg-primary/10"
+                    title="Generate in the background; the result is saved even if you close the tab"
+                    aria-label="Generate text in the background"
+                  >
+                    {submitJob.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Clock className="h-4 w-4" />}
+                    <span className="ml-2 hidden sm:inline">Background</span>
+                  </Button>
+                </div>
               )}
-            </Button>
-          </div>
+            </form>
+          </Form>
         </Card>
       </div>
 
+      <JobQueue jobs={jobs} onDismiss={dismissFailedJob} />
+
+      {/* Streaming draft */}
+      {draft && (
+        <Card className="mb-4 bg-card/30 backdrop-blur-xl border-primary/50 overflow-hidden relative animate-fade-in" aria-live="polite" aria-busy="true">
+          <div className="p-6 relative">
+            <div className="flex items-center gap-2 mb-1">
+              <Loader2 className="h-3 w-3 animate-spin text-primary" />
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">
+                {getWritingStyleName(draft.type, styles)} style • writing
+              </p>
+              <span className="text-xs text-muted-foreground">•</span>
+              <p className="text-xs text-muted-foreground">
+                {draft.outputSchema ? 'JSON' : `${getWordCount(draft.content)} words • ${getCharacterCount(draft.content)} chars`}
+              </p>
+            </div>
+            <p className="text-sm text-muted-foreground mb-3">
+              <span className="font-medium">Prompt:</span> {draft.prompt}
+            </p>
+            {draft.outputSchema ? (
+              <p className="text-sm text-muted-foreground">Filling in the schema and checking the result…</p>
+            ) : (
+              <>
+                <Markdown content={draft.content} />
+                <span className="inline-block w-2 h-4 mt-1 bg-primary animate-pulse" aria-hidden="true" />
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+
       {/* Results */}
       {texts.length > 0 && (
         <div className="space-y-4 animate-fade-in">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold">Your Creations</h2>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                if (confirm('Clear all generated texts?')) {
-                  setTexts([]);
-                  localStorage.removeItem('ai-studio-texts');
-                  toast({
-                    title: 'Cleared',
-                    description: 'All texts have been cleared',
-                  });
-                }
-              }}
-              className="text-muted-foreground hover:text-foreground"
-            >
-              <Trash2 className="mr-2 h-4 w-4" />
-              Clear All
-            </Button>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {selectedTexts.length > 0 && (
+                <TextExportMenu
+                  label={`Export ${selectedTexts.length} ${selectedTexts.length === 1 ? 'text' : 'texts'} as one document`}
+                  onExport={(format) => exportTextsAs(selectedTexts, format)}
+                >
+                  <Button variant="outline" size="sm">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export {selectedTexts.length} selected
+                  </Button>
+                </TextExportMenu>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedIds(selectedTexts.length === texts.length ? new Set() : new Set(texts.map(text => text.id)))}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                {selectedTexts.length === texts.length ? 'Deselect All' : 'Select All'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearTexts}
+                disabled={clearGenerations.isPending}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Clear All
+              </Button>
+            </div>
           </div>
           {texts.map((text) => (
             <Card 
@@ -292,19 +738,89 @@ export const TextGenerator = () => {
                 <div className="flex items-start justify-between gap-4 mb-3">
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-1">
+                      <Checkbox
+                        checked={selectedIds.has(text.id)}
+                        onCheckedChange={() => toggleSelected(text.id)}
+                        aria-label="Select for export"
+                        title="Select to export several texts into one document"
+                      />
                       <p className="text-xs text-muted-foreground uppercase tracking-wider">
-                        {text.type} style
+                        {getWritingStyleName(text.type, styles)} style
                       </p>
                       <span className="text-xs text-muted-foreground">•</span>
+                      {text.model && (
+                        <>
+                          <p className="text-xs text-muted-foreground" title={text.params ? `Temperature ${text.params.temperature} • Top P ${text.params.topP}` : undefined}>
+                            {getTextModelLabel(text.model)}
+                          </p>
+                          <span className="text-xs text-muted-foreground">•</span>
+                        </>
+                      )}
                       <p className="text-xs text-muted-foreground">
-                        {getWordCount(text.content)} words • {getCharacterCount(text.content)} chars
+                        {text.outputSchema ? 'JSON' : `${getWordCount(text.content)} words`} • {getCharacterCount(text.content)} chars
                       </p>
+                      {text.cached && (
+                        <>
+                          <span className="text-xs text-muted-foreground">•</span>
+                          <p
+                            className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+                            title="Answered from an identical earlier request; regenerate for a fresh take"
+                          >
+                            <Zap className="h-3 w-3" aria-hidden="true" />
+                            Cached
+                          </p>
+                        </>
+                      )}
+                      {text.editedAt && (
+                        <>
+                          <span className="text-xs text-muted-foreground">•</span>
+                          <p className="text-xs text-muted-foreground" title={`Edited ${new Date(text.editedAt).toLocaleString()}`}>
+                            Edited
+                          </p>
+                        </>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       <span className="font-medium">Prompt:</span> {text.prompt}
                     </p>
                   </div>
                   <div className="flex gap-1 shrink-0">
+                    {text.template && templateSelection.templates.some(template => template.id === text.template.id) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => fillTemplateAgain(text)}
+                        disabled={isGenerating}
+                        className="hover:bg-primary/20 transition-colors"
+                        aria-label="Fill in the template again"
+                        title="Load this text's template values to change one and generate again"
+                      >
+                        <FileCode2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!text.outputSchema && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingText(text)}
+                        disabled={isGenerating}
+                        className="hover:bg-primary/20 transition-colors"
+                        aria-label="Edit text"
+                        title="Select passages to rewrite, expand, shorten, change tone or fix grammar"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setHistoryTextId(text.id)}
+                      className="hover:bg-primary/20 transition-colors"
+                      aria-label="Version history"
+                      title="Browse, compare and restore earlier versions"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -318,21 +834,37 @@ export const TextGenerator = () => {
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => copyToClipboard(text.content)}
+                      onClick={() => toggleRaw(text.id)}
                       className="hover:bg-primary/20 transition-colors"
-                      aria-label="Copy text"
+                      aria-label={rawTextIds.has(text.id) ? 'Show formatted view' : 'Show raw text'}
+                      aria-pressed={rawTextIds.has(text.id)}
+                      title={rawTextIds.has(text.id) ? 'Show formatted view' : 'Show raw text'}
                     >
-                      <Copy className="h-4 w-4" />
+                      {rawTextIds.has(text.id) ? <Eye className="h-4 w-4" /> : <Code className="h-4 w-4" />}
                     </Button>
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => exportText(text)}
+                      onClick={() => copyToClipboard(text.content, text.outputSchema ? 'JSON' : 'Text')}
                       className="hover:bg-primary/20 transition-colors"
-                      aria-label="Export text"
+                      aria-label={text.outputSchema ? 'Copy as JSON' : 'Copy text'}
                     >
-                      <Download className="h-4 w-4" />
+                      <Copy className="h-4 w-4" />
                     </Button>
+                    <TextExportMenu
+                      label="Export as"
+                      onExport={(format) => exportTextsAs([text], format)}
+                      raw={{ label: text.outputSchema ? 'JSON (.json)' : 'Plain text (.txt)', onExport: () => exportText(text) }}
+                    >
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="hover:bg-primary/20 transition-colors"
+                        aria-label="Export text"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </TextExportMenu>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -345,18 +877,31 @@ export const TextGenerator = () => {
                   </div>
                 </div>
                 
-                <div className="prose prose-invert max-w-none">
-                  <p className="whitespace-pre-wrap text-foreground leading-relaxed">
-                    {text.content}
-                  </p>
-                </div>
+                {renderContent(text)}
               </div>
             </Card>
           ))}
         </div>
       )}
 
-      {texts.length === 0 && (
+      <TextEditorDialog
+        text={editingText}
+        open={!!editingText}
+        onOpenChange={(open) => !open && setEditingText(null)}
+      />
+      <TextHistoryDialog
+        text={texts.find(text => text.id === historyTextId) ?? null}
+        open={!!historyTextId}
+        onOpenChange={(open) => !open && setHistoryTextId(null)}
+      />
+
+      {isLoading && (
+        <div className="flex justify-center py-20" role="status" aria-label="Loading texts">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {!isLoading && texts.length === 0 && !draft && (
         <div className="text-center py-20 animate-fade-in">
           <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 flex items-center justify-center backdrop-blur-sm border border-primary/20">
             <FileText className="w-12 h-12 text-primary" />
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DiffView } from './DiffView';
+import { useToast } from '@/hooks/use-toast';
+import { GeneratedText, TextVersion, useReviseGeneration, useTextVersions, VersionSource } from '@/hooks/use-generations';
+import { cn } from '@/lib/utils';
+
+interface TextHistoryDialogProps {
+  text: GeneratedText | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const sourceLabels: Record<VersionSource, string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  ai_edit: 'AI edit',
+  manual_edit: 'Edited by hand',
+  restored: 'Restored',
+};
+
+// Select value for showing a version on its own
+const NO_COMPARISON = 'none';
+
+/**
+ * Lists every version of a text, newest first. A version can be read on its
+ * own or as a word diff against any other, and restored as a new version.
+ */
+export const TextHistoryDialog = ({ text, open, onOpenChange }: TextHistoryDialogProps) => {
+  const { data: versions = [], isLoading } = useTextVersions(open ? text : null);
+  // Null until picked: the current version, compared with the one before it
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const reviseGeneration = useReviseGeneration();
+  const { toast } = useToast();
+
+  const current = versions[versions.length - 1];
+  const selected = versions.find(version => version.id === selectedId) ?? current;
+  const compared = compareId === null && selected ? versions[selected.number - 2] : versions.find(version => version.id === compareId);
+
+  const select = (version: TextVersion) => {
+    setSelectedId(version.id);
+    setCompareId(null);
+  };
+
+  useEffect(() => {
+    if (open) return;
+    setSelectedId(null);
+    setCompareId(null);
+  }, [open]);
+
+  const restore = async (version: TextVersion) => {
+    if (!text) return;
+    try {
+      await reviseGeneration.mutateAsync({
+        id: text.id,
+        output: version.content,
+        source: 'restored',
+        model: version.model,
+        restoredFrom: version.id,
+      });
+      setSelectedId(null);
+      setCompareId(null);
+      toast({
+        title: 'Version restored',
+        description: `Version ${version.number} is the current text again; newer versions stay in the history`,
+      });
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Failed to restore this version. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const copyVersion = (version: TextVersion) => {
+    navigator.clipboard.writeText(version.content);
+    toast({
+      title: 'Copied!',
+      description: `Version ${version.number} copied to clipboard`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Version history
+          </DialogTitle>
+          <DialogDescription className="line-clamp-2">{text?.prompt}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !selected ? (
+          <div className="flex justify-center py-12" role="status" aria-label="Loading versions">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            <ol className="flex flex-col gap-1 md:max-h-[60vh] md:overflow-y-auto" aria-label="Versions">
+              {[...versions].reverse().map((version) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => select(version)}
+                    aria-current={version.id === selected.id}
+                    className={cn(
+                      'w-full rounded-md border px-3 py-2 text-left transition-colors hover:bg-primary/10',
+                      version.id === selected.id ? 'border-primary bg-primary/10' : 'border-transparent'
+                    )}
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      v{version.number} · {sourceLabels[version.source]}
+                      {version.id === current.id && <Badge variant="secondary" className="ml-auto">Current</Badge>}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">{format(new Date(version.timestamp), 'PPp')}</span>
+                    {version.restoredFrom && (
+                      <span className="block text-xs text-muted-foreground">From v{version.restoredFrom}</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="min-w-0 space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="compare-version" className="text-xs text-muted-foreground">
+                    Changes in v{selected.number} since
+                  </Label>
+                  <Select value={compared?.id ?? NO_COMPARISON} onValueChange={setCompareId}>
+                    <SelectTrigger id="compare-version" className="h-9 w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COMPARISON}>Don't compare</SelectItem>
+                      {versions
+                        .filter(version => version.id !== selected.id)
+                        .map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            v{version.number} · {sourceLabels[version.source]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="ml-auto flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => copyVersion(selected)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => restore(selected)}
+                    disabled={selected.id === current.id || reviseGeneration.isPending}
+                    title={selected.id === current.id ? 'This is the current version' : undefined}
+                  >
+                    {reviseGeneration.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Restore v{selected.number}
+                  </Button>
+                </div>
+              </div>
+
+              {selected.model && <p className="text-xs text-muted-foreground">{selected.model}</p>}
+
+              <div className="rounded-lg border border-border bg-background/30 p-4 md:max-h-[55vh] md:overflow-y-auto">
+                {compared ? (
+                  <DiffView before={compared.content} after={selected.content} />
+                ) : (
+                  <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">{selected.content}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
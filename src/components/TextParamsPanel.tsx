@@ -0,0 +1,134 @@
+import { FieldErrors } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MAX_OUTPUT_TOKENS, MAX_STOP_SEQUENCES, TextParams, textModels } from '@/lib/text-params';
+
+interface TextParamsPanelProps {
+  value: TextParams;
+  onChange: (params: TextParams) => void;
+  // Schema errors for individual parameters, from the form or the function
+  errors?: FieldErrors<TextParams>;
+  disabled?: boolean;
+}
+
+const ParamError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs font-medium text-destructive mt-2">{message}</p> : null;
+
+export const TextParamsPanel = ({ value, onChange, errors, disabled }: TextParamsPanelProps) => {
+  const update = (changes: Partial<TextParams>) => onChange({ ...value, ...changes });
+  // A limit on the whole list, or the first sequence that is too long
+  const stopError = errors?.stop?.message ?? (Array.isArray(errors?.stop) ? errors.stop.find(Boolean)?.message : undefined);
+
+  return (
+    <div className="mb-4 space-y-4 rounded-lg border border-border bg-background/30 p-4">
+      <div>
+        <Label htmlFor="text-model" className="text-sm font-medium mb-2 block">
+          Model
+        </Label>
+        <Select
+          value={value.model}
+          onValueChange={(model) => update({ model: model as TextParams['model'] })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="text-model" className="bg-background/50 border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {textModels.map((model) => (
+              <SelectItem key={model.value} value={model.value}>
+                {model.label} • <span className="text-muted-foreground">{model.hint}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ParamError message={errors?.model?.message} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label htmlFor="text-temperature" className="text-sm font-medium">
+              Temperature
+            </Label>
+            <span className="text-xs text-muted-foreground">{value.temperature.toFixed(1)}</span>
+          </div>
+          <Slider
+            id="text-temperature"
+            min={0}
+            max={2}
+            step={0.1}
+            value={[value.temperature]}
+            onValueChange={([temperature]) => update({ temperature })}
+            disabled={disabled}
+            aria-label="Temperature"
+          />
+          <p className="text-xs text-muted-foreground mt-2">Lower is focused, higher is more inventive</p>
+          <ParamError message={errors?.temperature?.message} />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label htmlFor="text-top-p" className="text-sm font-medium">
+              Top P
+            </Label>
+            <span className="text-xs text-muted-foreground">{value.topP.toFixed(2)}</span>
+          </div>
+          <Slider
+            id="text-top-p"
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={[value.topP]}
+            onValueChange={([topP]) => update({ topP })}
+            disabled={disabled}
+            aria-label="Top P"
+          />
+          <p className="text-xs text-muted-foreground mt-2">Limits word choice to the most likely options</p>
+          <ParamError message={errors?.topP?.message} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="text-max-tokens" className="text-sm font-medium mb-2 block">
+            Max Output Tokens
+          </Label>
+          <Input
+            id="text-max-tokens"
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_TOKENS}
+            placeholder="Model default"
+            value={value.maxTokens ?? ''}
+            onChange={(e) => {
+              const maxTokens = e.target.value ? Math.round(Number(e.target.value)) : null;
+              update({ maxTokens: maxTokens === null ? null : Math.min(Math.max(maxTokens, 1), MAX_OUTPUT_TOKENS) });
+            }}
+            disabled={disabled}
+            className="bg-background/50 border-border"
+          />
+          <ParamError message={errors?.maxTokens?.message} />
+        </div>
+
+        <div>
+          <Label htmlFor="text-stop" className="text-sm font-medium mb-2 block">
+            Stop Sequences
+          </Label>
+          <Textarea
+            id="text-stop"
+            rows={2}
+            placeholder={`One per line, up to ${MAX_STOP_SEQUENCES}`}
+            value={value.stop.join('\n')}
+            onChange={(e) => update({ stop: e.target.value.split('\n').slice(0, MAX_STOP_SEQUENCES) })}
+            disabled={disabled}
+            className="min-h-0 bg-background/50 border-border resize-none"
+          />
+          <ParamError message={stopError} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { format } from 'date-fns';
+import { FileText, Image } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useUsage, QuotaUsage } from '@/hooks/use-usage';
+import { cn } from '@/lib/utils';
+
+const QuotaPill = ({ icon: Icon, label, quota }: { icon: typeof FileText; label: string; quota?: QuotaUsage }) => {
+  if (!quota) return null;
+  const isLow = quota.remaining <= Math.ceil(quota.limit * 0.1);
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-medium backdrop-blur-sm',
+        quota.remaining === 0
+          ? 'border-destructive/50 bg-destructive/10 text-destructive'
+          : isLow
+            ? 'border-accent/50 bg-accent/10'
+            : 'border-border bg-card/50'
+      )}
+    >
+      <Icon className="h-3 w-3" aria-hidden="true" />
+      {quota.remaining}/{quota.limit}
+      <span className="sr-only">{label} generations left today</span>
+    </span>
+  );
+};
+
+export const UsageIndicator = () => {
+  const { data } = useUsage();
+
+  if (!data) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2" tabIndex={0} aria-label="Remaining credits">
+          <QuotaPill icon={Image} label="Image" quota={data.usage.image} />
+          <QuotaPill icon={FileText} label="Text" quota={data.usage.text} />
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="capitalize">{data.plan} plan • generations left today</p>
+        <p className="text-xs text-muted-foreground">Resets {format(new Date(data.resetsAt), 'PPp')}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
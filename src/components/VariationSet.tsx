@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button';
+import { Check, Layers, Trash2, Zap, ZoomIn } from 'lucide-react';
+import type { GeneratedImage } from '@/hooks/use-generations';
+
+interface VariationSetProps {
+  images: GeneratedImage[];
+  onOpen: (image: GeneratedImage) => void;
+  onPick: (image: GeneratedImage) => void;
+  onDiscard: (image: GeneratedImage) => void;
+  disabled?: boolean;
+}
+
+// Variations generated by one request, shown together until a winner is picked
+export const VariationSet = ({ images, onOpen, onPick, onDiscard, disabled }: VariationSetProps) => {
+  const [first] = images;
+
+  return (
+    <div className="md:col-span-2 lg:col-span-3 bg-card/30 backdrop-blur-xl rounded-2xl border border-border p-4">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <p className="text-sm text-muted-foreground line-clamp-2">{first.prompt}</p>
+        <span className="inline-flex shrink-0 items-center gap-1 px-2 py-0.5 rounded-full bg-muted/50 text-xs border border-border">
+          <Layers className="h-3 w-3" aria-hidden="true" />
+          {images.length} variations
+        </span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {images.map((image, index) => (
+          <div key={image.id} className="group relative rounded-xl overflow-hidden border border-border hover:border-primary/50 transition-colors">
+            <button
+              onClick={() => onOpen(image)}
+              className="block w-full aspect-square"
+              aria-label={`View variation ${index + 1}`}
+            >
+              <img
+                src={image.thumbnailUrl}
+                alt={`${image.prompt} (variation ${index + 1})`}
+                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                loading="lazy"
+              />
+              <span className="absolute inset-0 flex items-center justify-center bg-background/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                <ZoomIn className="h-6 w-6" aria-hidden="true" />
+              </span>
+            </button>
+            {image.cached && (
+              <span
+                className="absolute top-2 left-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-background/80 backdrop-blur-sm text-xs border border-border"
+                title="Answered from an identical earlier request; regenerate for a fresh take"
+              >
+                <Zap className="h-3 w-3" aria-hidden="true" />
+                Cached
+              </span>
+            )}
+            <div className="absolute bottom-2 inset-x-2 flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <Button
+                variant="secondary"
+                size="sm"
+                className="flex-1 h-8 bg-background/80 backdrop-blur-sm hover:bg-background"
+                onClick={() => onPick(image)}
+                disabled={disabled}
+                aria-label={`Keep variation ${index + 1} and discard the others`}
+              >
+                <Check className="mr-1 h-4 w-4" />
+                Pick
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background"
+                onClick={() => onDiscard(image)}
+                disabled={disabled}
+                aria-label={`Discard variation ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
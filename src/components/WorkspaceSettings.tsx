@@ -0,0 +1,156 @@
+import { useState, FormEvent } from 'react';
+import { Copy, Loader2, LogIn, LogOut, Plus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace, useWorkspaceAction } from '@/hooks/use-workspace';
+import type { WorkspaceRequest } from '@shared/schemas';
+
+// Create or join the workspace that custom writing styles are shared with
+export const WorkspaceSettings = () => {
+  const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const { data: workspace, isLoading } = useWorkspace();
+  const workspaceAction = useWorkspaceAction();
+  const { toast } = useToast();
+
+  const run = async (request: WorkspaceRequest, success: { title: string; description: string }) => {
+    try {
+      await workspaceAction.mutateAsync(request);
+      setName('');
+      setInviteCode('');
+      toast(success);
+    } catch (error) {
+      toast({
+        title: 'Workspace update failed',
+        description: error instanceof Error ? error.message : 'Could not update your workspace. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const createWorkspace = (e: FormEvent) => {
+    e.preventDefault();
+    run({ action: 'create', name }, {
+      title: 'Workspace created',
+      description: 'Share the invite code so others can join',
+    });
+  };
+
+  const joinWorkspace = (e: FormEvent) => {
+    e.preventDefault();
+    run({ action: 'join', inviteCode }, {
+      title: 'Joined workspace',
+      description: 'Styles shared there now appear in your style list',
+    });
+  };
+
+  const leaveWorkspace = () => {
+    if (!confirm('Leave this workspace? Styles you shared will become private again.')) return;
+    run({ action: 'leave' }, {
+      title: 'Left workspace',
+      description: 'Your shared styles are private again',
+    });
+  };
+
+  const copyInviteCode = (code: string) => {
+    navigator.clipboard.writeText(code);
+    toast({
+      title: 'Copied!',
+      description: 'Invite code copied to clipboard',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4" role="status" aria-label="Loading workspace">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (workspace) {
+    return (
+      <div className="space-y-4">
+        <dl className="space-y-3 text-sm">
+          <div className="flex justify-between gap-4">
+            <dt className="text-muted-foreground">Workspace</dt>
+            <dd className="font-medium truncate">{workspace.name}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-muted-foreground">Members</dt>
+            <dd className="font-medium inline-flex items-center gap-1">
+              <Users className="h-3 w-3" aria-hidden="true" />
+              {workspace.memberCount}
+            </dd>
+          </div>
+          <div className="flex justify-between items-center gap-4">
+            <dt className="text-muted-foreground">Invite code</dt>
+            <dd className="flex items-center gap-1">
+              <code className="font-mono">{workspace.invite_code}</code>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => copyInviteCode(workspace.invite_code)}
+                aria-label="Copy invite code"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </dd>
+          </div>
+        </dl>
+        <Button
+          variant="outline"
+          onClick={leaveWorkspace}
+          disabled={workspaceAction.isPending}
+          className="w-full hover:bg-destructive/20"
+        >
+          {workspaceAction.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+          Leave Workspace
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Join a workspace to share custom writing styles with your team.
+      </p>
+      <form onSubmit={createWorkspace} className="space-y-2">
+        <Label htmlFor="workspace-name">New Workspace</Label>
+        <div className="flex gap-2">
+          <Input
+            id="workspace-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Team name"
+            required
+          />
+          <Button type="submit" variant="outline" disabled={workspaceAction.isPending || !name.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create
+          </Button>
+        </div>
+      </form>
+      <form onSubmit={joinWorkspace} className="space-y-2">
+        <Label htmlFor="workspace-invite-code">Invite Code</Label>
+        <div className="flex gap-2">
+          <Input
+            id="workspace-invite-code"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            className="font-mono"
+            required
+          />
+          <Button type="submit" variant="outline" disabled={workspaceAction.isPending || !inviteCode.trim()}>
+            <LogIn className="mr-2 h-4 w-4" />
+            Join
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
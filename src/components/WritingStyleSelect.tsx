@@ -0,0 +1,115 @@
+import { ComponentPropsWithoutRef, useState } from 'react';
+import { Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StyleEditorDialog } from './StyleEditorDialog';
+import { CustomWritingStyle, useWritingStyleOptions } from '@/hooks/use-writing-styles';
+import { toWritingStyle, WritingStyle, writingStyles } from '@/lib/writing-styles';
+
+interface WritingStyleSelectProps extends Omit<ComponentPropsWithoutRef<typeof SelectTrigger>, 'value' | 'onChange'> {
+  value: string;
+  // `style` is undefined for a value that is no longer available
+  onValueChange: (value: string, style?: WritingStyle) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The built-in styles plus the user's own and their workspace's shared ones,
+ * with buttons to create a style or edit the selected one. Remaining props go
+ * to the trigger, so it can sit inside a `FormControl`.
+ */
+export const WritingStyleSelect = ({ value, onValueChange, disabled, ...triggerProps }: WritingStyleSelectProps) => {
+  const { own, shared, styles } = useWritingStyleOptions();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomWritingStyle | null>(null);
+  const selectedOwn = own.find(style => style.id === value) ?? null;
+
+  const openEditor = (style: CustomWritingStyle | null) => {
+    setEditing(style);
+    setEditorOpen(true);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value}
+        onValueChange={(next) => onValueChange(next, styles.find(style => style.value === next))}
+        disabled={disabled}
+      >
+        <SelectTrigger className="bg-background/50 border-border" {...triggerProps}>
+          <SelectValue placeholder="Style unavailable" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {writingStyles.map((style) => (
+              <SelectItem key={style.value} value={style.value}>{style.label}</SelectItem>
+            ))}
+          </SelectGroup>
+          {own.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Your styles</SelectLabel>
+                {own.map((style) => (
+                  <SelectItem key={style.id} value={style.id}>{style.emoji} {style.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+          {shared.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Shared with your workspace</SelectLabel>
+                {shared.map((style) => (
+                  <SelectItem key={style.id} value={style.id}>{style.emoji} {style.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+      {selectedOwn && (
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="shrink-0 hover:bg-primary/10"
+          onClick={() => openEditor(selectedOwn)}
+          disabled={disabled}
+          aria-label="Edit writing style"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="shrink-0 hover:bg-primary/10"
+        onClick={() => openEditor(null)}
+        disabled={disabled}
+        aria-label="New writing style"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+
+      <StyleEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        style={editing}
+        onSaved={(style) => onValueChange(style.id, toWritingStyle(style))}
+        onDeleted={() => onValueChange(writingStyles[0].value, writingStyles[0])}
+      />
+    </div>
+  );
+};
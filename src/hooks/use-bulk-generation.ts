@@ -0,0 +1,151 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { usageQueryKey } from '@/hooks/use-usage';
+import { FunctionError, invokeFunction } from '@/lib/functions';
+import type { TextGenerationValues } from '@shared/schemas';
+
+export type BulkRowStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface BulkRow {
+  // Position in the uploaded file, from 0
+  index: number;
+  values: Record<string, string>;
+  status: BulkRowStatus;
+  prompt: string | null;
+  output: string | null;
+  model: string | null;
+  attempts: number | null;
+  cached: boolean;
+  error: string | null;
+}
+
+// What generate-text answers a non-streaming request with
+interface TextResult {
+  text: string;
+  model: string;
+  attempts: number;
+  cached: boolean;
+}
+
+// The prompt for a row, or why one could not be built from it
+export type PreparedPrompt = { prompt: string } | { error: string };
+
+export interface BulkRunOptions {
+  prepare: (values: Record<string, string>) => PreparedPrompt;
+  type: TextGenerationValues['type'];
+  params: TextGenerationValues['params'];
+  concurrency: number;
+}
+
+export interface BulkRunSummary {
+  succeeded: number;
+  failed: number;
+  // Why the run ended before every row was attempted, if it did
+  stoppedBy: 'user' | 'quota' | null;
+}
+
+export const MAX_BULK_ROWS = 500;
+export const MAX_BULK_CONCURRENCY = 5;
+
+const toPendingRow = (values: Record<string, string>, index: number): BulkRow => ({
+  index,
+  values,
+  status: 'pending',
+  prompt: null,
+  output: null,
+  model: null,
+  attempts: null,
+  cached: false,
+  error: null,
+});
+
+/**
+ * Sends uploaded rows through generate-text a few at a time. Each row is its
+ * own request, so one failure never sinks the batch; running out of credits
+ * stops it, leaving the remaining rows pending for a later retry.
+ */
+export const useBulkTextGeneration = () => {
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRef = useRef<BulkRunSummary['stoppedBy']>(null);
+  const queryClient = useQueryClient();
+
+  const updateRow = (index: number, changes: Partial<BulkRow>) =>
+    setRows(prev => prev.map(row => (row.index === index ? { ...row, ...changes } : row)));
+
+  const load = (values: Record<string, string>[]) => setRows(values.map(toPendingRow));
+
+  const clear = () => setRows([]);
+
+  const stop = () => {
+    stopRef.current = 'user';
+  };
+
+  const runRow = async (row: BulkRow, { prepare, type, params }: BulkRunOptions) => {
+    const prepared = prepare(row.values);
+    if ('error' in prepared) {
+      updateRow(row.index, { status: 'failed', prompt: null, error: prepared.error });
+      return false;
+    }
+
+    updateRow(row.index, { status: 'running', prompt: prepared.prompt, error: null });
+    try {
+      const result = await invokeFunction<TextResult>('generate-text', {
+        body: { prompt: prepared.prompt, type, params },
+      });
+      if (!result?.text) throw new Error('No text generated');
+
+      updateRow(row.index, {
+        status: 'succeeded',
+        output: result.text,
+        model: result.model,
+        attempts: result.attempts,
+        cached: result.cached,
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof FunctionError && error.code === 'quota_exceeded') {
+        stopRef.current = 'quota';
+      }
+      updateRow(row.index, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to generate text',
+        attempts: error instanceof FunctionError ? error.attempts ?? null : null,
+      });
+      return false;
+    }
+  };
+
+  // Runs the given rows, `concurrency` at a time, until all have settled or the run is stopped
+  const run = async (targets: BulkRow[], options: BulkRunOptions): Promise<BulkRunSummary> => {
+    const queue = [...targets];
+    const indexes = new Set(targets.map(row => row.index));
+    let succeeded = 0;
+    let failed = 0;
+
+    stopRef.current = null;
+    setIsRunning(true);
+    setRows(prev => prev.map(row => (indexes.has(row.index) ? { ...row, status: 'pending', error: null } : row)));
+
+    const worker = async () => {
+      for (let row = queue.shift(); row && !stopRef.current; row = queue.shift()) {
+        if (await runRow(row, options)) {
+          succeeded++;
+        } else {
+          failed++;
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(options.concurrency, queue.length) }, worker));
+    } finally {
+      setIsRunning(false);
+      queryClient.invalidateQueries({ queryKey: usageQueryKey });
+    }
+
+    return { succeeded, failed, stoppedBy: stopRef.current };
+  };
+
+  return { rows, isRunning, load, clear, run, stop };
+};
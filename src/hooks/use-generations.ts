@@ -0,0 +1,391 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { toast } from '@/hooks/use-toast';
+import { fetchAllRows } from '@/lib/fetch-all-rows';
+import { MAX_IMAGE_BYTES, sniffImageType } from '@/lib/image-files';
+import { uploadImage } from '@/lib/image-uploads';
+import type { ImageSettings } from '@/lib/image-settings';
+import type { TextParams } from '@/lib/text-params';
+import type { TemplateUsage } from '@/lib/prompt-templates';
+import type { JsonSchema } from '@/lib/structured-output';
+
+export type GenerationKind = Enums<'generation_kind'>;
+// A generation as the gallery holds it: everything the cards show, but not who owns it or where its file is stored
+export type Generation = Omit<Tables<'generations'>, 'user_id' | 'storage_path'>;
+
+// One literal, so the client can type the rows it selects
+const generationColumns = 'id, kind, prompt, style, model, output, settings, cached, template_id, variables, output_schema, thumbnail_url, width, height, mime_type, parent_id, batch_id, created_at, edited_at';
+export type VersionSource = Enums<'generation_version_source'>;
+
+export interface GenerationRevision {
+  id: string;
+  output: string;
+  source: VersionSource;
+  // Defaults to the generation's current model
+  model?: string | null;
+  // The version being brought back, for a restore
+  restoredFrom?: string;
+}
+
+export interface GeneratedText {
+  id: string;
+  content: string;
+  prompt: string;
+  type: string;
+  model: string | null;
+  params: TextParams | null;
+  // Answered from the response cache instead of the AI provider
+  cached: boolean;
+  // The template the prompt was filled in from, if any
+  template: TemplateUsage | null;
+  // Set for structured output, whose content is then a JSON document
+  outputSchema: JsonSchema | null;
+  timestamp: number;
+  // When the content was last edited or restored; cleared by regenerating
+  editedAt: number | null;
+}
+
+export interface GeneratedImage {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number | null;
+  height: number | null;
+  mimeType: string | null;
+  parentId: string | null;
+  batchId: string | null;
+  settings: ImageSettings | null;
+  prompt: string;
+  model: string | null;
+  cached: boolean;
+  template: TemplateUsage | null;
+  timestamp: number;
+}
+
+// Keys the studio used before generations were stored in Supabase
+const legacyStorageKeys: Record<GenerationKind, string> = {
+  text: 'ai-studio-texts',
+  image: 'ai-studio-images',
+};
+
+export const generationsQueryKey = (kind: GenerationKind) => ['generations', kind] as const;
+
+export const generationVersionsQueryKey = (id: string) => ['generation-versions', id] as const;
+
+// Null once the template is deleted, since there is nothing left to fill in again
+const toTemplateUsage = (row: Generation): TemplateUsage | null =>
+  row.template_id ? { id: row.template_id, variables: (row.variables ?? {}) as TemplateUsage['variables'] } : null;
+
+export const toGeneratedText = (row: Generation): GeneratedText => ({
+  id: row.id,
+  content: row.output,
+  prompt: row.prompt,
+  type: row.style ?? 'creative',
+  model: row.model,
+  // Text rows keep their generation parameters in the settings column
+  params: row.settings as TextParams | null,
+  cached: row.cached,
+  template: toTemplateUsage(row),
+  outputSchema: row.output_schema as JsonSchema | null,
+  timestamp: new Date(row.created_at).getTime(),
+  editedAt: row.edited_at ? new Date(row.edited_at).getTime() : null,
+});
+
+export const toGeneratedImage = (row: Generation): GeneratedImage => ({
+  id: row.id,
+  url: row.output,
+  // Images saved by URL from before storage uploads have no thumbnail
+  thumbnailUrl: row.thumbnail_url ?? row.output,
+  width: row.width,
+  height: row.height,
+  mimeType: row.mime_type,
+  parentId: row.parent_id,
+  batchId: row.batch_id,
+  settings: row.settings as ImageSettings | null,
+  prompt: row.prompt,
+  model: row.model,
+  cached: row.cached,
+  template: toTemplateUsage(row),
+  timestamp: new Date(row.created_at).getTime(),
+});
+
+// Newest first; the id breaks ties so pages never overlap or skip a row
+const fetchGenerations = (kind: GenerationKind) =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('generations')
+      .select(generationColumns)
+      .eq('kind', kind)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to)
+  );
+
+interface LegacyGeneration {
+  content?: string;
+  url?: string;
+  prompt: string;
+  type?: string;
+  timestamp: number;
+}
+
+/**
+ * Older versions kept images as base64 data URLs. Those are uploaded like any
+ * imported image, so no row holds one. Null when the data is not an image the
+ * studio can store; a failed upload throws, so the import can be tried again.
+ */
+type StoredOutput = Pick<TablesInsert<'generations'>, 'output' | 'thumbnail_url' | 'storage_path' | 'mime_type'>;
+
+const storeLegacyImage = async (userId: string, url: string): Promise<StoredOutput | null> => {
+  if (!url.startsWith('data:')) return { output: url };
+
+  let data: Uint8Array;
+  try {
+    data = new Uint8Array(await (await fetch(url)).arrayBuffer());
+  } catch (error) {
+    console.error('Failed to read a saved image:', error);
+    return null;
+  }
+  const mimeType = sniffImageType(data);
+  if (!mimeType || data.length > MAX_IMAGE_BYTES) return null;
+
+  const uploaded = await uploadImage(userId, data, mimeType);
+  return { output: uploaded.url, thumbnail_url: uploaded.thumbnailUrl, storage_path: uploaded.storagePath, mime_type: mimeType };
+};
+
+interface LegacyImport {
+  imported: number;
+  // Saved images that could not be stored and were left out
+  skipped: number;
+}
+
+/**
+ * Moves anything still sitting under the legacy localStorage key into the
+ * generations table, then drops the key so the import only runs once.
+ */
+const importLegacyGenerations = async (kind: GenerationKind, userId: string): Promise<LegacyImport> => {
+  const saved = localStorage.getItem(legacyStorageKeys[kind]);
+  if (!saved) return { imported: 0, skipped: 0 };
+
+  let items: LegacyGeneration[];
+  try {
+    items = JSON.parse(saved);
+  } catch (error) {
+    console.error(`Failed to read saved ${kind} generations:`, error);
+    localStorage.removeItem(legacyStorageKeys[kind]);
+    return { imported: 0, skipped: 0 };
+  }
+
+  const rows: TablesInsert<'generations'>[] = [];
+  for (const item of items) {
+    const stored = kind === 'text' ? { output: item.content ?? '' } : await storeLegacyImage(userId, item.url ?? '');
+    if (!stored) continue;
+    rows.push({
+      kind,
+      prompt: item.prompt,
+      style: kind === 'text' ? item.type ?? null : null,
+      ...stored,
+      created_at: new Date(item.timestamp).toISOString(),
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('generations').insert(rows);
+    if (error) throw error;
+  }
+  localStorage.removeItem(legacyStorageKeys[kind]);
+  return { imported: rows.length, skipped: items.length - rows.length };
+};
+
+// Imports under way, by kind. Switching tabs remounts the generators, and a
+// second import started before the first drops the key would insert everything twice.
+const legacyImports = new Map<GenerationKind, Promise<LegacyImport>>();
+
+const importLegacyGenerationsOnce = (kind: GenerationKind, userId: string) => {
+  if (!legacyImports.has(kind)) {
+    legacyImports.set(kind, importLegacyGenerations(kind, userId).finally(() => legacyImports.delete(kind)));
+  }
+  return legacyImports.get(kind);
+};
+
+export const useGenerations = (kind: GenerationKind) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    importLegacyGenerationsOnce(kind, user.id)
+      .then(({ imported, skipped }) => {
+        if (imported > 0) queryClient.invalidateQueries({ queryKey: generationsQueryKey(kind) });
+        if (skipped > 0) {
+          toast({
+            title: `${skipped} saved image${skipped === 1 ? '' : 's'} could not be kept`,
+            description: `Only PNG, JPEG and WebP images up to ${MAX_IMAGE_BYTES / 1024 / 1024} MB can be stored.`,
+            variant: 'destructive',
+          });
+        }
+      })
+      .catch((error) => console.error(`Failed to import saved ${kind} generations:`, error));
+  }, [kind, user.id, queryClient]);
+
+  return useQuery({
+    queryKey: generationsQueryKey(kind),
+    queryFn: () => fetchGenerations(kind),
+  });
+};
+
+export const useCreateGeneration = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (generation: TablesInsert<'generations'>) => {
+      const { data, error } = await supabase.from('generations').insert(generation).select().single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (row) => {
+      queryClient.setQueryData<Generation[]>(generationsQueryKey(row.kind), prev => [row, ...(prev ?? [])]);
+    },
+  });
+};
+
+// Inserts several generations at once, e.g. the variations of one image batch
+export const useCreateGenerations = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (generations: TablesInsert<'generations'>[]) => {
+      const { data, error } = await supabase.from('generations').insert(generations).select();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (rows) => {
+      for (const kind of new Set(rows.map(row => row.kind))) {
+        queryClient.setQueryData<Generation[]>(
+          generationsQueryKey(kind),
+          prev => [...rows.filter(row => row.kind === kind), ...(prev ?? [])]
+        );
+      }
+    },
+  });
+};
+
+export interface TextVersion {
+  id: string;
+  // 1 for the original, counting up with each change
+  number: number;
+  content: string;
+  source: VersionSource;
+  model: string | null;
+  // The number of the version this one brought back, for a restore
+  restoredFrom: number | null;
+  timestamp: number;
+}
+
+const fetchGenerationVersions = async (id: string) => {
+  const { data, error } = await supabase
+    .from('generation_versions')
+    .select('*')
+    .eq('generation_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+// Numbered oldest first; a text that has never changed is its own only version
+const toTextVersions = (rows: Tables<'generation_versions'>[], text: GeneratedText): TextVersion[] => {
+  if (rows.length === 0) {
+    return [{ id: text.id, number: 1, content: text.content, source: 'generated', model: text.model, restoredFrom: null, timestamp: text.timestamp }];
+  }
+  const numbers = new Map(rows.map((row, index) => [row.id, index + 1]));
+  return rows.map((row, index) => ({
+    id: row.id,
+    number: index + 1,
+    content: row.output,
+    source: row.source,
+    model: row.model,
+    restoredFrom: (row.restored_from && numbers.get(row.restored_from)) || null,
+    timestamp: new Date(row.created_at).getTime(),
+  }));
+};
+
+export const useTextVersions = (text: GeneratedText | null) =>
+  useQuery({
+    queryKey: generationVersionsQueryKey(text?.id ?? ''),
+    queryFn: () => fetchGenerationVersions(text.id),
+    enabled: !!text,
+    select: rows => toTextVersions(rows, text),
+  });
+
+/**
+ * Replaces a generation's output with a new version, recording how it came
+ * about so the history can show and restore it.
+ */
+export const useReviseGeneration = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...revision }: GenerationRevision) => {
+      const { data, error } = await supabase.rpc('revise_generation', {
+        p_generation_id: id,
+        p_output: revision.output,
+        p_source: revision.source,
+        p_model: revision.model ?? undefined,
+        p_restored_from: revision.restoredFrom,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (row) => {
+      queryClient.setQueryData<Generation[]>(generationsQueryKey(row.kind), prev => prev?.map(existing => (existing.id === row.id ? row : existing)));
+      queryClient.invalidateQueries({ queryKey: generationVersionsQueryKey(row.id) });
+    },
+  });
+};
+
+export const useDeleteGeneration = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('generations').delete().eq('id', id);
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<Generation[]>(generationsQueryKey(kind), prev => prev?.filter(row => row.id !== id));
+    },
+  });
+};
+
+export const useDeleteGenerations = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase.from('generations').delete().in('id', ids);
+      if (error) throw error;
+      return ids;
+    },
+    onSuccess: (ids) => {
+      queryClient.setQueryData<Generation[]>(generationsQueryKey(kind), prev => prev?.filter(row => !ids.includes(row.id)));
+    },
+  });
+};
+
+export const useClearGenerations = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('generations').delete().eq('kind', kind);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<Generation[]>(generationsQueryKey(kind), []);
+    },
+  });
+};
@@ -0,0 +1,165 @@
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { usageQueryKey } from '@/hooks/use-usage';
+import { generationsQueryKey, GenerationKind } from '@/hooks/use-generations';
+import { invokeFunction } from '@/lib/functions';
+import type { TemplateUsage } from '@/lib/prompt-templates';
+
+export type JobStatus = Enums<'job_status'>;
+export type GenerationJob = Tables<'generation_jobs'>;
+
+// What the jobs worker records in `result`
+export interface JobResult {
+  generationIds?: string[];
+  attempts?: number;
+  results?: { index: number; ok: boolean; error?: string; attempts: number }[];
+}
+
+export interface SubmitJobInput {
+  kind: GenerationKind;
+  // The body the synchronous generate function would receive
+  input: Record<string, unknown>;
+  // The gallery image an image edit descends from
+  parentId?: string | null;
+  // Stored with the generations so they can be filled in again
+  template?: TemplateUsage | null;
+}
+
+// While a job is unfinished, poll in case realtime is unavailable
+const POLL_INTERVAL_MS = 5000;
+
+export const jobsQueryKey = (kind: GenerationKind) => ['generation-jobs', kind] as const;
+
+export const isJobPending = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+export const getJobPrompt = (job: GenerationJob) =>
+  (job.request as { prompt?: string } | null)?.prompt ?? '';
+
+export const getJobResult = (job: GenerationJob) => (job.result ?? {}) as JobResult;
+
+const fetchJobs = async (kind: GenerationKind) => {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('kind', kind)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+const deleteJob = async (id: string) => {
+  const { error } = await supabase.from('generation_jobs').delete().eq('id', id);
+  if (error) throw error;
+};
+
+interface JobCallbacks {
+  onSucceeded?: (job: GenerationJob) => void;
+  // Only for jobs seen unfinished in this session, so a reload does not repeat old failures
+  onFailed?: (job: GenerationJob) => void;
+}
+
+/**
+ * Background jobs of one kind, kept fresh over realtime with polling as a
+ * fallback, so a reload picks up where the last tab left off. Finished jobs
+ * are handed to `onSucceeded` once, then removed; failed ones stay until
+ * dismissed.
+ */
+export const useGenerationJobs = (kind: GenerationKind, callbacks: JobCallbacks = {}) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const handledJobs = useRef(new Set<string>());
+  const pendingJobs = useRef(new Set<string>());
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const query = useQuery({
+    queryKey: jobsQueryKey(kind),
+    queryFn: () => fetchJobs(kind),
+    enabled: !!user,
+    refetchInterval: (query) => (query.state.data?.some(isJobPending) ? POLL_INTERVAL_MS : false),
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`generation-jobs-${kind}-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'generation_jobs', filter: `user_id=eq.${user.id}` },
+        () => queryClient.invalidateQueries({ queryKey: jobsQueryKey(kind) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [kind, user, queryClient]);
+
+  // The worker has already saved the generations; refresh them and clear the job
+  useEffect(() => {
+    const jobs = query.data ?? [];
+
+    for (const job of jobs) {
+      if (isJobPending(job)) {
+        pendingJobs.current.add(job.id);
+      } else if (job.status === 'failed' && pendingJobs.current.delete(job.id)) {
+        callbacksRef.current.onFailed?.(job);
+      }
+    }
+
+    const succeeded = jobs.filter(job => job.status === 'succeeded' && !handledJobs.current.has(job.id));
+    if (succeeded.length === 0) return;
+
+    for (const job of succeeded) {
+      handledJobs.current.add(job.id);
+      callbacksRef.current.onSucceeded?.(job);
+      deleteJob(job.id).catch((error) => console.error('Failed to clear finished job:', error));
+    }
+    queryClient.setQueryData<GenerationJob[]>(jobsQueryKey(kind), prev => prev?.filter(job => !succeeded.includes(job)));
+    queryClient.invalidateQueries({ queryKey: generationsQueryKey(kind) });
+    queryClient.invalidateQueries({ queryKey: usageQueryKey });
+  }, [query.data, kind, queryClient]);
+
+  return {
+    ...query,
+    // Finished jobs are cleared as soon as they are handled
+    jobs: (query.data ?? []).filter(job => job.status !== 'succeeded'),
+  };
+};
+
+export const useSubmitJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ kind, input, parentId = null, template = null }: SubmitJobInput) => {
+      const job = await invokeFunction<GenerationJob>('jobs', { body: { kind, input, parentId, template } });
+      if (!job) throw new Error('The job could not be queued');
+      return job;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData<GenerationJob[]>(
+        jobsQueryKey(job.kind),
+        prev => [...(prev ?? []).filter(existing => existing.id !== job.id), job]
+      );
+    },
+  });
+};
+
+export const useDismissJob = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await deleteJob(id);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<GenerationJob[]>(jobsQueryKey(kind), prev => prev?.filter(job => job.id !== id));
+    },
+  });
+};
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  exampleSchema,
+  formatJson,
+  JsonSchema,
+  parseSchemaText,
+  SavedJsonSchemaValues,
+  StructuredOutput,
+} from '@/lib/structured-output';
+
+export type SavedJsonSchema = Omit<Tables<'json_schemas'>, 'schema'> & { schema: JsonSchema };
+
+export const jsonSchemasQueryKey = ['json-schemas'] as const;
+
+const fetchSchemas = async () => {
+  const { data, error } = await supabase
+    .from('json_schemas')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data as SavedJsonSchema[];
+};
+
+export const useJsonSchemas = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: jsonSchemasQueryKey,
+    queryFn: fetchSchemas,
+    enabled: !!user,
+  });
+};
+
+export const useSaveJsonSchema = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: SavedJsonSchemaValues }) => {
+      const name = values.name;
+      const schema = values.schema as Json;
+      const query = id
+        ? supabase.from('json_schemas').update({ name, schema, updated_at: new Date().toISOString() }).eq('id', id)
+        : supabase.from('json_schemas').insert({ name, schema });
+      const { data, error } = await query.select().single();
+      if (error) throw error;
+      return data as SavedJsonSchema;
+    },
+    // Listed straight away so a new schema can be picked before the refetch
+    onSuccess: (saved) => {
+      queryClient.setQueryData<SavedJsonSchema[]>(
+        jsonSchemasQueryKey,
+        prev => [...(prev ?? []).filter(schema => schema.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+  });
+};
+
+export const useDeleteJsonSchema = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('json_schemas').delete().eq('id', id);
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<SavedJsonSchema[]>(jsonSchemasQueryKey, prev => prev?.filter(schema => schema.id !== id));
+    },
+  });
+};
+
+export type StructuredValidation = { ok: true; structured: StructuredOutput | null } | { ok: false };
+
+/**
+ * Whether a generator asks for JSON, and the schema being edited: a saved one
+ * or text typed into the editor. `saved` stays picked while its text is edited
+ * so the changes can be saved back to it.
+ */
+export const useStructuredOutput = () => {
+  const { data: schemas = [] } = useJsonSchemas();
+  const [enabled, setEnabled] = useState(false);
+  const [schemaId, setSchemaId] = useState<string | null>(null);
+  const [text, setText] = useState(() => formatJson(exampleSchema));
+  const [error, setError] = useState<string | null>(null);
+  const saved = schemas.find(candidate => candidate.id === schemaId) ?? null;
+
+  const select = (next: SavedJsonSchema | null) => {
+    setSchemaId(next?.id ?? null);
+    if (next) setText(formatJson(next.schema));
+    setError(null);
+  };
+
+  const edit = (value: string) => {
+    setText(value);
+    setError(null);
+  };
+
+  // Turns JSON mode on with the schema a generation was made with
+  const load = (schema: JsonSchema) => {
+    setEnabled(true);
+    setSchemaId(schemas.find(candidate => formatJson(candidate.schema) === formatJson(schema))?.id ?? null);
+    setText(formatJson(schema));
+    setError(null);
+  };
+
+  // Shows any schema error; an unchanged saved schema is sent by id
+  const validate = (): StructuredValidation => {
+    if (!enabled) return { ok: true, structured: null };
+
+    const parsed = parseSchemaText(text);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return { ok: false };
+    }
+    const unchanged = saved && formatJson(saved.schema) === formatJson(parsed.schema);
+    return { ok: true, structured: unchanged ? { schemaId: saved.id } : { schema: parsed.schema } };
+  };
+
+  return { schemas, enabled, setEnabled, saved, text, error, setError, select, edit, load, validate };
+};
+
+export type StructuredOutputSelection = ReturnType<typeof useStructuredOutput>;
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import type { GenerationKind } from '@/hooks/use-generations';
+import {
+  createVariablesSchema,
+  fillTemplate,
+  getDefaultInputs,
+  PromptTemplateValues,
+  TemplateField,
+  TemplateInputs,
+  TemplateUsage,
+  toTemplateInputs,
+} from '@/lib/prompt-templates';
+
+export type PromptTemplate = Omit<Tables<'prompt_templates'>, 'fields'> & { fields: TemplateField[] };
+
+export const templatesQueryKey = (kind: GenerationKind) => ['prompt-templates', kind] as const;
+
+const fetchTemplates = async (kind: GenerationKind) => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('kind', kind)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data as PromptTemplate[];
+};
+
+export const usePromptTemplates = (kind: GenerationKind) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: templatesQueryKey(kind),
+    queryFn: () => fetchTemplates(kind),
+    enabled: !!user,
+  });
+};
+
+export const useSavePromptTemplate = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, template }: { id?: string; template: PromptTemplateValues }) => {
+      const { name, body, fields } = template;
+      const query = id
+        ? supabase.from('prompt_templates').update({ name, body, fields, updated_at: new Date().toISOString() }).eq('id', id)
+        : supabase.from('prompt_templates').insert({ kind, name, body, fields });
+      const { data, error } = await query.select().single();
+      if (error) throw error;
+      return data as PromptTemplate;
+    },
+    // Listed straight away so a new template can be picked before the refetch
+    onSuccess: (saved) => {
+      queryClient.setQueryData<PromptTemplate[]>(
+        templatesQueryKey(kind),
+        prev => [...(prev ?? []).filter(template => template.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+  });
+};
+
+export const useDeletePromptTemplate = (kind: GenerationKind) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('prompt_templates').delete().eq('id', id);
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<PromptTemplate[]>(templatesQueryKey(kind), prev => prev?.filter(template => template.id !== id));
+    },
+  });
+};
+
+export type TemplateValidation = { ok: true; usage: TemplateUsage | null } | { ok: false };
+
+/**
+ * The template picked in a generator and the values typed into its fields.
+ * `prompt` is the filled-in template, or null when none is picked.
+ */
+export const useTemplateSelection = (kind: GenerationKind) => {
+  const { data: templates = [] } = usePromptTemplates(kind);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [inputs, setInputs] = useState<TemplateInputs>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const template = templates.find(candidate => candidate.id === templateId) ?? null;
+
+  // Fields added by editing the template start from their defaults
+  useEffect(() => {
+    if (template) setInputs(prev => ({ ...getDefaultInputs(template.fields), ...prev }));
+  }, [template]);
+
+  // `variables` restores the values a generation was made with
+  const select = (next: PromptTemplate | null, variables?: TemplateUsage['variables'] | null) => {
+    setTemplateId(next?.id ?? null);
+    setInputs(next ? { ...getDefaultInputs(next.fields), ...(variables ? toTemplateInputs(variables) : {}) } : {});
+    setErrors({});
+  };
+
+  const setInput = (name: string, value: string) => {
+    setInputs(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  };
+
+  // Shows any field errors; a valid result carries what to store with the generation
+  const validate = (): TemplateValidation => {
+    if (!template) return { ok: true, usage: null };
+
+    const result = createVariablesSchema(template.fields).safeParse(inputs);
+    if (!result.success) {
+      setErrors(Object.fromEntries(result.error.issues.map(issue => [String(issue.path[0]), issue.message])));
+      return { ok: false };
+    }
+    return { ok: true, usage: { id: template.id, variables: result.data as TemplateUsage['variables'] } };
+  };
+
+  return {
+    templates,
+    template,
+    inputs,
+    errors,
+    prompt: template ? fillTemplate(template.body, inputs) : null,
+    select,
+    setInput,
+    validate,
+  };
+};
+
+export type TemplateSelection = ReturnType<typeof useTemplateSelection>;
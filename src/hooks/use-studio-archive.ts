@@ -0,0 +1,330 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { generationsQueryKey } from '@/hooks/use-generations';
+import { CustomWritingStyle, writingStylesQueryKey } from '@/hooks/use-writing-styles';
+import { downloadBlob } from '@/lib/download';
+import { fetchAllRows } from '@/lib/fetch-all-rows';
+import { invokeFunction } from '@/lib/functions';
+import { sniffImageType } from '@/lib/image-files';
+import { imageSettingsSchema } from '@/lib/image-settings';
+import { IMAGES_BUCKET, uploadedThumbnailPath, UploadedImage, uploadImage, uploadsFolder } from '@/lib/image-uploads';
+import { textParamsSchema } from '@/lib/text-params';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveImage,
+  ArchiveManifest,
+  ExistingStudio,
+  ImportPlan,
+  MANIFEST_FILE,
+  readStudioArchive,
+  SettingKey,
+  settingKeys,
+  storedImageHash,
+  StudioArchive,
+  textHash,
+  toArchiveImage,
+  toArchiveStyle,
+  toArchiveText,
+} from '@/lib/studio-archive';
+import { userStorageKey } from '@/lib/user-storage';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { sha256 } from '@shared/hash';
+
+const BATCH_SIZE = 200;
+
+// Writes a batch at a time, keeping each request (and, for deletes, its list of ids) small
+const inBatches = async <T>(rows: T[], write: (batch: T[]) => PromiseLike<{ error: unknown }>) => {
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const { error } = await write(rows.slice(start, start + BATCH_SIZE));
+    if (error) throw error;
+  }
+};
+
+// The saved settings the studio would load, leaving out any it would reject
+const readSavedSettings = (userId: string): ArchiveManifest['settings'] => {
+  const read = <T>(key: SettingKey, parse: (value: unknown) => { success: boolean; data?: T }) => {
+    try {
+      const saved = localStorage.getItem(userStorageKey(key, userId));
+      const result = saved ? parse(JSON.parse(saved)) : null;
+      return result?.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  };
+  return {
+    textParams: read('textParams', value => textParamsSchema.safeParse(value)),
+    imageSettings: read('imageSettings', value => imageSettingsSchema.safeParse(value)),
+  };
+};
+
+export interface StudioExport {
+  texts: number;
+  images: number;
+  styles: number;
+  // Images whose files could not be downloaded and were left out
+  missingImages: number;
+}
+
+/**
+ * Downloads everything the user has made as a studio archive: their texts with
+ * each one's history, their images, their own writing styles and their saved
+ * generation settings.
+ */
+export const useExportStudio = () => {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (): Promise<StudioExport> => {
+      const [generations, versions, styles] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase.from('generations').select('*').order('created_at', { ascending: true }).order('id').range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from('generation_versions').select('*').order('created_at', { ascending: true }).order('id').range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from('writing_styles').select('*').eq('user_id', user.id).order('name').range(from, to)
+        ),
+      ]);
+
+      const texts = generations
+        .filter(row => row.kind === 'text')
+        .map(row => toArchiveText(row, versions.filter(version => version.generation_id === row.id)));
+
+      const images: ArchiveImage[] = [];
+      const files: ZipEntry[] = [];
+      let missingImages = 0;
+      for (const row of generations.filter(row => row.kind === 'image')) {
+        try {
+          const response = await fetch(row.output);
+          if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+          const data = new Uint8Array(await response.arrayBuffer());
+          const mimeType = sniffImageType(data);
+          if (!mimeType) throw new Error('Not a PNG, JPEG or WebP image');
+          const image = toArchiveImage(row, { hash: await sha256(data), mimeType });
+          // Variations can share a file, which the archive holds once
+          if (!files.some(file => file.name === image.file)) files.push({ name: image.file, data });
+          images.push(image);
+        } catch (error) {
+          console.error(`Failed to download image ${row.id}:`, error);
+          missingImages++;
+        }
+      }
+
+      const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        texts,
+        images,
+        styles: styles.map(toArchiveStyle),
+        settings: readSavedSettings(user.id),
+      };
+      const zip = createZip([{ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) }, ...files]);
+      downloadBlob(zip, `ai-studio-archive-${format(new Date(), 'yyyy-MM-dd')}.zip`);
+
+      return { texts: texts.length, images: images.length, styles: manifest.styles.length, missingImages };
+    },
+  });
+};
+
+const fetchExistingStudio = async (userId: string): Promise<ExistingStudio> => {
+  const [generations, styles] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase.from('generations').select('id, kind, prompt, output, storage_path').order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from('writing_styles').select('id, name, system_prompt, workspace_id').eq('user_id', userId).order('id').range(from, to)
+    ),
+  ]);
+
+  const texts: ExistingStudio['texts'] = [];
+  for (const row of generations.filter(row => row.kind === 'text')) {
+    texts.push({ id: row.id, hash: await textHash(row.prompt, row.output) });
+  }
+
+  return {
+    texts,
+    images: generations
+      .filter(row => row.kind === 'image')
+      .map(row => ({ id: row.id, hash: storedImageHash(row.storage_path), storagePath: row.storage_path })),
+    styles: styles.map(style => ({
+      id: style.id,
+      name: style.name,
+      systemPrompt: style.system_prompt,
+      shared: style.workspace_id !== null,
+    })),
+    settings: settingKeys.filter(key => localStorage.getItem(userStorageKey(key, userId)) !== null),
+  };
+};
+
+/**
+ * Clears what the studio held before a replacing import, once everything from
+ * the archive is in, so an import that fails partway loses nothing. Styles
+ * shared with the workspace stay for teammates, and uploaded image files go
+ * with the last image that used them.
+ */
+const removeReplaced = async (userId: string, existing: ExistingStudio, manifest: ArchiveManifest) => {
+  const ids = [...existing.texts, ...existing.images].map(entry => entry.id);
+  await inBatches(ids, batch => supabase.from('generations').delete().in('id', batch));
+
+  for (const style of existing.styles.filter(style => !style.shared)) {
+    await invokeFunction('styles', { body: { action: 'delete', id: style.id } });
+  }
+
+  for (const key of settingKeys) {
+    if (manifest.settings[key] === null) localStorage.removeItem(userStorageKey(key, userId));
+  }
+
+  const folder = uploadsFolder(userId);
+  const uploaded = existing.images.map(image => image.storagePath).filter(path => path?.startsWith(folder));
+  if (uploaded.length === 0) return;
+  const stillUsed = await fetchAllRows((from, to) =>
+    supabase.from('generations').select('storage_path').like('storage_path', `${folder}%`).order('id').range(from, to)
+  );
+  const used = new Set(stillUsed.map(row => row.storage_path));
+  const unused = [...new Set(uploaded)].filter(path => !used.has(path));
+  if (unused.length === 0) return;
+  const { error } = await supabase.storage
+    .from(IMAGES_BUCKET)
+    .remove(unused.flatMap(path => [path, uploadedThumbnailPath(userId, storedImageHash(path))]));
+  if (error) throw error;
+};
+
+export interface OpenedArchive {
+  archive: StudioArchive;
+  existing: ExistingStudio;
+}
+
+// Reads and validates an archive alongside what the studio holds now, ready to plan an import
+export const useOpenStudioArchive = () => {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (file: File): Promise<OpenedArchive> => {
+      const [archive, existing] = await Promise.all([readStudioArchive(file), fetchExistingStudio(user.id)]);
+      return { archive, existing };
+    },
+  });
+};
+
+/**
+ * Carries out an import plan. Everything added gets a new id, with references
+ * between entries (image variations, text versions, custom styles) moved over
+ * to the new ids or to the existing entries they matched. Replacing removes
+ * the old entries only after the new ones are in.
+ */
+export const useImportStudio = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ archive, existing, plan }: OpenedArchive & { plan: ImportPlan }) => {
+      const { manifest, files } = archive;
+
+      const ids = new Map<string, string>();
+      // Styles are created by the styles function, which picks their ids
+      for (const { id, ...style } of plan.styles.add) {
+        const saved = await invokeFunction<CustomWritingStyle>('styles', {
+          body: { action: 'create', style: { ...style, shared: false } },
+        });
+        if (!saved) throw new Error(`The style "${style.name}" could not be saved`);
+        ids.set(id, saved.id);
+      }
+      for (const text of plan.texts.add) {
+        ids.set(text.id, crypto.randomUUID());
+        for (const version of text.versions) ids.set(version.id, crypto.randomUUID());
+      }
+      for (const image of plan.images.add) ids.set(image.id, crypto.randomUUID());
+      for (const [id, match] of plan.matches) ids.set(id, ids.get(match) ?? match);
+      const resolve = (id: string | null) => (id ? ids.get(id) ?? null : null);
+
+      // Templates are not archived, so only links to ones the user still has are kept
+      const { data: templates, error: templatesError } = await supabase.from('prompt_templates').select('id');
+      if (templatesError) throw templatesError;
+      const templateIds = new Set(templates.map(template => template.id));
+      const templateOf = (templateId: string | null) => (templateId && templateIds.has(templateId) ? templateId : null);
+
+      const uploads = new Map<string, UploadedImage>();
+      for (const image of plan.images.add) {
+        if (!uploads.has(image.file)) uploads.set(image.file, await uploadImage(user.id, files.get(image.file), image.mimeType));
+      }
+
+      // Oldest first, so an image's original is in place before its variations
+      const imageRows: TablesInsert<'generations'>[] = [...plan.images.add]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(image => {
+          const { storagePath, url, thumbnailUrl } = uploads.get(image.file);
+          return {
+            id: ids.get(image.id),
+            kind: 'image',
+            prompt: image.prompt,
+            model: image.model,
+            output: url,
+            thumbnail_url: thumbnailUrl,
+            storage_path: storagePath,
+            mime_type: image.mimeType,
+            width: image.width,
+            height: image.height,
+            settings: image.settings as TablesInsert<'generations'>['settings'],
+            parent_id: resolve(image.parentId),
+            batch_id: image.batchId,
+            cached: image.cached,
+            template_id: templateOf(image.templateId),
+            variables: image.variables,
+            created_at: image.createdAt,
+          };
+        });
+
+      const textRows: TablesInsert<'generations'>[] = plan.texts.add.map(text => ({
+        id: ids.get(text.id),
+        kind: 'text',
+        prompt: text.prompt,
+        // Custom styles move to their new ids; built-in keys stay as they are
+        style: text.style && ids.has(text.style) ? ids.get(text.style) : text.style,
+        model: text.model,
+        output: text.output,
+        settings: text.params as TablesInsert<'generations'>['settings'],
+        cached: text.cached,
+        template_id: templateOf(text.templateId),
+        variables: text.variables,
+        output_schema: text.outputSchema as TablesInsert<'generations'>['output_schema'],
+        created_at: text.createdAt,
+        edited_at: text.editedAt,
+      }));
+
+      const versionRows: TablesInsert<'generation_versions'>[] = plan.texts.add.flatMap(text =>
+        text.versions.map(version => ({
+          id: ids.get(version.id),
+          generation_id: ids.get(text.id),
+          source: version.source,
+          output: version.output,
+          model: version.model,
+          restored_from: resolve(version.restoredFrom),
+          created_at: version.createdAt,
+        }))
+      );
+
+      await inBatches(imageRows, batch => supabase.from('generations').insert(batch));
+      await inBatches(textRows, batch => supabase.from('generations').insert(batch));
+      await inBatches(versionRows, batch => supabase.from('generation_versions').insert(batch));
+
+      for (const key of plan.settings.add) {
+        localStorage.setItem(userStorageKey(key, user.id), JSON.stringify(manifest.settings[key]));
+      }
+
+      if (plan.mode === 'replace') await removeReplaced(user.id, existing, manifest);
+    },
+    // Even an import that stopped partway may have changed things
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: generationsQueryKey('text') });
+      queryClient.invalidateQueries({ queryKey: generationsQueryKey('image') });
+      queryClient.invalidateQueries({ queryKey: ['generation-versions'] });
+      queryClient.invalidateQueries({ queryKey: writingStylesQueryKey });
+    },
+  });
+};
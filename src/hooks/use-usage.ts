@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { invokeFunction } from '@/lib/functions';
+import type { GenerationKind } from '@/hooks/use-generations';
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface Usage {
+  plan: string;
+  usage: Partial<Record<GenerationKind, QuotaUsage>>;
+  resetsAt: string;
+}
+
+export const usageQueryKey = ['usage'] as const;
+
+export const useUsage = () =>
+  useQuery({
+    queryKey: usageQueryKey,
+    queryFn: () => invokeFunction<Usage>('usage', { method: 'GET' }),
+    // Other tabs and devices spend from the same quota
+    refetchInterval: 60_000,
+  });
@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { writingStylesQueryKey } from '@/hooks/use-writing-styles';
+import { invokeFunction } from '@/lib/functions';
+import type { WorkspaceRequest } from '@shared/schemas';
+
+export type Workspace = Tables<'workspaces'> & { memberCount: number };
+
+export const workspaceQueryKey = ['workspace'] as const;
+
+// RLS only shows the workspace the user belongs to, if any
+const fetchWorkspace = async (): Promise<Workspace | null> => {
+  const { data, error } = await supabase.from('workspaces').select('*').maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const { count, error: countError } = await supabase
+    .from('workspace_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('workspace_id', data.id);
+  if (countError) throw countError;
+
+  return { ...data, memberCount: count ?? 1 };
+};
+
+export const useWorkspace = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: workspaceQueryKey,
+    queryFn: fetchWorkspace,
+    enabled: !!user,
+  });
+};
+
+// Create, join or leave; shared styles come and go with the membership
+export const useWorkspaceAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: WorkspaceRequest) => invokeFunction<Tables<'workspaces'> | null>('workspace', { body: request }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceQueryKey });
+      queryClient.invalidateQueries({ queryKey: writingStylesQueryKey });
+    },
+  });
+};
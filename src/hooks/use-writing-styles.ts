@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { invokeFunction } from '@/lib/functions';
+import { toWritingStyle, writingStyles } from '@/lib/writing-styles';
+import type { WritingStyleValues } from '@shared/schemas';
+
+export type CustomWritingStyle = Tables<'writing_styles'>;
+
+export const writingStylesQueryKey = ['writing-styles'] as const;
+
+// The caller's own styles plus those shared with their workspace (enforced by RLS)
+const fetchWritingStyles = async () => {
+  const { data, error } = await supabase
+    .from('writing_styles')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+export const useWritingStyles = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: writingStylesQueryKey,
+    queryFn: fetchWritingStyles,
+    enabled: !!user,
+  });
+};
+
+/**
+ * Every style the user can pick: the built-ins, then their own, then those
+ * shared by the rest of their workspace.
+ */
+export const useWritingStyleOptions = () => {
+  const { user } = useAuth();
+  const { data: customStyles = [] } = useWritingStyles();
+  const own = customStyles.filter(style => style.user_id === user?.id);
+  const shared = customStyles.filter(style => style.user_id !== user?.id);
+
+  return {
+    own,
+    shared,
+    styles: [...writingStyles, ...own.map(toWritingStyle), ...shared.map(toWritingStyle)],
+  };
+};
+
+// The form's values for an existing style
+export const toWritingStyleValues = (style: CustomWritingStyle): WritingStyleValues => ({
+  name: style.name,
+  emoji: style.emoji,
+  systemPrompt: style.system_prompt,
+  temperature: style.temperature,
+  examples: style.examples,
+  shared: style.workspace_id !== null,
+});
+
+// Writes go through the styles function, which validates them against the shared schema
+export const useSaveWritingStyle = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, style }: { id?: string; style: WritingStyleValues }) => {
+      const saved = await invokeFunction<CustomWritingStyle>('styles', {
+        body: id ? { action: 'update', id, style } : { action: 'create', style },
+      });
+      if (!saved) throw new Error('The style could not be saved');
+      return saved;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: writingStylesQueryKey });
+    },
+  });
+};
+
+export const useDeleteWritingStyle = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await invokeFunction('styles', { body: { action: 'delete', id } });
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<CustomWritingStyle[]>(writingStylesQueryKey, prev => prev?.filter(style => style.id !== id));
+    },
+  });
+};
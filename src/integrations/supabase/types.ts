@@ -14,16 +14,519 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      credit_ledger: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          job_id: string | null
+          kind: Database["public"]["Enums"]["generation_kind"]
+          refund_of: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind: Database["public"]["Enums"]["generation_kind"]
+          refund_of?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind?: Database["public"]["Enums"]["generation_kind"]
+          refund_of?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_refund_of_fkey"
+            columns: ["refund_of"]
+            isOneToOne: false
+            referencedRelation: "credit_ledger"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          error_code: string | null
+          id: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          request: Json
+          result: Json | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["job_status"]
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          request: Json
+          result?: Json | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["job_status"]
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["generation_kind"]
+          request?: Json
+          result?: Json | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["job_status"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      generation_versions: {
+        Row: {
+          created_at: string
+          generation_id: string
+          id: string
+          model: string | null
+          output: string
+          restored_from: string | null
+          source: Database["public"]["Enums"]["generation_version_source"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          generation_id: string
+          id?: string
+          model?: string | null
+          output: string
+          restored_from?: string | null
+          source: Database["public"]["Enums"]["generation_version_source"]
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          generation_id?: string
+          id?: string
+          model?: string | null
+          output?: string
+          restored_from?: string | null
+          source?: Database["public"]["Enums"]["generation_version_source"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_versions_generation_id_fkey"
+            columns: ["generation_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "generation_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generations: {
+        Row: {
+          batch_id: string | null
+          cached: boolean
+          created_at: string
+          edited_at: string | null
+          height: number | null
+          id: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          mime_type: string | null
+          model: string | null
+          output: string
+          output_schema: Json | null
+          parent_id: string | null
+          prompt: string
+          settings: Json | null
+          storage_path: string | null
+          style: string | null
+          template_id: string | null
+          thumbnail_url: string | null
+          user_id: string
+          variables: Json | null
+          width: number | null
+        }
+        Insert: {
+          batch_id?: string | null
+          cached?: boolean
+          created_at?: string
+          edited_at?: string | null
+          height?: number | null
+          id?: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          mime_type?: string | null
+          model?: string | null
+          output: string
+          output_schema?: Json | null
+          parent_id?: string | null
+          prompt: string
+          settings?: Json | null
+          storage_path?: string | null
+          style?: string | null
+          template_id?: string | null
+          thumbnail_url?: string | null
+          user_id?: string
+          variables?: Json | null
+          width?: number | null
+        }
+        Update: {
+          batch_id?: string | null
+          cached?: boolean
+          created_at?: string
+          edited_at?: string | null
+          height?: number | null
+          id?: string
+          kind?: Database["public"]["Enums"]["generation_kind"]
+          mime_type?: string | null
+          model?: string | null
+          output?: string
+          output_schema?: Json | null
+          parent_id?: string | null
+          prompt?: string
+          settings?: Json | null
+          storage_path?: string | null
+          style?: string | null
+          template_id?: string | null
+          thumbnail_url?: string | null
+          user_id?: string
+          variables?: Json | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generations_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      json_schemas: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          schema: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          schema: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          schema?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      plan_limits: {
+        Row: {
+          daily_limit: number
+          kind: Database["public"]["Enums"]["generation_kind"]
+          plan: Database["public"]["Enums"]["plan_tier"]
+        }
+        Insert: {
+          daily_limit: number
+          kind: Database["public"]["Enums"]["generation_kind"]
+          plan: Database["public"]["Enums"]["plan_tier"]
+        }
+        Update: {
+          daily_limit?: number
+          kind?: Database["public"]["Enums"]["generation_kind"]
+          plan?: Database["public"]["Enums"]["plan_tier"]
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          body: string
+          created_at: string
+          fields: Json
+          id: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          fields?: Json
+          id?: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          name: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          fields?: Json
+          id?: string
+          kind?: Database["public"]["Enums"]["generation_kind"]
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      response_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          key: string
+          response: Json
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          key: string
+          response: Json
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          key?: string
+          response?: Json
+        }
+        Relationships: []
+      }
+      user_plans: {
+        Row: {
+          plan: Database["public"]["Enums"]["plan_tier"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          plan?: Database["public"]["Enums"]["plan_tier"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          plan?: Database["public"]["Enums"]["plan_tier"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          joined_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          joined_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          joined_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          invite_code: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invite_code?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invite_code?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      writing_styles: {
+        Row: {
+          created_at: string
+          emoji: string
+          examples: string[]
+          id: string
+          name: string
+          system_prompt: string
+          temperature: number
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          examples?: string[]
+          id?: string
+          name: string
+          system_prompt: string
+          temperature?: number
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          examples?: string[]
+          id?: string
+          name?: string
+          system_prompt?: string
+          temperature?: number
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "writing_styles_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      current_workspace_id: {
+        Args: never
+        Returns: string
+      }
+      debit_credits: {
+        Args: {
+          p_amount?: number
+          p_job_id?: string
+          p_kind: Database["public"]["Enums"]["generation_kind"]
+          p_user_id: string
+        }
+        Returns: string
+      }
+      fail_stale_jobs: {
+        Args: { p_user_id?: string }
+        Returns: number
+      }
+      get_usage: {
+        Args: { p_user_id: string }
+        Returns: {
+          daily_limit: number
+          kind: Database["public"]["Enums"]["generation_kind"]
+          plan: Database["public"]["Enums"]["plan_tier"]
+          used: number
+        }[]
+      }
+      quota_window_start: {
+        Args: never
+        Returns: string
+      }
+      refund_credits: {
+        Args: { p_entry_id: string }
+        Returns: undefined
+      }
+      revise_generation: {
+        Args: {
+          p_generation_id: string
+          p_model?: string
+          p_output: string
+          p_restored_from?: string
+          p_source: Database["public"]["Enums"]["generation_version_source"]
+        }
+        Returns: {
+          batch_id: string | null
+          cached: boolean
+          created_at: string
+          edited_at: string | null
+          height: number | null
+          id: string
+          kind: Database["public"]["Enums"]["generation_kind"]
+          mime_type: string | null
+          model: string | null
+          output: string
+          output_schema: Json | null
+          parent_id: string | null
+          prompt: string
+          settings: Json | null
+          storage_path: string | null
+          style: string | null
+          template_id: string | null
+          thumbnail_url: string | null
+          user_id: string
+          variables: Json | null
+          width: number | null
+        }
+      }
     }
     Enums: {
-      [_ in never]: never
+      generation_kind: "text" | "image"
+      generation_version_source: "generated" | "regenerated" | "ai_edit" | "manual_edit" | "restored"
+      job_status: "queued" | "running" | "succeeded" | "failed"
+      plan_tier: "free" | "pro" | "team"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +653,11 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      generation_kind: ["text", "image"],
+      generation_version_source: ["generated", "regenerated", "ai_edit", "manual_edit", "restored"],
+      job_status: ["queued", "running", "succeeded", "failed"],
+      plan_tier: ["free", "pro", "team"],
+    },
   },
 } as const
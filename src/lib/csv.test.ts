@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, newlines and doubled quotes', () => {
+    const table = parseCsv('name,quote\r\nAda,"Hello, ""world""\nagain"\r\n');
+    expect(table.headers).toEqual(['name', 'quote']);
+    expect(table.rows).toEqual([{ name: 'Ada', quote: 'Hello, "world"\nagain' }]);
+  });
+
+  it('skips blank lines, pads short rows and names unnamed or repeated headers', () => {
+    const table = parseCsv('\uFEFFa,,a\n\n1\n');
+    expect(table.headers).toEqual(['a', 'Column 2', 'a (3)']);
+    expect(table.rows).toEqual([{ a: '1', 'Column 2': '', 'a (3)': '' }]);
+  });
+});
+
+describe('toCsv', () => {
+  it('starts with a byte order mark and keeps formulas as text', () => {
+    const csv = toCsv(['cell'], [{ cell: '=SUM(A1:A2)' }, { cell: '-1' }]);
+    expect(csv).toBe("\uFEFFcell\r\n'=SUM(A1:A2)\r\n'-1");
+  });
+
+  it('round-trips through parseCsv', () => {
+    const headers = ['prompt', 'output'];
+    const rows = [
+      { prompt: 'Plain', output: 'Text' },
+      { prompt: 'With "quotes", commas', output: 'Two\r\nlines' },
+      { prompt: 'ünïcödé 🎉', output: '' },
+    ];
+    expect(parseCsv(toCsv(headers, rows))).toEqual({ headers, rows });
+  });
+});
@@ -0,0 +1,87 @@
+export interface CsvTable {
+  headers: string[];
+  // One object per data row, keyed by header
+  rows: Record<string, string>[];
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled
+ * quotes. The first row is the header; blank lines are skipped and short rows
+ * are padded with empty values.
+ */
+export const parseCsv = (text: string): CsvTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip the byte order mark spreadsheet apps like to add
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(values => values.some(value => value.trim()));
+  const [headerRow = [], ...dataRows] = nonEmpty;
+  // Unnamed or repeated headers still need distinct keys
+  const seen = new Set<string>();
+  const headers = headerRow.map((header, index) => {
+    let name = header.trim() || `Column ${index + 1}`;
+    if (seen.has(name)) name = `${name} (${index + 1})`;
+    seen.add(name);
+    return name;
+  });
+
+  return {
+    headers,
+    rows: dataRows.map(values => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']))),
+  };
+};
+
+// Spreadsheet apps run cells starting with these as formulas, so they are kept as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeField = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes CSV that opens safely in Excel: a byte order mark so UTF-8 is read as
+ * such, and a leading `'` on any cell that would otherwise run as a formula.
+ */
+export const toCsv = (headers: string[], rows: Record<string, string>[]) =>
+  '\uFEFF' +
+  [headers, ...rows.map(row => headers.map(header => row[header] ?? ''))]
+    .map(values => values.map(escapeField).join(','))
+    .join('\r\n');
+
+export const toJsonLines = (rows: Record<string, unknown>[]) => rows.map(row => JSON.stringify(row)).join('\n');
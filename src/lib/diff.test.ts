@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffWords } from './diff';
+
+describe('diffWords', () => {
+  it('marks replaced words and keeps the rest', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+    ]);
+  });
+
+  it('rebuilds both texts from the parts', () => {
+    const before = 'One line.\nAnother, with punctuation!';
+    const after = 'One new line.\nAnother with more punctuation?';
+    const parts = diffWords(before, after);
+    expect(parts.filter(part => part.type !== 'insert').map(part => part.text).join('')).toBe(before);
+    expect(parts.filter(part => part.type !== 'delete').map(part => part.text).join('')).toBe(after);
+  });
+
+  it('returns a single equal part for identical texts', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'equal', text: 'Same text' }]);
+  });
+});
+
+describe('countChanges', () => {
+  it('counts words, not whitespace or punctuation', () => {
+    expect(countChanges(diffWords('a b c', 'a x, y c'))).toEqual({ added: 2, removed: 1 });
+  });
+});
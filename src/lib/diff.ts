@@ -0,0 +1,79 @@
+export type DiffPart = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+// Above this many word pairs the middle of the texts is shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words, runs of whitespace and single punctuation marks, so every character lands in a token
+const tokenize = (text: string) => text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * A word-level diff of `before` into `after`: the longest common subsequence
+ * of tokens is kept and the rest shown as deletions and insertions. Shared
+ * leading and trailing words are trimmed first, so small edits to long texts
+ * stay cheap.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    push(parts, 'delete', oldMiddle.join(''));
+    push(parts, 'insert', newMiddle.join(''));
+  } else {
+    // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        push(parts, 'equal', oldMiddle[i++]);
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        push(parts, 'delete', oldMiddle[i++]);
+      } else {
+        push(parts, 'insert', newMiddle[j++]);
+      }
+    }
+    push(parts, 'delete', oldMiddle.slice(i).join(''));
+    push(parts, 'insert', newMiddle.slice(j).join(''));
+  }
+
+  push(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
+
+// Words added and removed, for a one-line summary of a diff
+export const countChanges = (parts: DiffPart[]) => {
+  const count = (type: DiffPart['type']) =>
+    parts.filter(part => part.type === type).reduce((total, part) => total + (part.text.match(/[\p{L}\p{N}]+/gu)?.length ?? 0), 0);
+  return { added: count('insert'), removed: count('delete') };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { toDocx } from './docx';
+import { parseMarkdown } from './markdown';
+import { readZip } from './zip';
+
+const decode = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+describe('toDocx', () => {
+  it('packages the document parts Word needs', async () => {
+    const files = await readZip(toDocx('Doc', [{ title: 'Title', details: 'Details', blocks: parseMarkdown('Hello') }]));
+    expect([...files.keys()].sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/numbering.xml',
+      'word/styles.xml',
+    ]);
+  });
+
+  it('escapes text and links external URLs through relationships', async () => {
+    const blocks = parseMarkdown('Fish & <chips> at [the shop](https://example.com/?a=1&b=2)\n\n1. First\n2. Second');
+    const files = await readZip(toDocx('A & B', [{ title: 'Title', details: 'Details', blocks }]));
+    const document = decode(files.get('word/document.xml'));
+    const relationships = decode(files.get('word/_rels/document.xml.rels'));
+
+    expect(document).toContain('>Fish &amp; </w:t>');
+    expect(document).toContain('>&lt;chips&gt;</w:t>');
+    expect(document).not.toContain('<chips>');
+    expect(document).toContain('r:id="rIdLink1"');
+    expect(relationships).toContain('Id="rIdLink1"');
+    expect(relationships).toContain('Target="https://example.com/?a=1&amp;b=2" TargetMode="External"');
+    expect(decode(files.get('docProps/core.xml'))).toContain('<dc:title>A &amp; B</dc:title>');
+    expect(decode(files.get('word/numbering.xml'))).toContain('<w:num w:numId="1">');
+  });
+});
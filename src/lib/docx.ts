@@ -0,0 +1,314 @@
+import type { Block, Inline, TableAlign } from './markdown';
+import type { ExportSection } from './text-export';
+import { createZip } from './zip';
+
+/**
+ * Writes Word documents from parsed Markdown: the handful of parts a .docx
+ * needs (document, styles, numbering, relationships) zipped together. Headings,
+ * lists, quotes, code and tables use named styles, so they can be restyled in
+ * Word afterwards.
+ */
+
+// A4 with one-inch margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LIST_INDENT = 720;
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PACKAGE_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  pageBreakBefore?: boolean;
+  numbering?: { id: number; level: number };
+  border?: boolean;
+  indent?: number;
+  align?: TableAlign;
+}
+
+// Where a block sits: how deep in lists and whether inside a quote
+interface BlockContext {
+  level: number;
+  indent: number;
+  quote: boolean;
+}
+
+// Hyperlink targets and lists met while writing the body, each needing an entry elsewhere
+interface DocumentParts {
+  links: string[];
+  lists: { ordered: boolean; start: number; level: number }[];
+}
+
+// Control characters other than tab and line breaks are not allowed in XML at all
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const runXml = (text: string, style: RunStyle) => {
+  const properties = [
+    style.link ? '<w:rStyle w:val="Hyperlink"/>' : style.code ? '<w:rStyle w:val="CodeChar"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+  ].join('');
+  const content = text
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${properties && `<w:rPr>${properties}</w:rPr>`}${content}</w:r>`;
+};
+
+const inlineXml = (nodes: Inline[], parts: DocumentParts, style: RunStyle = {}): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return runXml(node.text, style);
+        case 'code':
+          return runXml(node.text, { ...style, code: true });
+        case 'break':
+          return '<w:r><w:br/></w:r>';
+        case 'strong':
+          return inlineXml(node.children, parts, { ...style, bold: true });
+        case 'em':
+          return inlineXml(node.children, parts, { ...style, italic: true });
+        case 'del':
+          return inlineXml(node.children, parts, { ...style, strike: true });
+        case 'link':
+          parts.links.push(node.href);
+          return `<w:hyperlink r:id="rIdLink${parts.links.length}" w:history="1">${inlineXml(node.children, parts, { ...style, link: true })}</w:hyperlink>`;
+      }
+    })
+    .join('');
+
+// Properties in the order the schema requires
+const paragraphXml = (content: string, options: ParagraphOptions = {}) => {
+  const properties = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    options.numbering ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.id}"/></w:numPr>` : '',
+    options.border ? '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>' : '',
+    options.indent ? `<w:ind w:left="${options.indent}"/>` : '',
+    options.align ? `<w:jc w:val="${options.align}"/>` : '',
+  ].join('');
+  return `<w:p>${properties && `<w:pPr>${properties}</w:pPr>`}${content}</w:p>`;
+};
+
+const tableXml = (block: Extract<Block, { type: 'table' }>, parts: DocumentParts) => {
+  const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+  const width = Math.floor(TEXT_WIDTH / columns);
+  const rowXml = (cells: Inline[][], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${Array.from({ length: columns }, (_, index) => {
+      const content = inlineXml(cells[index] ?? [], parts, { bold: header });
+      return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraphXml(content, { style: 'TableText', align: block.align[index] })}</w:tc>`;
+    }).join('')}</w:tr>`;
+
+  return [
+    '<w:tbl>',
+    '<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>',
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>`,
+    rowXml(block.header, true),
+    ...block.rows.map(row => rowXml(row, false)),
+    '</w:tbl>',
+  ].join('');
+};
+
+const blockXml = (block: Block, parts: DocumentParts, context: BlockContext): string => {
+  const body = context.quote ? 'Quote' : undefined;
+  switch (block.type) {
+    case 'heading':
+      return paragraphXml(inlineXml(block.children, parts), { style: `Heading${block.level}`, indent: context.indent });
+    case 'paragraph':
+      return paragraphXml(inlineXml(block.children, parts), { style: body, indent: context.indent });
+    case 'code':
+      return block.code
+        .split('\n')
+        .map(line => paragraphXml(line ? runXml(line, {}) : '', { style: 'Code', indent: context.indent }))
+        .join('');
+    case 'quote':
+      return block.children
+        .map(child => blockXml(child, parts, { ...context, indent: context.indent + LIST_INDENT, quote: true }))
+        .join('');
+    case 'rule':
+      return paragraphXml('', { border: true, indent: context.indent });
+    case 'table':
+      return tableXml(block, parts);
+    case 'list': {
+      parts.lists.push({ ordered: block.ordered, start: block.start, level: context.level });
+      const numbering = { id: parts.lists.length, level: context.level };
+      const nested = { ...context, level: context.level + 1, indent: LIST_INDENT * (context.level + 1) };
+      return block.items
+        .map((item) => {
+          const [first, ...rest] = item.children;
+          const box = item.checked === null ? '' : runXml(item.checked ? '☒ ' : '☐ ', {});
+          // The item's first paragraph carries the bullet; anything after it is indented to match
+          const lead = first?.type === 'paragraph'
+            ? paragraphXml(box + inlineXml(first.children, parts), { style: 'ListParagraph', numbering })
+            : paragraphXml(box, { style: 'ListParagraph', numbering }) + (first ? blockXml(first, parts, nested) : '');
+          return lead + rest.map(child => blockXml(child, parts, nested)).join('');
+        })
+        .join('');
+    }
+  }
+};
+
+const documentXml = (sections: ExportSection[], parts: DocumentParts) => {
+  const body = sections.map((section, index) =>
+    [
+      paragraphXml(runXml(section.title, {}), { style: 'Title', pageBreakBefore: index > 0 }),
+      paragraphXml(runXml(section.details, {}), { style: 'Subtitle' }),
+      ...section.blocks.map(block => blockXml(block, parts, { level: 0, indent: 0, quote: false })),
+    ].join('')
+  );
+  return [
+    XML_DECLARATION,
+    `<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}"><w:body>`,
+    ...body,
+    `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+    `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`,
+    '</w:body></w:document>',
+  ].join('');
+};
+
+const headingSizes = [32, 28, 26, 24, 22, 22];
+
+const stylesXml = () =>
+  [
+    XML_DECLARATION,
+    `<w:styles xmlns:w="${NS_W}">`,
+    '<w:docDefaults>',
+    '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>',
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+    '</w:docDefaults>',
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Subtitle"/><w:qFormat/>',
+    '<w:pPr><w:keepNext/><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>',
+    '<w:pPr><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="8" w:color="D0D7DE"/></w:pBdr><w:spacing w:after="360"/></w:pPr>',
+    '<w:rPr><w:color w:val="59636E"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>',
+    ...headingSizes.map((size, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`
+    ),
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>',
+    '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D0D7DE"/></w:pBdr></w:pPr><w:rPr><w:i/><w:color w:val="59636E"/></w:rPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>',
+    '<w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>',
+    '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>',
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr></w:style>',
+    '<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/>',
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="EFF1F3"/></w:rPr></w:style>',
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0969DA"/><w:u w:val="single"/></w:rPr></w:style>',
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>',
+    ...['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>`),
+    '</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>',
+    '</w:styles>',
+  ].join('');
+
+const bullets = ['•', '◦', '▪'];
+
+// Nine levels each for bullets (abstract 0) and numbers (abstract 1); every list gets its own instance so numbers restart
+const numberingXml = (lists: DocumentParts['lists']) => {
+  const levels = (ordered: boolean) =>
+    Array.from({ length: 9 }, (_, level) =>
+      `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${ordered ? 'decimal' : 'bullet'}"/>` +
+      `<w:lvlText w:val="${ordered ? `%${level + 1}.` : bullets[level % bullets.length]}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+    ).join('');
+  return [
+    XML_DECLARATION,
+    `<w:numbering xmlns:w="${NS_W}">`,
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>`,
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>`,
+    ...lists.map((list, index) =>
+      `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>` +
+      `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.ordered ? list.start : 1}"/></w:lvlOverride></w:num>`
+    ),
+    '</w:numbering>',
+  ].join('');
+};
+
+const relationshipsXml = (relationships: { id: string; type: string; target: string; external?: boolean }[]) =>
+  [
+    XML_DECLARATION,
+    `<Relationships xmlns="${NS_PACKAGE_RELS}">`,
+    ...relationships.map(({ id, type, target, external }) =>
+      `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+    ),
+    '</Relationships>',
+  ].join('');
+
+const contentTypesXml = () =>
+  [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    '</Types>',
+  ].join('');
+
+const corePropertiesXml = (title: string, created: Date) =>
+  [
+    XML_DECLARATION,
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ',
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>`,
+    '</cp:coreProperties>',
+  ].join('');
+
+export const toDocx = (title: string, sections: ExportSection[]): Blob => {
+  const parts: DocumentParts = { links: [], lists: [] };
+  const document = documentXml(sections, parts);
+  const created = new Date();
+
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: contentTypesXml() },
+    {
+      name: '_rels/.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: `${NS_R}/officeDocument`, target: 'word/document.xml' },
+        { id: 'rId2', type: `${NS_PACKAGE_RELS}/metadata/core-properties`, target: 'docProps/core.xml' },
+      ]),
+    },
+    { name: 'docProps/core.xml', data: corePropertiesXml(title, created) },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: stylesXml() },
+    { name: 'word/numbering.xml', data: numberingXml(parts.lists) },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: `${NS_R}/styles`, target: 'styles.xml' },
+        { id: 'rId2', type: `${NS_R}/numbering`, target: 'numbering.xml' },
+        ...parts.links.map((href, index) => ({ id: `rIdLink${index + 1}`, type: `${NS_R}/hyperlink`, target: href, external: true })),
+      ]),
+    },
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
@@ -0,0 +1,17 @@
+// The most rows the API answers a single request with
+const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row a query matches, a page at a time, since each response is
+ * capped at PAGE_SIZE rows. The query must have a stable order for pages to
+ * line up.
+ */
+export const fetchAllRows = async <T>(fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
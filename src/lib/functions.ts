@@ -0,0 +1,70 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+type InvokeOptions = Parameters<typeof supabase.functions.invoke>[1];
+
+// The `{ error, code, requestId, attempts?, details? }` envelope every edge function answers failures with
+export interface FunctionErrorBody {
+  error: string;
+  code?: string;
+  requestId?: string;
+  // Gateway attempts made before giving up, when more than one
+  attempts?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A failed edge function call. Carries the error code and request id from the
+ * response envelope so failures can be matched up with the function logs.
+ */
+export class FunctionError extends Error {
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly attempts?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, readonly status?: number, body?: Partial<FunctionErrorBody> | null) {
+    super(message);
+    this.name = 'FunctionError';
+    this.code = body?.code;
+    this.requestId = body?.requestId;
+    this.attempts = body?.attempts;
+    this.details = body?.details;
+  }
+}
+
+// "retried 2×" for results that needed more than one gateway attempt
+export const describeRetries = (attempts?: number) =>
+  attempts && attempts > 1 ? `retried ${attempts - 1}×` : null;
+
+/**
+ * The first message for each field of a request the function rejected as
+ * invalid, as `[path, message]` pairs. `prefix` strips the part of the path
+ * outside the form, such as `input.` for jobs.
+ */
+export const getFieldErrors = (error: unknown, prefix = '') => {
+  if (!(error instanceof FunctionError) || error.code !== 'validation_failed') return [];
+  const fields = (error.details?.fields ?? {}) as Record<string, string[]>;
+  return Object.entries(fields)
+    .filter(([path]) => path.startsWith(prefix))
+    .map(([path, messages]) => [path.slice(prefix.length), messages[0]] as const);
+};
+
+/**
+ * Wraps `supabase.functions.invoke` so failures surface the `error` message
+ * from the function's JSON body instead of the generic non-2xx message.
+ */
+export const invokeFunction = async <T>(functionName: string, options?: InvokeOptions) => {
+  const { data, error } = await supabase.functions.invoke<T>(functionName, options);
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body: FunctionErrorBody | null = await error.context.json().catch(() => null);
+      if (body?.requestId) console.error(`${functionName} failed (request ${body.requestId}):`, body);
+      throw new FunctionError(body?.error || error.message, error.context.status, body);
+    }
+    throw new FunctionError(error.message);
+  }
+
+  return data;
+};
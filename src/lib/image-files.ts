@@ -0,0 +1,28 @@
+/**
+ * The image files the studio stores: the types the storage bucket accepts and
+ * how to tell them apart by content rather than by what a file claims to be.
+ */
+
+export const imageMimeTypes = ['image/png', 'image/jpeg', 'image/webp'] as const;
+export type ImageMimeType = typeof imageMimeTypes[number];
+
+// The storage bucket's file size limit
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const imageExtensions: Record<ImageMimeType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export const imageExtension = (mimeType: ImageMimeType) => imageExtensions[mimeType];
+
+const startsWith = (data: Uint8Array, bytes: number[], offset = 0) => bytes.every((byte, index) => data[offset + index] === byte);
+
+// An image's type from its first bytes, whatever it claims to be; null for anything else
+export const sniffImageType = (data: Uint8Array): ImageMimeType | null => {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  return null;
+};
@@ -0,0 +1,21 @@
+import type { ImageSettings } from '@shared/schemas';
+
+// Options and defaults come from the schema generate-image validates against
+export { defaultImageSettings, imageSettingsSchema, MAX_VARIATIONS, resolutions } from '@shared/schemas';
+export type { ImageSettings };
+// The exact size generate-image renders to
+export { getTargetSize } from '@shared/image-size';
+
+export const aspectRatios: { value: ImageSettings['aspectRatio']; label: string; hint: string }[] = [
+  { value: '1:1', label: 'Square', hint: 'Posts, avatars' },
+  { value: '4:5', label: 'Portrait', hint: 'Instagram feed' },
+  { value: '3:2', label: 'Photo', hint: 'Blog headers' },
+  { value: '16:9', label: 'Wide', hint: 'YouTube, slides' },
+  { value: '9:16', label: 'Tall', hint: 'Stories, Reels' },
+];
+
+export const outputFormats: { value: ImageSettings['format']; label: string; lossy: boolean }[] = [
+  { value: 'png', label: 'PNG', lossy: false },
+  { value: 'jpeg', label: 'JPEG', lossy: true },
+  { value: 'webp', label: 'WebP', lossy: true },
+];
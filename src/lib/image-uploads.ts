@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import { sha256 } from '@shared/hash';
+import { imageExtension, ImageMimeType } from './image-files';
+import { createThumbnail } from './thumbnail';
+
+export const IMAGES_BUCKET = 'generated-images';
+
+// Images the user brings in go under their own folder, each with a JPEG thumbnail named by the image's hash
+export const uploadsFolder = (userId: string) => `uploads/${userId}/`;
+export const uploadedThumbnailPath = (userId: string, hash: string) => `${uploadsFolder(userId)}thumbnails/${hash}.jpg`;
+
+// Uploads are named by content hash, so one already at its path holds the same image
+const alreadyUploaded = (error: Error) => 'statusCode' in error && error.statusCode === '409';
+
+export interface UploadedImage {
+  storagePath: string;
+  url: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Uploads an image from the browser, e.g. out of a studio archive, named by its
+ * content hash like generated images and with a thumbnail like theirs. Files
+ * are never overwritten; uploading the same image again is a no-op.
+ */
+export const uploadImage = async (userId: string, data: Uint8Array, mimeType: ImageMimeType): Promise<UploadedImage> => {
+  const hash = await sha256(data);
+  const storagePath = `${uploadsFolder(userId)}${hash}.${imageExtension(mimeType)}`;
+  const thumbnailPath = uploadedThumbnailPath(userId, hash);
+  const thumbnail = await createThumbnail(new Blob([data], { type: mimeType }));
+
+  const storage = supabase.storage.from(IMAGES_BUCKET);
+  const results = await Promise.all([
+    storage.upload(storagePath, data, { contentType: mimeType }),
+    storage.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' }),
+  ]);
+  for (const { error } of results) {
+    if (error && !alreadyUploaded(error)) throw error;
+  }
+
+  return {
+    storagePath,
+    url: storage.getPublicUrl(storagePath).data.publicUrl,
+    thumbnailUrl: storage.getPublicUrl(thumbnailPath).data.publicUrl,
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * Markdown as a small tree of blocks and inline marks, for exporters that
+ * write their own formats (HTML, Word, PDF). Parsing is CommonMark with GitHub
+ * extensions via mdast; this only narrows its tree to the parts the exporters
+ * know. Raw HTML is kept as text, so writing it out can never inject markup.
+ */
+import type { Nodes, PhrasingContent, RootContent } from 'mdast';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  // null for an ordinary item, else whether its task box is ticked
+  checked: boolean | null;
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+// Only these schemes are linked; anything else (javascript:, data:) keeps just its text
+const safeUrlPattern = /^(https?:|mailto:)/i;
+
+export const isSafeUrl = (url: string) => safeUrlPattern.test(url.trim());
+
+// Plain text of inline nodes, e.g. for heading anchors or table widths
+export const inlineText = (nodes: Inline[]): string =>
+  nodes.map((node) => ('children' in node ? inlineText(node.children) : node.type === 'break' ? '\n' : node.text)).join('');
+
+// Link definitions by identifier, for reference-style links
+type Definitions = Map<string, string>;
+
+const collectDefinitions = (node: Nodes, definitions: Definitions) => {
+  if (node.type === 'definition' && !definitions.has(node.identifier)) definitions.set(node.identifier, node.url);
+  if ('children' in node) for (const child of node.children) collectDefinitions(child, definitions);
+  return definitions;
+};
+
+// A link to `url` when it is safe, else just its text
+const linkOrText = (url: string | undefined, children: Inline[]): Inline[] =>
+  url && isSafeUrl(url) ? [{ type: 'link', href: url, children }] : children;
+
+const toInline = (nodes: PhrasingContent[], definitions: Definitions): Inline[] =>
+  nodes.flatMap((node): Inline[] => {
+    switch (node.type) {
+      case 'text':
+      case 'html':
+        return [{ type: 'text', text: node.value }];
+      case 'inlineCode':
+        return [{ type: 'code', text: node.value }];
+      case 'strong':
+        return [{ type: 'strong', children: toInline(node.children, definitions) }];
+      case 'emphasis':
+        return [{ type: 'em', children: toInline(node.children, definitions) }];
+      case 'delete':
+        return [{ type: 'del', children: toInline(node.children, definitions) }];
+      case 'break':
+        return [{ type: 'break' }];
+      case 'link':
+        return linkOrText(node.url, toInline(node.children, definitions));
+      case 'linkReference':
+        return linkOrText(definitions.get(node.identifier), toInline(node.children, definitions));
+      // Images are linked rather than embedded, as exports do not fetch remote files
+      case 'image':
+        return linkOrText(node.url, [{ type: 'text', text: node.alt || node.url }]);
+      case 'imageReference':
+        return linkOrText(definitions.get(node.identifier), [{ type: 'text', text: node.alt || node.label || '' }]);
+      case 'footnoteReference':
+        return [{ type: 'text', text: `[^${node.label ?? node.identifier}]` }];
+      default:
+        return [];
+    }
+  });
+
+const toAlign = (align: string | null | undefined): TableAlign =>
+  align === 'left' || align === 'center' || align === 'right' ? align : null;
+
+const toBlocks = (nodes: RootContent[], definitions: Definitions): Block[] =>
+  nodes.flatMap((node): Block[] => {
+    switch (node.type) {
+      case 'heading':
+        return [{ type: 'heading', level: node.depth, children: toInline(node.children, definitions) }];
+      case 'paragraph':
+        return [{ type: 'paragraph', children: toInline(node.children, definitions) }];
+      case 'html':
+        return [{ type: 'paragraph', children: [{ type: 'text', text: node.value }] }];
+      case 'code':
+        return [{ type: 'code', lang: (node.lang ?? '').toLowerCase(), code: node.value }];
+      case 'blockquote':
+        return [{ type: 'quote', children: toBlocks(node.children, definitions) }];
+      case 'list':
+        return [{
+          type: 'list',
+          ordered: !!node.ordered,
+          start: node.ordered ? node.start ?? 1 : 1,
+          items: node.children.map((item) => ({
+            checked: item.checked ?? null,
+            children: toBlocks(item.children, definitions),
+          })),
+        }];
+      case 'table': {
+        const [header, ...rows] = node.children.map((row) => row.children.map((cell) => toInline(cell.children, definitions)));
+        const columns = header?.length ?? 0;
+        return [{
+          type: 'table',
+          align: Array.from({ length: columns }, (_, column) => toAlign(node.align?.[column])),
+          header: header ?? [],
+          // Short rows are padded and long ones cut to the header's width
+          rows: rows.map((cells) => Array.from({ length: columns }, (_, column) => cells[column] ?? [])),
+        }];
+      }
+      case 'thematicBreak':
+        return [{ type: 'rule' }];
+      case 'footnoteDefinition':
+        return toBlocks(node.children, definitions);
+      default:
+        return [];
+    }
+  });
+
+export const parseMarkdown = (source: string): Block[] => {
+  const root = fromMarkdown(source, { extensions: [gfm()], mdastExtensions: [gfmFromMarkdown()] });
+  return toBlocks(root.children, collectDefinitions(root, new Map()));
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown } from './markdown';
+import { missingCharacters, toPdf } from './pdf';
+
+const section = (markdown: string, title = 'Title') => ({ title, details: 'Creative style', blocks: parseMarkdown(markdown) });
+
+describe('missingCharacters', () => {
+  it('lists characters the standard fonts cannot print, once each', () => {
+    expect(missingCharacters([section('Café – “quoted” … 你好 你', 'Emoji 🎉')])).toEqual(['🎉', '你', '好']);
+  });
+
+  it('looks inside code, lists and tables', () => {
+    const markdown = '```\nλ\n```\n\n- Ω\n\n| a |\n|---|\n| ж |';
+    expect(missingCharacters([section(markdown)])).toEqual(['λ', 'Ω', 'ж']);
+  });
+});
+
+describe('toPdf', () => {
+  it('writes an ASCII PDF whose cross-reference table points at its objects', async () => {
+    const blob = toPdf('Résumé', [section('# Heading\n\nSome **bold** text with a [link](https://example.com) and “quotes”.')]);
+    const pdf = await blob.text();
+
+    expect(blob.type).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(/^[\x20-\x7e\n]*$/.test(pdf)).toBe(true);
+    expect(pdf).toContain('/URI (https://example.com)');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    expect(pdf.slice(xrefOffset).startsWith('xref\n')).toBe(true);
+    const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+  });
+});
@@ -0,0 +1,499 @@
+import { Block, Inline, inlineText, TableAlign } from './markdown';
+import type { ExportSection } from './text-export';
+
+/**
+ * Writes PDF documents from parsed Markdown without any font files: text is
+ * set in the standard Helvetica and Courier fonts every PDF reader has, using
+ * their published widths to wrap lines. Those fonts only cover Western European
+ * characters (WinAnsi); anything else prints as "?", which `missingCharacters`
+ * reports beforehand so the user can be told.
+ */
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+
+type FontName = 'regular' | 'bold' | 'italic' | 'boldItalic' | 'mono';
+type Color = [number, number, number];
+
+const fonts: Record<FontName, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+  boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique' },
+  mono: { resource: 'F5', baseFont: 'Courier' },
+};
+
+const colors: Record<'text' | 'muted' | 'link' | 'codeBackground' | 'border' | 'headerBackground', Color> = {
+  text: [0.12, 0.14, 0.16],
+  muted: [0.35, 0.39, 0.43],
+  link: [0.04, 0.41, 0.85],
+  codeBackground: [0.965, 0.973, 0.98],
+  border: [0.82, 0.84, 0.87],
+  headerBackground: [0.94, 0.95, 0.96],
+};
+
+// Advance widths of printable ASCII (32–126) in thousandths of the font size, from the standard font metrics
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const helveticaBoldWidths = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typographic characters WinAnsi places in 0x80–0x9F, with their Helvetica widths
+const winAnsiExtras: Record<string, [code: number, width: number]> = {
+  '€': [0x80, 556],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '™': [0x99, 1000],
+};
+
+// Whether the standard fonts can print a character; tabs and line breaks are laid out as spaces and lines
+const isPrintable = (char: string) => {
+  const code = char.charCodeAt(0);
+  return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || char in winAnsiExtras;
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/\t/g, '    '), (char) => (isPrintable(char) || char === '\n' ? char : '?')).join('');
+
+// Text of a block as it would be printed
+const blockText = (block: Block): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'code':
+      return block.code;
+    case 'quote':
+      return block.children.map(blockText).join('\n');
+    case 'list':
+      return block.items.flatMap((item) => item.children).map(blockText).join('\n');
+    case 'table':
+      return [block.header, ...block.rows].flat().map(inlineText).join('\n');
+    case 'rule':
+      return '';
+  }
+};
+
+// Characters in the sections that would print as "?", each once
+export const missingCharacters = (sections: ExportSection[]) => {
+  const text = sections.map((section) => [section.title, section.details, ...section.blocks.map(blockText)].join('\n')).join('\n');
+  return [...new Set(Array.from(text.replace(/[\t\n]/g, ''))).values()].filter((char) => !isPrintable(char));
+};
+
+const charWidth = (char: string, font: FontName) => {
+  if (font === 'mono') return 600;
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return (font === 'bold' || font === 'boldItalic' ? helveticaBoldWidths : helveticaWidths)[code - 32];
+  return winAnsiExtras[char]?.[1] ?? 556;
+};
+
+const measure = (text: string, font: FontName, size: number) =>
+  (Array.from(text).reduce((total, char) => total + charWidth(char, font), 0) * size) / 1000;
+
+// A PDF literal string; bytes outside ASCII are written as octal escapes so the file stays ASCII
+const pdfString = (text: string) =>
+  `(${Array.from(text, (char) => {
+    const code = winAnsiExtras[char]?.[0] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    return code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : char;
+  }).join('')})`;
+
+// Metadata strings may hold any character, so they are UTF-16 with a byte order mark
+const pdfTextString = (text: string) =>
+  `<FEFF${Array.from({ length: text.length }, (_, index) => text.charCodeAt(index).toString(16).padStart(4, '0')).join('').toUpperCase()}>`;
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+const fillColor = ([r, g, b]: Color) => `${num(r)} ${num(g)} ${num(b)} rg`;
+const strokeColor = ([r, g, b]: Color) => `${num(r)} ${num(g)} ${num(b)} RG`;
+
+// Layout
+
+interface Piece {
+  text: string;
+  font: FontName;
+  color: Color;
+  strike?: boolean;
+  href?: string;
+}
+
+interface Segment extends Piece {
+  x: number;
+  width: number;
+}
+
+interface Line {
+  segments: Segment[];
+  width: number;
+}
+
+interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  href?: string;
+}
+
+const pickFont = ({ bold, italic }: InlineStyle): FontName =>
+  bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular';
+
+const toPieces = (nodes: Inline[], color: Color, style: InlineStyle = {}): Piece[] =>
+  nodes.flatMap((node): Piece[] => {
+    const linkColor = style.href ? colors.link : color;
+    switch (node.type) {
+      case 'text':
+        return [{ text: toWinAnsi(node.text), font: pickFont(style), color: linkColor, strike: style.strike, href: style.href }];
+      case 'code':
+        return [{ text: toWinAnsi(node.text), font: 'mono', color: linkColor, strike: style.strike, href: style.href }];
+      case 'break':
+        return [{ text: '\n', font: 'regular', color }];
+      case 'strong':
+        return toPieces(node.children, color, { ...style, bold: true });
+      case 'em':
+        return toPieces(node.children, color, { ...style, italic: true });
+      case 'del':
+        return toPieces(node.children, color, { ...style, strike: true });
+      case 'link':
+        return toPieces(node.children, color, { ...style, href: node.href });
+    }
+  });
+
+const sameStyle = (a: Piece, b: Piece) => a.font === b.font && a.color === b.color && a.strike === b.strike && a.href === b.href;
+
+/**
+ * Breaks pieces into lines no wider than `width`, collapsing runs of spaces
+ * as HTML does. Words longer than a whole line are split between letters.
+ */
+const wrap = (pieces: Piece[], width: number, size: number): Line[] => {
+  const lines: Line[] = [];
+  let segments: Segment[] = [];
+  let x = 0;
+  let space = 0;
+
+  const endLine = () => {
+    lines.push({ segments, width: x });
+    segments = [];
+    x = 0;
+    space = 0;
+  };
+
+  const place = (piece: Piece, text: string, textWidth: number) => {
+    const start = segments.length > 0 ? x + space : 0;
+    const previous = segments[segments.length - 1];
+    if (previous && sameStyle(previous, piece)) {
+      previous.text += (space ? ' ' : '') + text;
+      previous.width = start + textWidth - previous.x;
+    } else {
+      segments.push({ ...piece, text, x: start, width: textWidth });
+    }
+    x = start + textWidth;
+    space = 0;
+  };
+
+  for (const piece of pieces) {
+    if (piece.text === '\n') {
+      endLine();
+      continue;
+    }
+    for (const token of piece.text.match(/\s+|\S+/g) ?? []) {
+      if (/^\s/.test(token)) {
+        if (segments.length > 0) space = measure(' ', piece.font, size);
+        continue;
+      }
+      let word = token;
+      let wordWidth = measure(word, piece.font, size);
+      if (segments.length > 0 && x + space + wordWidth > width) endLine();
+      while (wordWidth > width) {
+        let fit = 1;
+        while (fit < word.length && measure(word.slice(0, fit + 1), piece.font, size) <= width) fit++;
+        place(piece, word.slice(0, fit), measure(word.slice(0, fit), piece.font, size));
+        endLine();
+        word = word.slice(fit);
+        wordWidth = measure(word, piece.font, size);
+      }
+      if (word) place(piece, word, wordWidth);
+    }
+  }
+  if (segments.length > 0 || lines.length === 0) endLine();
+  return lines;
+};
+
+// Hard-wraps code at a fixed number of columns, keeping its spacing
+const wrapCode = (code: string, columns: number) =>
+  toWinAnsi(code)
+    .split('\n')
+    .flatMap(line => (line.length <= columns ? [line] : line.match(new RegExp(`.{1,${columns}}`, 'g'))));
+
+interface Page {
+  ops: string[];
+  links: { rect: number[]; href: string }[];
+}
+
+// Where a block is laid out: its left edge, width, text colour and the quote bars beside it
+interface BlockContext {
+  x: number;
+  width: number;
+  color: Color;
+  quoteBars: number[];
+}
+
+const headingSizes = [18, 15, 13, 12, 11, 11];
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+const CODE_SIZE = 9;
+const CODE_LEADING = 12;
+const TABLE_SIZE = 9.5;
+const TABLE_LEADING = 13;
+
+const layout = (sections: ExportSection[]) => {
+  const pages: Page[] = [];
+  let page: Page;
+  let y = 0;
+  // A list bullet waiting to be drawn beside the next line
+  let marker: { text: string; x: number; font: FontName; color: Color } | null = null;
+
+  const newPage = () => {
+    page = { ops: [], links: [] };
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  const space = (height: number) => {
+    // Spacing is dropped at the top of a page
+    if (y < PAGE_HEIGHT - MARGIN) y -= height;
+  };
+
+  const text = (value: string, x: number, baseline: number, font: FontName, size: number, color: Color) =>
+    page.ops.push(`BT /${fonts[font].resource} ${num(size)} Tf ${fillColor(color)} ${num(x)} ${num(baseline)} Td ${pdfString(value)} Tj ET`);
+
+  const rect = (x: number, top: number, width: number, height: number, color: Color, stroke = false) =>
+    page.ops.push(`${stroke ? `${strokeColor(color)} 0.5 w` : fillColor(color)} ${num(x)} ${num(top - height)} ${num(width)} ${num(height)} re ${stroke ? 'S' : 'f'}`);
+
+  const rule = (x: number, lineY: number, width: number, color: Color, thickness = 0.5) =>
+    page.ops.push(`${strokeColor(color)} ${num(thickness)} w ${num(x)} ${num(lineY)} m ${num(x + width)} ${num(lineY)} l S`);
+
+  // Takes one line's worth of height, drawing quote bars and any waiting list marker
+  const startLine = (leading: number, context: BlockContext, size: number) => {
+    ensure(leading);
+    const top = y;
+    for (const barX of context.quoteBars) rect(barX, top, 2.5, leading, colors.border);
+    if (marker) {
+      text(marker.text, marker.x, top - size, marker.font, size, marker.color);
+      marker = null;
+    }
+    y -= leading;
+    return top;
+  };
+
+  const drawLine = (line: Line, x: number, baseline: number, size: number) => {
+    for (const segment of line.segments) {
+      const left = x + segment.x;
+      if (segment.font === 'mono' && segment.color !== colors.link) {
+        rect(left - 1, baseline + size * 0.85, segment.width + 2, size * 1.2, colors.codeBackground);
+      }
+      text(segment.text, left, baseline, segment.font, size, segment.color);
+      if (segment.href) {
+        rule(left, baseline - 1.5, segment.width, segment.color);
+        page.links.push({ rect: [left, baseline - 3, left + segment.width, baseline + size], href: segment.href });
+      }
+      if (segment.strike) rule(left, baseline + size * 0.3, segment.width, segment.color);
+    }
+  };
+
+  const paragraph = (pieces: Piece[], context: BlockContext, size: number, leading: number, after: number) => {
+    for (const line of wrap(pieces, context.width, size)) {
+      const top = startLine(leading, context, size);
+      drawLine(line, context.x, top - size, size);
+    }
+    y -= after;
+  };
+
+  const block = (node: Block, context: BlockContext, after = 8) => {
+    switch (node.type) {
+      case 'heading': {
+        const size = headingSizes[node.level - 1];
+        space(size * 0.6);
+        // Keep a heading with at least a line of what follows it
+        ensure(size * 1.3 + BODY_LEADING * 2);
+        paragraph(toPieces(node.children, context.color, { bold: true }), context, size, size * 1.3, 4);
+        return;
+      }
+      case 'paragraph':
+        paragraph(toPieces(node.children, context.color), context, BODY_SIZE, BODY_LEADING, after);
+        return;
+      case 'code': {
+        const padding = 6;
+        const columns = Math.max(1, Math.floor((context.width - 2 * padding) / (CODE_SIZE * 0.6)));
+        ensure(padding + CODE_LEADING);
+        rect(context.x, y, context.width, padding, colors.codeBackground);
+        y -= padding;
+        for (const line of wrapCode(node.code, columns)) {
+          ensure(CODE_LEADING);
+          rect(context.x, y, context.width, CODE_LEADING, colors.codeBackground);
+          const top = startLine(CODE_LEADING, context, CODE_SIZE);
+          text(line, context.x + padding, top - CODE_SIZE, 'mono', CODE_SIZE, colors.text);
+        }
+        ensure(padding);
+        rect(context.x, y, context.width, padding, colors.codeBackground);
+        y -= padding + after;
+        return;
+      }
+      case 'quote':
+        for (const child of node.children) {
+          block(child, {
+            x: context.x + QUOTE_INDENT,
+            width: context.width - QUOTE_INDENT,
+            color: colors.muted,
+            quoteBars: [...context.quoteBars, context.x],
+          });
+        }
+        return;
+      case 'list':
+        node.items.forEach((item, index) => {
+          const itemContext = { ...context, x: context.x + LIST_INDENT, width: context.width - LIST_INDENT };
+          marker = item.checked !== null
+            ? { text: item.checked ? '[x]' : '[ ]', x: context.x - 4, font: 'mono', color: context.color }
+            : node.ordered
+              ? { text: `${node.start + index}.`, x: context.x, font: 'regular', color: context.color }
+              : { text: '•', x: context.x + 4, font: 'regular', color: context.color };
+          if (item.children.length === 0) paragraph([], itemContext, BODY_SIZE, BODY_LEADING, 0);
+          item.children.forEach((child, childIndex) => block(child, itemContext, childIndex === item.children.length - 1 ? 3 : 6));
+        });
+        y -= after - 3;
+        return;
+      case 'table':
+        table(node, context);
+        y -= after;
+        return;
+      case 'rule':
+        ensure(12);
+        rule(context.x, y - 6, context.width, colors.border);
+        y -= 12 + after / 2;
+        return;
+    }
+  };
+
+  const table = (node: Extract<Block, { type: 'table' }>, context: BlockContext) => {
+    const columns = Math.max(node.header.length, ...node.rows.map(row => row.length));
+    const columnWidth = context.width / columns;
+    const padding = 4;
+    const row = (cells: Inline[][], header: boolean) => {
+      const wrapped = Array.from({ length: columns }, (_, index) =>
+        wrap(toPieces(cells[index] ?? [], context.color, { bold: header }), columnWidth - 2 * padding, TABLE_SIZE)
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * TABLE_LEADING + 2 * padding;
+      ensure(height);
+      wrapped.forEach((lines, index) => {
+        const left = context.x + index * columnWidth;
+        if (header) rect(left, y, columnWidth, height, colors.headerBackground);
+        rect(left, y, columnWidth, height, colors.border, true);
+        lines.forEach((line, lineIndex) => {
+          const align: TableAlign = node.align[index];
+          const free = columnWidth - 2 * padding - line.width;
+          const offset = align === 'right' ? free : align === 'center' ? free / 2 : 0;
+          drawLine(line, left + padding + offset, y - padding - lineIndex * TABLE_LEADING - TABLE_SIZE, TABLE_SIZE);
+        });
+      });
+      y -= height;
+    };
+    row(node.header, true);
+    node.rows.forEach(cells => row(cells, false));
+  };
+
+  const body: BlockContext = { x: MARGIN, width: CONTENT_WIDTH, color: colors.text, quoteBars: [] };
+  for (const section of sections) {
+    newPage();
+    paragraph([{ text: toWinAnsi(section.title), font: 'bold', color: colors.text }], body, 16, 21, 2);
+    paragraph([{ text: toWinAnsi(section.details), font: 'regular', color: colors.muted }], body, 9, 13, 0);
+    rule(MARGIN, y - 6, CONTENT_WIDTH, colors.border);
+    y -= 20;
+    for (const node of section.blocks) block(node, body);
+  }
+
+  pages.forEach((current, index) => {
+    page = current;
+    const label = `${index + 1} / ${pages.length}`;
+    text(label, (PAGE_WIDTH - measure(label, 'regular', 8)) / 2, MARGIN / 2, 'regular', 8, colors.muted);
+  });
+  return pages;
+};
+
+// Serialising
+
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export const toPdf = (title: string, sections: ExportSection[]): Blob => {
+  const pages = layout(sections);
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  // Fixed objects first: catalog, page tree, fonts, document info
+  const fontRefs = Object.values(fonts).map(({ resource }, index) => `/${resource} ${index + 3} 0 R`).join(' ');
+  const infoId = 3 + Object.keys(fonts).length;
+  const firstPageId = infoId + 1;
+  const pageIds: number[] = [];
+  let nextId = firstPageId;
+  for (const page of pages) {
+    pageIds.push(nextId);
+    nextId += 2 + page.links.length;
+  }
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (const { baseFont } of Object.values(fonts)) {
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+  }
+  add(`<< /Title ${pdfTextString(title)} /CreationDate (${pdfDate(new Date())}) >>`);
+
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    const linkIds = page.links.map((_, linkIndex) => id + 2 + linkIndex);
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << ${fontRefs} >> >> /Contents ${id + 1} 0 R` +
+      `${linkIds.length ? ` /Annots [${linkIds.map(linkId => `${linkId} 0 R`).join(' ')}]` : ''} >>`
+    );
+    const stream = page.ops.join('\n');
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    for (const link of page.links) {
+      add(`<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(encodeURI(link.href))} >> >>`);
+    }
+  });
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([output], { type: 'application/pdf' });
+};
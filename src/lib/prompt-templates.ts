@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { MAX_VARIABLE_LENGTH, TemplateField, TemplateUsage } from '@shared/schemas';
+
+// Parsing and validation come from the schemas the jobs function checks against
+export { fillTemplate, getPlaceholders, promptTemplateSchema } from '@shared/schemas';
+export type { PromptTemplateValues, TemplateField, TemplateUsage } from '@shared/schemas';
+
+// Variable values as the form holds them, before numbers are parsed
+export type TemplateInputs = Record<string, string>;
+
+export const templateFieldTypes: { value: TemplateField['type']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'longtext', label: 'Long text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Select' },
+];
+
+// "target_audience" → "Target audience"
+const toLabel = (name: string) => {
+  const words = name.replace(/_+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * One field per placeholder, in the order they appear: existing fields keep
+ * their settings, new placeholders start as text fields, and fields whose
+ * placeholder was removed are dropped.
+ */
+export const syncTemplateFields = (placeholders: string[], fields: TemplateField[]): TemplateField[] =>
+  placeholders.map(name =>
+    fields.find(field => field.name === name) ?? { name, label: toLabel(name), type: 'text', options: [], defaultValue: '' }
+  );
+
+export const getDefaultInputs = (fields: TemplateField[]): TemplateInputs =>
+  Object.fromEntries(fields.map(field => [
+    field.name,
+    field.type === 'select' && !field.options.includes(field.defaultValue) ? field.options[0] ?? '' : field.defaultValue,
+  ]));
+
+// Stored variables back into form inputs
+export const toTemplateInputs = (variables: TemplateUsage['variables']): TemplateInputs =>
+  Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, String(value)]));
+
+const createFieldSchema = ({ label, type, options }: TemplateField) => {
+  const required = z
+    .string()
+    .trim()
+    .min(1, `Please fill in ${label}`)
+    .max(MAX_VARIABLE_LENGTH, `${label} is limited to ${MAX_VARIABLE_LENGTH} characters`);
+
+  switch (type) {
+    case 'number':
+      return required.pipe(z.coerce.number({ invalid_type_error: `${label} must be a number` }));
+    case 'select':
+      return z.enum(options as [string, ...string[]], { errorMap: () => ({ message: `Pick one of the options for ${label}` }) });
+    default:
+      return required;
+  }
+};
+
+// Checks inputs against the template's fields; numbers come out as numbers
+export const createVariablesSchema = (fields: TemplateField[]) =>
+  z.object(Object.fromEntries(fields.map(field => [field.name, createFieldSchema(field)])));
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FunctionError, FunctionErrorBody } from '@/lib/functions';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+interface StreamFunctionOptions {
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+  onDelta: (delta: string) => void;
+}
+
+/**
+ * Calls an edge function that answers with an OpenAI-style SSE stream and
+ * forwards each content delta to `onDelta`. Resolves with the model that
+ * answered, the number of gateway attempts and whether the reply came from
+ * the response cache once the stream ends.
+ * `supabase.functions.invoke` buffers the whole body, so this uses fetch.
+ */
+export const streamFunction = async (
+  functionName: string,
+  { body, signal, onDelta }: StreamFunctionOptions
+) => {
+  // Functions only accept signed-in callers, so send the user's access token
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Please sign in to continue');
+  }
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let data: FunctionErrorBody | null = null;
+    try {
+      data = await response.json();
+    } catch {
+      // Non-JSON error body, keep the status message
+    }
+    if (data?.requestId) console.error(`${functionName} failed (request ${data.requestId}):`, data);
+    throw new FunctionError(data?.error || `Request failed with status ${response.status}`, response.status, data);
+  }
+
+  const attempts = Number(response.headers.get('X-Attempts') ?? 1);
+  const cached = response.headers.get('X-Cache') === 'hit';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let model: string | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      let line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line.endsWith('\r')) line = line.slice(0, -1);
+      // Blank separators and ": keep-alive" comments carry no data
+      if (!line.startsWith('data: ')) continue;
+
+      const payload = line.slice(6).trim();
+      if (payload === '[DONE]') return { model, attempts, cached };
+
+      try {
+        const parsed = JSON.parse(payload);
+        model = parsed.model ?? model;
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) onDelta(delta);
+      } catch (error) {
+        console.error('Failed to parse stream chunk:', payload, error);
+      }
+    }
+  }
+
+  return { model, attempts, cached };
+};
@@ -0,0 +1,51 @@
+import { jsonSchemaSchema, JsonSchema } from '@shared/schemas';
+
+// Validation comes from the schemas generate-text checks against
+export { MAX_JSON_SCHEMA_LENGTH, savedJsonSchemaSchema } from '@shared/schemas';
+export type { JsonSchema, SavedJsonSchemaValues, StructuredOutput } from '@shared/schemas';
+
+// A starting point for the schema editor: the fields of a CMS article
+export const exampleSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Headline, under 70 characters' },
+    summary: { type: 'string', description: 'One or two sentences for listings' },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string' },
+          body: { type: 'string' },
+        },
+        required: ['heading', 'body'],
+      },
+    },
+  },
+  required: ['title', 'summary', 'tags', 'sections'],
+};
+
+export const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// The schema typed into the editor, or what is wrong with it
+export const parseSchemaText = (text: string): { schema: JsonSchema } | { error: string } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { error: `The schema is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+
+  const result = jsonSchemaSchema.safeParse(value);
+  return result.success ? { schema: result.data } : { error: result.error.issues[0].message };
+};
+
+// A structured text's output, or undefined if it cannot be read as JSON
+export const parseJsonOutput = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+};
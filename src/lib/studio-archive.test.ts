@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { sha256 } from '@shared/hash';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ExistingStudio,
+  imageFileName,
+  MANIFEST_FILE,
+  manifestSchema,
+  planImport,
+  readStudioArchive,
+  StudioArchive,
+  textHash,
+} from './studio-archive';
+import { createZip } from './zip';
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+const createdAt = '2026-01-01T00:00:00.000Z';
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+const text = (n: number, prompt: string) => ({ id: id(n), prompt, output: `Output for ${prompt}`, createdAt });
+const style = (n: number, name: string) => ({ id: id(n), name, emoji: '✨', systemPrompt: 'Stay in character', temperature: 0.7 });
+
+const archive = async (manifest: Record<string, unknown>): Promise<StudioArchive> => {
+  const parsed = manifestSchema.parse({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: createdAt, ...manifest });
+  const textHashes = new Map<string, string>();
+  for (const entry of parsed.texts) textHashes.set(entry.id, await textHash(entry.prompt, entry.output));
+  return { manifest: parsed, files: new Map(), textHashes };
+};
+
+const existingStudio = async (): Promise<ExistingStudio> => ({
+  texts: [{ id: id(1), hash: await textHash('Kept', 'Output for Kept') }],
+  images: [],
+  styles: [
+    { id: id(50), name: 'Pirate', systemPrompt: 'Stay in character', shared: false },
+    { id: id(51), name: 'Team voice', systemPrompt: 'Stay in character', shared: true },
+  ],
+  settings: ['textParams'],
+});
+
+describe('planImport', () => {
+  it('merges by skipping what the studio already has, by id or by content', async () => {
+    const plan = planImport(
+      await archive({
+        texts: [text(1, 'Kept'), text(2, 'Kept'), text(3, 'New')],
+        styles: [style(60, 'pirate'), style(61, 'Poet')],
+        settings: { textParams: {}, imageSettings: null },
+      }),
+      await existingStudio(),
+      'merge'
+    );
+
+    expect(plan.texts.add.map(entry => entry.id)).toEqual([id(3)]);
+    expect(plan.texts).toMatchObject({ skip: 2, remove: 0 });
+    expect(plan.styles.add.map(entry => entry.id)).toEqual([id(61)]);
+    expect(plan.settings).toEqual({ add: [], skip: 1, remove: 0 });
+    expect(plan.matches).toEqual(new Map([[id(1), id(1)], [id(2), id(1)], [id(60), id(50)]]));
+  });
+
+  it('replaces everything but shared styles, skipping only repeats within the archive', async () => {
+    const plan = planImport(
+      await archive({
+        texts: [text(1, 'Kept'), text(2, 'Kept'), text(3, 'New')],
+        styles: [style(60, 'Pirate'), style(61, 'Team voice')],
+        settings: { textParams: null, imageSettings: { aspectRatio: '1:1' } },
+      }),
+      await existingStudio(),
+      'replace'
+    );
+
+    expect(plan.texts.add.map(entry => entry.id)).toEqual([id(1), id(3)]);
+    expect(plan.texts).toMatchObject({ skip: 1, remove: 1 });
+    expect(plan.styles.add.map(entry => entry.id)).toEqual([id(60)]);
+    expect(plan.styles).toMatchObject({ skip: 1, remove: 1 });
+    expect(plan.settings).toEqual({ add: ['imageSettings'], skip: 0, remove: 1 });
+    expect(plan.matches).toEqual(new Map([[id(2), id(1)], [id(61), id(51)]]));
+  });
+});
+
+describe('readStudioArchive', () => {
+  // An archive listing the PNG above, holding `data` as its file
+  const zipOf = async (data: Uint8Array) => {
+    const hash = await sha256(png);
+    const file = imageFileName(hash, 'image/png');
+    const manifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: createdAt,
+      images: [{ id: id(10), prompt: 'A logo', file, sha256: hash, mimeType: 'image/png', createdAt }],
+    };
+    return createZip([{ name: MANIFEST_FILE, data: JSON.stringify(manifest) }, { name: file, data }]);
+  };
+
+  it('opens an archive whose images match the manifest', async () => {
+    const opened = await readStudioArchive(await zipOf(png));
+    expect(opened.manifest.images).toHaveLength(1);
+    expect(opened.files.get(opened.manifest.images[0].file)).toEqual(png);
+  });
+
+  it('rejects an image that does not match its hash', async () => {
+    const tampered = png.slice();
+    tampered[tampered.length - 1] = 1;
+    await expect(readStudioArchive(await zipOf(tampered))).rejects.toThrow('does not match its hash');
+  });
+
+  it('rejects archives from a newer studio', async () => {
+    const zip = createZip([{ name: MANIFEST_FILE, data: JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION + 1 }) }]);
+    await expect(readStudioArchive(zip)).rejects.toThrow('newer version of the studio');
+  });
+});
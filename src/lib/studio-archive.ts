@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+import { imageSettingsSchema, writingStyleSchema } from '@shared/schemas';
+import { sha256 } from '@shared/hash';
+import { imageExtension, ImageMimeType, imageMimeTypes, MAX_IMAGE_BYTES, sniffImageType } from './image-files';
+import { textParamsSchema } from './text-params';
+import { readZip } from './zip';
+
+/**
+ * A studio archive is a zip holding manifest.json plus one file per image under
+ * images/, named by its SHA-256. The manifest's version only goes up when an
+ * older studio could no longer read it; new optional fields keep the version.
+ */
+
+export const ARCHIVE_FORMAT = 'ai-studio-archive';
+export const ARCHIVE_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+
+const timestampSchema = z.string().datetime({ offset: true });
+// Generation settings are kept as they were saved, even if the form has since changed
+const savedSettingsSchema = z.record(z.unknown()).nullable().default(null);
+const variablesSchema = z.record(z.string()).nullable().default(null);
+
+const versionSchema = z.object({
+  id: z.string().uuid(),
+  source: z.enum(['generated', 'regenerated', 'ai_edit', 'manual_edit', 'restored']),
+  output: z.string(),
+  model: z.string().nullable().default(null),
+  restoredFrom: z.string().uuid().nullable().default(null),
+  createdAt: timestampSchema,
+});
+
+const textSchema = z.object({
+  id: z.string().uuid(),
+  prompt: z.string(),
+  // A built-in style's key or a custom style's id
+  style: z.string().nullable().default(null),
+  model: z.string().nullable().default(null),
+  output: z.string(),
+  params: savedSettingsSchema,
+  cached: z.boolean().default(false),
+  templateId: z.string().uuid().nullable().default(null),
+  variables: variablesSchema,
+  outputSchema: z.record(z.unknown()).nullable().default(null),
+  createdAt: timestampSchema,
+  editedAt: timestampSchema.nullable().default(null),
+  // Oldest first, as in the text's history
+  versions: z.array(versionSchema).default([]),
+});
+
+const imageSchema = z.object({
+  id: z.string().uuid(),
+  prompt: z.string(),
+  model: z.string().nullable().default(null),
+  // Path of the image inside the archive
+  file: z.string().regex(/^images\/[0-9a-f]{64}\.(png|jpg|webp)$/, 'Images must be stored as images/{sha256}.png, .jpg or .webp'),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, 'Must be a hex SHA-256'),
+  mimeType: z.enum(imageMimeTypes),
+  width: z.number().int().positive().nullable().default(null),
+  height: z.number().int().positive().nullable().default(null),
+  settings: savedSettingsSchema,
+  parentId: z.string().uuid().nullable().default(null),
+  batchId: z.string().uuid().nullable().default(null),
+  cached: z.boolean().default(false),
+  templateId: z.string().uuid().nullable().default(null),
+  variables: variablesSchema,
+  createdAt: timestampSchema,
+});
+
+// Archived styles are always private; sharing is a workspace matter, not part of the archive
+const styleSchema = writingStyleSchema.omit({ shared: true }).extend({ id: z.string().uuid() });
+
+export const manifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: timestampSchema,
+  texts: z.array(textSchema).default([]),
+  images: z.array(imageSchema).default([]),
+  styles: z.array(styleSchema).default([]),
+  // The last used generation settings; ones the studio no longer accepts are dropped
+  settings: z
+    .object({
+      textParams: textParamsSchema.nullable().catch(null).default(null),
+      imageSettings: imageSettingsSchema.nullable().catch(null).default(null),
+    })
+    .default({}),
+});
+
+export type ArchiveManifest = z.infer<typeof manifestSchema>;
+export type ArchiveText = ArchiveManifest['texts'][number];
+export type ArchiveImage = ArchiveManifest['images'][number];
+export type ArchiveStyle = ArchiveManifest['styles'][number];
+export type SettingKey = keyof ArchiveManifest['settings'];
+
+// Named as in the user's storage, where the studio keeps them
+export const settingKeys: SettingKey[] = ['textParams', 'imageSettings'];
+
+// Building
+
+export const imageFileName = (hash: string, mimeType: ImageMimeType) => `images/${hash}.${imageExtension(mimeType)}`;
+
+export const toArchiveText = (row: Tables<'generations'>, versions: Tables<'generation_versions'>[]): ArchiveText => ({
+  id: row.id,
+  prompt: row.prompt,
+  style: row.style,
+  model: row.model,
+  output: row.output,
+  params: row.settings as ArchiveText['params'],
+  cached: row.cached,
+  templateId: row.template_id,
+  variables: row.variables as ArchiveText['variables'],
+  outputSchema: row.output_schema as ArchiveText['outputSchema'],
+  createdAt: row.created_at,
+  editedAt: row.edited_at,
+  versions: versions.map(version => ({
+    id: version.id,
+    source: version.source,
+    output: version.output,
+    model: version.model,
+    restoredFrom: version.restored_from,
+    createdAt: version.created_at,
+  })),
+});
+
+// The file's hash and type come from the downloaded image, which may differ from the row
+export const toArchiveImage = (row: Tables<'generations'>, file: { hash: string; mimeType: ImageMimeType }): ArchiveImage => ({
+  id: row.id,
+  prompt: row.prompt,
+  model: row.model,
+  file: imageFileName(file.hash, file.mimeType),
+  sha256: file.hash,
+  mimeType: file.mimeType,
+  width: row.width,
+  height: row.height,
+  settings: row.settings as ArchiveImage['settings'],
+  parentId: row.parent_id,
+  batchId: row.batch_id,
+  cached: row.cached,
+  templateId: row.template_id,
+  variables: row.variables as ArchiveImage['variables'],
+  createdAt: row.created_at,
+});
+
+export const toArchiveStyle = (row: Tables<'writing_styles'>): ArchiveStyle => ({
+  id: row.id,
+  name: row.name,
+  emoji: row.emoji,
+  systemPrompt: row.system_prompt,
+  temperature: row.temperature,
+  examples: row.examples,
+});
+
+// Reading
+
+export interface StudioArchive {
+  manifest: ArchiveManifest;
+  // Image files by their path in the archive
+  files: Map<string, Uint8Array>;
+  // Content hash of each text, by id, for spotting ones already in the studio
+  textHashes: Map<string, string>;
+}
+
+// The same prompt with the same output is the same text, whatever its id
+export const textHash = (prompt: string, output: string) => sha256(`${prompt}\u0000${output}`);
+
+// Stored images are named by their content hash
+export const storedImageHash = (storagePath: string | null) => storagePath?.match(/([0-9a-f]{64})\.[a-z0-9]+$/)?.[1] ?? null;
+
+const describeIssue = (issue: z.ZodIssue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+
+const parseManifest = (json: unknown): ArchiveManifest => {
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json);
+  if (!header.success || header.data.format !== ARCHIVE_FORMAT) {
+    throw new Error(`${MANIFEST_FILE} does not describe a studio archive`);
+  }
+  if (header.data.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of the studio. Update the studio and try again.');
+  }
+
+  const result = manifestSchema.safeParse(json);
+  if (!result.success) throw new Error(`${MANIFEST_FILE} is invalid. ${describeIssue(result.error.issues[0])}`);
+  return result.data;
+};
+
+/**
+ * Opens an archive and checks it all hangs together: the manifest matches the
+ * schema, ids are unique and every image file is present with the hash and
+ * type the manifest gives. Throws with a message fit to show when anything is off.
+ */
+export const readStudioArchive = async (file: Blob): Promise<StudioArchive> => {
+  const files = await readZip(file);
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) throw new Error(`The archive has no ${MANIFEST_FILE}`);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(manifestFile));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  const manifest = parseManifest(json);
+
+  const ids = [...manifest.texts, ...manifest.images, ...manifest.styles, ...manifest.texts.flatMap(text => text.versions)].map(entry => entry.id);
+  if (new Set(ids).size !== ids.length) throw new Error(`${MANIFEST_FILE} lists the same id more than once`);
+
+  for (const image of manifest.images) {
+    if (image.file !== imageFileName(image.sha256, image.mimeType)) {
+      throw new Error(`${image.file} should be named ${imageFileName(image.sha256, image.mimeType)}`);
+    }
+    const data = files.get(image.file);
+    if (!data) throw new Error(`The archive is missing ${image.file}`);
+    if ((await sha256(data)) !== image.sha256) throw new Error(`${image.file} does not match its hash`);
+    if (sniffImageType(data) !== image.mimeType) throw new Error(`${image.file} is not the ${image.mimeType} image the manifest says`);
+    if (data.length > MAX_IMAGE_BYTES) throw new Error(`${image.file} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const textHashes = new Map<string, string>();
+  for (const text of manifest.texts) textHashes.set(text.id, await textHash(text.prompt, text.output));
+
+  return { manifest, files, textHashes };
+};
+
+// Planning
+
+export type ImportMode = 'merge' | 'replace';
+
+// What the studio already holds, as far as telling duplicates apart goes
+export interface ExistingStudio {
+  texts: { id: string; hash: string }[];
+  images: { id: string; hash: string | null; storagePath: string | null }[];
+  // Only the user's own styles; shared ones belong to their authors.
+  // Those the user shares with their workspace are marked, as teammates use them too.
+  styles: { id: string; name: string; systemPrompt: string; shared: boolean }[];
+  settings: SettingKey[];
+}
+
+export interface ImportChanges<T> {
+  add: T[];
+  // Already in the studio, or repeated within the archive
+  skip: number;
+  // Dropped from the studio when replacing
+  remove: number;
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  texts: ImportChanges<ArchiveText>;
+  images: ImportChanges<ArchiveImage>;
+  styles: ImportChanges<ArchiveStyle>;
+  settings: ImportChanges<SettingKey>;
+  // What each skipped entry stands for, so references to it still resolve: an
+  // existing id, or the id of an earlier entry in the archive that is being added
+  matches: Map<string, string>;
+}
+
+const styleKey = (name: string, systemPrompt: string) => `${name.trim().toLowerCase()}\u0000${systemPrompt.trim()}`;
+
+/**
+ * Decides what an import will change. Entries match existing ones by id or by
+ * content: texts by prompt and output, images by file hash, styles by name and
+ * system prompt. Replacing clears the studio, so only repeats within the
+ * archive itself are skipped. Styles shared with the workspace stay, since
+ * teammates still use them.
+ */
+export const planImport = ({ manifest, textHashes }: StudioArchive, existing: ExistingStudio, mode: ImportMode): ImportPlan => {
+  const current = mode === 'merge'
+    ? existing
+    : { texts: [], images: [], styles: existing.styles.filter(style => style.shared), settings: [] };
+  const matches = new Map<string, string>();
+
+  // Keeps the first entry for each id or key, matching the rest to whatever it stands for
+  const dedupe = <T extends { id?: string }>(entries: T[], known: { id: string; key: string | null }[], keyOf: (entry: T) => string) => {
+    const byId = new Set(known.map(entry => entry.id));
+    const byKey = new Map(known.filter(entry => entry.key).map(entry => [entry.key, entry.id]));
+    const add: T[] = [];
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      if (byId.has(entry.id)) {
+        matches.set(entry.id, entry.id);
+      } else if (byKey.has(key)) {
+        matches.set(entry.id, byKey.get(key));
+      } else {
+        byKey.set(key, entry.id);
+        add.push(entry);
+      }
+    }
+    return add;
+  };
+
+  const texts = dedupe(manifest.texts, current.texts.map(text => ({ id: text.id, key: text.hash })), text => textHashes.get(text.id));
+  const images = dedupe(manifest.images, current.images.map(image => ({ id: image.id, key: image.hash })), image => image.sha256);
+  const styles = dedupe(
+    manifest.styles,
+    current.styles.map(style => ({ id: style.id, key: styleKey(style.name, style.systemPrompt) })),
+    style => styleKey(style.name, style.systemPrompt)
+  );
+  const archivedSettings = settingKeys.filter(key => manifest.settings[key] !== null);
+  const settings = archivedSettings.filter(key => !current.settings.includes(key));
+
+  const removed = (count: number) => (mode === 'replace' ? count : 0);
+
+  return {
+    mode,
+    texts: { add: texts, skip: manifest.texts.length - texts.length, remove: removed(existing.texts.length) },
+    images: { add: images, skip: manifest.images.length - images.length, remove: removed(existing.images.length) },
+    styles: {
+      add: styles,
+      skip: manifest.styles.length - styles.length,
+      remove: removed(existing.styles.filter(style => !style.shared).length),
+    },
+    settings: {
+      add: settings,
+      skip: archivedSettings.length - settings.length,
+      remove: removed(existing.settings.filter(key => !archivedSettings.includes(key)).length),
+    },
+    matches,
+  };
+};
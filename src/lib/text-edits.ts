@@ -0,0 +1,35 @@
+import { EditAction, MAX_EDIT_CONTEXT_LENGTH, TextEdit } from '@shared/schemas';
+
+export type { EditAction, TextEdit } from '@shared/schemas';
+
+export const editActions: { value: EditAction; label: string; description: string }[] = [
+  { value: 'rewrite', label: 'Rewrite', description: 'Say the same thing better' },
+  { value: 'expand', label: 'Expand', description: 'Add detail and examples' },
+  { value: 'shorten', label: 'Shorten', description: 'Keep only the key points' },
+  { value: 'tone', label: 'Change tone', description: 'Keep the meaning, change the voice' },
+  { value: 'grammar', label: 'Fix grammar', description: 'Spelling, grammar and punctuation only' },
+];
+
+export const tones = ['friendly', 'formal', 'confident', 'playful', 'empathetic', 'persuasive'];
+
+// Character offsets into the text, as a textarea reports its selection
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// The request for an edit of `range`, with as much of the text around it as the function accepts
+export const toTextEdit = (content: string, { start, end }: TextRange, action: EditAction, tone?: string): TextEdit => ({
+  action,
+  selection: content.slice(start, end),
+  before: content.slice(Math.max(0, start - MAX_EDIT_CONTEXT_LENGTH), start),
+  after: content.slice(end, end + MAX_EDIT_CONTEXT_LENGTH),
+  ...(action === 'tone' && { tone }),
+});
+
+// Models drop the spaces and line breaks a selection started or ended with; put them back
+export const fitReplacement = (selection: string, replacement: string) =>
+  `${selection.match(/^\s*/)?.[0] ?? ''}${replacement.trim()}${selection.match(/\s*$/)?.[0] ?? ''}`;
+
+export const replaceRange = (content: string, { start, end }: TextRange, replacement: string) =>
+  `${content.slice(0, start)}${replacement}${content.slice(end)}`;
@@ -0,0 +1,216 @@
+import { format } from 'date-fns';
+import { Block, Inline, parseMarkdown } from './markdown';
+import { toDocx } from './docx';
+import { missingCharacters, toPdf } from './pdf';
+
+export type ExportFormat = 'markdown' | 'html' | 'docx' | 'pdf';
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md' },
+  { value: 'html', label: 'HTML page', extension: 'html' },
+  { value: 'docx', label: 'Word document', extension: 'docx' },
+  { value: 'pdf', label: 'PDF', extension: 'pdf' },
+];
+
+// A generated text as it goes into an export, with its style already named
+export interface ExportText {
+  prompt: string;
+  style: string;
+  model: string | null;
+  date: Date;
+  content: string;
+  // Structured output, whose content is a JSON document rather than Markdown
+  structured: boolean;
+}
+
+// What the document writers lay out: a heading, a line of details, then the text
+export interface ExportSection {
+  title: string;
+  details: string;
+  blocks: Block[];
+}
+
+// Document title for the file's metadata and the HTML <title>
+const documentTitle = (texts: ExportText[]) => (texts.length === 1 ? texts[0].prompt : `${texts.length} generated texts`);
+
+const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const toSection = (text: ExportText): ExportSection => ({
+  title: singleLine(text.prompt),
+  details: [`${text.style} style`, text.model, format(text.date, 'PPp')].filter(Boolean).join(' • '),
+  blocks: text.structured ? [{ type: 'code', lang: 'json', code: text.content }] : parseMarkdown(text.content),
+});
+
+// Markdown
+
+// JSON strings are valid YAML scalars, so quoting is always safe
+const yamlString = (value: string) => JSON.stringify(value);
+
+const frontMatterFields = (text: ExportText) => [
+  `prompt: ${yamlString(text.prompt)}`,
+  `style: ${yamlString(text.style)}`,
+  `model: ${text.model ? yamlString(text.model) : 'null'}`,
+  `date: ${text.date.toISOString()}`,
+];
+
+const markdownBody = (text: ExportText) => (text.structured ? `\`\`\`json\n${text.content}\n\`\`\`` : text.content.trim());
+
+/**
+ * One text keeps its own front matter. Several share one, listing each text's
+ * details in order, and follow as sections under their prompts.
+ */
+const toMarkdown = (texts: ExportText[]) => {
+  if (texts.length === 1) {
+    return ['---', ...frontMatterFields(texts[0]), '---', '', markdownBody(texts[0]), ''].join('\n');
+  }
+  return [
+    '---',
+    `title: ${yamlString(documentTitle(texts))}`,
+    `date: ${new Date().toISOString()}`,
+    'texts:',
+    ...texts.flatMap(text => frontMatterFields(text).map((line, index) => `${index === 0 ? '  - ' : '    '}${line}`)),
+    '---',
+    '',
+    texts.map(text => `# ${singleLine(text.prompt)}\n\n${markdownBody(text)}`).join('\n\n---\n\n'),
+    '',
+  ].join('\n');
+};
+
+// HTML
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineHtml = (nodes: Inline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'break':
+          return '<br>';
+        case 'link':
+          // Only safe schemes survive parsing, so the href can be written as-is
+          return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`;
+        case 'strong':
+        case 'em':
+        case 'del':
+          return `<${node.type}>${inlineHtml(node.children)}</${node.type}>`;
+      }
+    })
+    .join('');
+
+const blockHtml = (block: Block): string => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${inlineHtml(block.children)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${inlineHtml(block.children)}</p>`;
+    case 'code':
+      return `<pre><code${block.lang ? ` class="language-${escapeHtml(block.lang)}"` : ''}>${escapeHtml(block.code)}</code></pre>`;
+    case 'quote':
+      return `<blockquote>${block.children.map(blockHtml).join('\n')}</blockquote>`;
+    case 'rule':
+      return '<hr>';
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map((item) => {
+        const box = item.checked === null ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+        // Tight items render their lone paragraph inline, as Markdown renderers do
+        const [first, ...rest] = item.children;
+        const lead = first?.type === 'paragraph' ? inlineHtml(first.children) : first ? blockHtml(first) : '';
+        return `<li>${box}${lead}${rest.map(blockHtml).join('\n')}</li>`;
+      });
+      return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+    }
+    case 'table': {
+      const style = (index: number) => (block.align[index] ? ` style="text-align: ${block.align[index]}"` : '');
+      const header = block.header.map((cell, index) => `<th${style(index)}>${inlineHtml(cell)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map((cell, index) => `<td${style(index)}>${inlineHtml(cell)}</td>`).join('')}</tr>`);
+      return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    }
+  }
+};
+
+const htmlStyles = `
+  body { max-width: 46rem; margin: 3rem auto; padding: 0 1.5rem; font: 16px/1.65 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+  header h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  header p { color: #59636e; font-size: 0.875rem; margin-top: 0; }
+  article + article { margin-top: 4rem; }
+  pre { background: #f6f8fa; padding: 1rem; border-radius: 6px; overflow-x: auto; }
+  code { font: 0.875em ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { background: #eff1f3; padding: 0.1em 0.3em; border-radius: 4px; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #d0d7de; color: #59636e; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.75rem; }
+  a { color: #0969da; }
+`;
+
+// A page that needs nothing else to display, styles included
+const toHtml = (texts: ExportText[]) => {
+  const articles = texts.map(toSection).map(section =>
+    [
+      '<article>',
+      `<header><h1>${escapeHtml(section.title)}</h1><p>${escapeHtml(section.details)}</p></header>`,
+      ...section.blocks.map(blockHtml),
+      '</article>',
+    ].join('\n')
+  );
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(singleLine(documentTitle(texts)))}</title>`,
+    `<style>${htmlStyles}</style>`,
+    '</head>',
+    '<body>',
+    ...articles,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+// Files
+
+const fileName = (texts: ExportText[], extension: string) => {
+  const name = texts.length === 1
+    ? `ai-generated-${texts[0].prompt.slice(0, 50).replace(/[^a-z0-9]/gi, '-').toLowerCase()}`
+    : `ai-generated-texts-${texts.length}`;
+  return `${name}-${Date.now()}.${extension}`;
+};
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+  // Characters the format could not hold, which were written as "?"
+  missingCharacters: string[];
+}
+
+/**
+ * Builds one file holding every text, in the order given. Word and PDF
+ * documents start each text on a new page.
+ */
+export const exportTexts = (texts: ExportText[], exportFormat: ExportFormat): ExportedFile => {
+  const { extension } = exportFormats.find(option => option.value === exportFormat);
+  const title = singleLine(documentTitle(texts));
+
+  switch (exportFormat) {
+    case 'markdown':
+      return { blob: new Blob([toMarkdown(texts)], { type: 'text/markdown' }), fileName: fileName(texts, extension), missingCharacters: [] };
+    case 'html':
+      return { blob: new Blob([toHtml(texts)], { type: 'text/html' }), fileName: fileName(texts, extension), missingCharacters: [] };
+    case 'docx':
+      return { blob: toDocx(title, texts.map(toSection)), fileName: fileName(texts, extension), missingCharacters: [] };
+    case 'pdf': {
+      const sections = texts.map(toSection);
+      return { blob: toPdf(title, sections), fileName: fileName(texts, extension), missingCharacters: missingCharacters(sections) };
+    }
+  }
+};
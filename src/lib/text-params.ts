@@ -0,0 +1,14 @@
+import type { TextParams } from '@shared/schemas';
+
+// Limits and defaults come from the schema generate-text validates against
+export { defaultTextParams, MAX_OUTPUT_TOKENS, MAX_STOP_SEQUENCES, textParamsSchema } from '@shared/schemas';
+export type { TextParams };
+
+export const textModels: { value: TextParams['model']; label: string; hint: string }[] = [
+  { value: 'google/gemini-2.5-flash', label: 'Gemini 2.5 Flash', hint: 'Balanced speed and quality' },
+  { value: 'google/gemini-2.5-pro', label: 'Gemini 2.5 Pro', hint: 'Best for long, complex writing' },
+  { value: 'google/gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', hint: 'Fastest, for short copy' },
+];
+
+export const getTextModelLabel = (model: string | null) =>
+  textModels.find(option => option.value === model)?.label ?? model;
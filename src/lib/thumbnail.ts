@@ -0,0 +1,30 @@
+// Longest edge of a thumbnail, as for generated images
+const THUMBNAIL_SIZE = 512;
+const THUMBNAIL_QUALITY = 0.8;
+
+/**
+ * Shrinks an image to fit within THUMBNAIL_SIZE and encodes it as JPEG, like
+ * the thumbnails the generate-image function stores. Smaller images keep their size.
+ */
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Your browser could not draw the thumbnail');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Your browser could not encode the thumbnail'))),
+        'image/jpeg',
+        THUMBNAIL_QUALITY
+      )
+    );
+  } finally {
+    bitmap.close();
+  }
+};
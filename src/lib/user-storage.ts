@@ -0,0 +1,20 @@
+/**
+ * Chats and the last used settings live in localStorage. Each account gets its
+ * own keys, so whoever signs in next on the same browser starts fresh.
+ */
+
+const userStorageKeys = {
+  chats: 'ai-studio-chats',
+  activeTab: 'ai-studio-active-tab',
+  textParams: 'ai-studio-text-params',
+  imageSettings: 'ai-studio-image-settings',
+} as const;
+
+export type UserStorageKey = keyof typeof userStorageKeys;
+
+export const userStorageKey = (key: UserStorageKey, userId: string) => `${userStorageKeys[key]}:${userId}`;
+
+// Earlier versions kept these under keys shared by everyone using the browser
+export const clearSharedUserStorage = () => {
+  for (const key of Object.values(userStorageKeys)) localStorage.removeItem(key);
+};
@@ -0,0 +1,78 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface WritingStyle {
+  // A built-in style name or a custom style id, as generate-text accepts
+  value: string;
+  // Short name for cards, e.g. "Creative"
+  name: string;
+  label: string;
+  examples: string[];
+  // Custom styles bring their own default temperature
+  temperature?: number;
+}
+
+// Built-ins; each has a system prompt in generate-text
+export const writingStyles: WritingStyle[] = [
+  {
+    value: 'creative',
+    name: 'Creative',
+    label: '🎨 Creative & Imaginative',
+    examples: [
+      'Write a short story about a time traveler',
+      'Create a poem about the beauty of nature',
+      'Describe a futuristic city in vivid detail',
+    ],
+  },
+  {
+    value: 'professional',
+    name: 'Professional',
+    label: '💼 Professional & Formal',
+    examples: [
+      'Write a professional email about project updates',
+      'Create a business proposal summary',
+      'Draft a professional cover letter',
+    ],
+  },
+  {
+    value: 'casual',
+    name: 'Casual',
+    label: '😊 Casual & Friendly',
+    examples: [
+      'Write a friendly message to a colleague',
+      'Create a casual blog post about productivity',
+      'Draft a fun social media caption',
+    ],
+  },
+  {
+    value: 'technical',
+    name: 'Technical',
+    label: '⚙️ Technical & Detailed',
+    examples: [
+      'Explain how blockchain technology works',
+      'Write technical documentation for an API',
+      'Describe machine learning concepts',
+    ],
+  },
+  {
+    value: 'marketing',
+    name: 'Marketing',
+    label: '📢 Marketing & Persuasive',
+    examples: [
+      'Create a product launch announcement',
+      'Write compelling ad copy for a service',
+      'Draft an engaging email campaign',
+    ],
+  },
+];
+
+export const toWritingStyle = (style: Tables<'writing_styles'>): WritingStyle => ({
+  value: style.id,
+  name: `${style.emoji} ${style.name}`,
+  label: `${style.emoji} ${style.name}`,
+  examples: style.examples,
+  temperature: style.temperature,
+});
+
+// The name of a stored style; custom styles may since have been deleted or unshared
+export const getWritingStyleName = (value: string, styles: WritingStyle[]) =>
+  styles.find(style => style.value === value)?.name ?? 'Custom';
@@ -0,0 +1,60 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const text = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+// The offset of the first stored file's data, after its 30-byte local header and name
+const firstDataOffset = (bytes: Uint8Array) => 30 + new DataView(bytes.buffer).getUint16(26, true);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip and readZip', () => {
+  it('round-trips text and binary entries', async () => {
+    const binary = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    const files = await readZip(createZip([
+      { name: 'manifest.json', data: '{"ok":true}' },
+      { name: 'images/ünïcödé.bin', data: binary },
+    ]));
+
+    expect([...files.keys()]).toEqual(['manifest.json', 'images/ünïcödé.bin']);
+    expect(text(files.get('manifest.json'))).toBe('{"ok":true}');
+    expect(files.get('images/ünïcödé.bin')).toEqual(binary);
+  });
+
+  it('rejects an entry whose data does not match its CRC', async () => {
+    const bytes = new Uint8Array(await createZip([{ name: 'a.txt', data: 'hello' }]).arrayBuffer());
+    bytes[firstDataOffset(bytes)] ^= 0xff;
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow('a.txt is corrupted');
+  });
+
+  it('reads deflated entries', async () => {
+    const content = 'repeated '.repeat(100);
+    const stored = new Uint8Array(await createZip([{ name: 'a.txt', data: content }]).arrayBuffer());
+    const view = new DataView(stored.buffer);
+    const compressed = deflateRawSync(content);
+
+    // Rebuild the archive with the entry deflated: local header, name, data, then the directory
+    const nameEnd = firstDataOffset(stored);
+    const centralStart = nameEnd + content.length;
+    const central = stored.slice(centralStart);
+    const centralView = new DataView(central.buffer);
+    view.setUint16(8, 8, true);
+    view.setUint32(18, compressed.length, true);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint32(20, compressed.length, true);
+    const end = central.length - 22;
+    centralView.setUint32(end + 16, nameEnd + compressed.length, true);
+
+    const files = await readZip(new Blob([stored.subarray(0, nameEnd), compressed, central]));
+    expect(text(files.get('a.txt'))).toBe(content);
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('This file is not a zip archive');
+  });
+});
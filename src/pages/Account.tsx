@@ -0,0 +1,130 @@
+import { useState, FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { AuthLayout } from '@/components/AuthLayout';
+import { StudioArchive } from '@/components/StudioArchive';
+import { WorkspaceSettings } from '@/components/WorkspaceSettings';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, KeyRound, Loader2, LogOut } from 'lucide-react';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Account = () => {
+  const [newPassword, setNewPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { user, updatePassword, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handlePasswordChange = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: 'Password too short',
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updatePassword(newPassword);
+      setNewPassword('');
+      toast({
+        title: 'Password updated',
+        description: 'Use your new password next time you sign in',
+      });
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : 'Could not update your password. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate('/login', { replace: true });
+    } catch (error) {
+      toast({
+        title: 'Sign out failed',
+        description: error instanceof Error ? error.message : 'Could not sign you out. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <AuthLayout title="Your account" description="Manage how you sign in, who you share styles with and backups of your work">
+      <dl className="space-y-3 text-sm">
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">Email</dt>
+          <dd className="font-medium truncate">{user?.email}</dd>
+        </div>
+        {user?.created_at && (
+          <div className="flex justify-between gap-4">
+            <dt className="text-muted-foreground">Member since</dt>
+            <dd className="font-medium">{format(new Date(user.created_at), 'PPP')}</dd>
+          </div>
+        )}
+      </dl>
+
+      <Separator className="my-6" />
+
+      <form onSubmit={handlePasswordChange} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="account-new-password">New Password</Label>
+          <Input
+            id="account-new-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            minLength={MIN_PASSWORD_LENGTH}
+            required
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={isSaving} className="w-full">
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+          Update Password
+        </Button>
+      </form>
+
+      <Separator className="my-6" />
+
+      <WorkspaceSettings />
+
+      <Separator className="my-6" />
+
+      <StudioArchive />
+
+      <Separator className="my-6" />
+
+      <div className="flex gap-2">
+        <Button asChild variant="ghost" className="flex-1">
+          <Link to="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Studio
+          </Link>
+        </Button>
+        <Button variant="ghost" onClick={handleSignOut} className="flex-1 hover:bg-destructive/20">
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out
+        </Button>
+      </div>
+    </AuthLayout>
+  );
+};
+
+export default Account;
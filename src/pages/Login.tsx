@@ -0,0 +1,151 @@
+import { useState, FormEvent } from 'react';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuthLayout } from '@/components/AuthLayout';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, LogIn, Mail } from 'lucide-react';
+
+const Login = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const { user, signInWithPassword, signInWithMagicLink } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname ?? '/';
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handlePasswordLogin = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await signInWithPassword(email, password);
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      toast({
+        title: 'Sign in failed',
+        description: error instanceof Error ? error.message : 'Could not sign you in. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await signInWithMagicLink(email);
+      setMagicLinkSent(true);
+      toast({
+        title: 'Check your email',
+        description: `We sent a sign-in link to ${email}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not send link',
+        description: error instanceof Error ? error.message : 'Failed to send the magic link. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthLayout title="Welcome back" description="Sign in to continue creating">
+      <Tabs defaultValue="password">
+        <TabsList className="grid w-full grid-cols-2 mb-6">
+          <TabsTrigger value="password">Password</TabsTrigger>
+          <TabsTrigger value="magic-link">Magic Link</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="password">
+          <form onSubmit={handlePasswordLogin} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-email">Email</Label>
+              <Input
+                id="login-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90"
+            >
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+              Sign In
+            </Button>
+          </form>
+        </TabsContent>
+
+        <TabsContent value="magic-link">
+          {magicLinkSent ? (
+            <p className="text-sm text-muted-foreground text-center py-4" aria-live="polite">
+              A sign-in link is on its way to <span className="font-medium text-foreground">{email}</span>.
+              Open it on this device to continue.
+            </p>
+          ) : (
+            <form onSubmit={handleMagicLink} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="magic-link-email">Email</Label>
+                <Input
+                  id="magic-link-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90"
+              >
+                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                Email Me a Link
+              </Button>
+            </form>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <p className="text-sm text-muted-foreground text-center mt-6">
+        Don't have an account?{' '}
+        <Link to="/signup" className="text-primary underline-offset-4 hover:underline">
+          Sign up
+        </Link>
+      </p>
+    </AuthLayout>
+  );
+};
+
+export default Login;
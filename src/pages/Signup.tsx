@@ -0,0 +1,131 @@
+import { useState, FormEvent } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AuthLayout } from '@/components/AuthLayout';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, UserPlus } from 'lucide-react';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Signup = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+  const { user, signUp } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSignup = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: 'Password too short',
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Please enter the same password twice',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { needsConfirmation } = await signUp(email, password);
+      if (needsConfirmation) {
+        setConfirmationSent(true);
+      } else {
+        navigate('/', { replace: true });
+      }
+    } catch (error) {
+      toast({
+        title: 'Sign up failed',
+        description: error instanceof Error ? error.message : 'Could not create your account. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthLayout title="Create your account" description="Start generating images and text with AI">
+      {confirmationSent ? (
+        <p className="text-sm text-muted-foreground text-center py-4" aria-live="polite">
+          We sent a confirmation link to <span className="font-medium text-foreground">{email}</span>.
+          Confirm your address, then sign in.
+        </p>
+      ) : (
+        <form onSubmit={handleSignup} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="signup-email">Email</Label>
+            <Input
+              id="signup-email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="signup-password">Password</Label>
+            <Input
+              id="signup-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={MIN_PASSWORD_LENGTH}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="signup-confirm-password">Confirm Password</Label>
+            <Input
+              id="signup-confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-gradient-to-r from-primary via-secondary to-accent hover:opacity-90"
+          >
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+            Create Account
+          </Button>
+        </form>
+      )}
+
+      <p className="text-sm text-muted-foreground text-center mt-6">
+        Already have an account?{' '}
+        <Link to="/login" className="text-primary underline-offset-4 hover:underline">
+          Sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  );
+};
+
+export default Signup;
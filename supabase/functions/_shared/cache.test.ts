@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { createCacheKey, createResponseCache, normalizePrompt } from "./cache.ts";
+
+// The response_cache table in memory, with just the queries the cache makes
+const createCacheTable = (rows = new Map<string, unknown>()) => {
+  const reads = vi.fn();
+  const admin = {
+    from: () => ({
+      select: () => {
+        const query = {
+          key: '',
+          eq: (_column: string, key: string) => Object.assign(query, { key }),
+          gt: () => query,
+          maybeSingle: async () => {
+            reads(query.key);
+            return { data: rows.has(query.key) ? { response: rows.get(query.key) } : null, error: null };
+          },
+        };
+        return query;
+      },
+      upsert: async ({ key, response }: { key: string; response: unknown }) => {
+        rows.set(key, response);
+        return { error: null };
+      },
+      delete: () => ({ lt: async () => ({ error: null }) }),
+    }),
+  };
+  return { admin: admin as unknown as SupabaseClient, rows, reads };
+};
+
+describe('normalizePrompt', () => {
+  it('ignores spacing and Unicode form', () => {
+    expect(normalizePrompt('  Café \n\t menu ')).toBe('Café menu');
+  });
+});
+
+describe('createCacheKey', () => {
+  it('hashes equal requests the same whatever their key order', async () => {
+    const key = await createCacheKey('text', { prompt: 'Hi', params: { temperature: 1, model: 'a' } });
+    expect(key).toMatch(/^text:[0-9a-f]{64}$/);
+    expect(await createCacheKey('text', { params: { model: 'a', temperature: 1 }, prompt: 'Hi', skipped: undefined })).toBe(key);
+    expect(await createCacheKey('text', { prompt: 'Hi', params: { temperature: 0.5, model: 'a' } })).not.toBe(key);
+    expect(await createCacheKey('image', { prompt: 'Hi', params: { temperature: 1, model: 'a' } })).not.toBe(key);
+  });
+});
+
+describe('createResponseCache', () => {
+  let ttl: string | undefined;
+
+  beforeEach(() => {
+    ttl = undefined;
+    vi.stubGlobal('Deno', { env: { get: (name: string) => (name === 'CACHE_TTL_SECONDS' ? ttl : undefined) } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('answers a repeat from the table without running the task', async () => {
+    const { admin, rows } = createCacheTable();
+    const cache = createResponseCache(admin);
+    const task = vi.fn(async () => 'reply');
+
+    expect(await cache.getOrCreate('key', task)).toEqual({ value: 'reply', cached: false });
+    expect(rows.get('key')).toBe('reply');
+    expect(await cache.getOrCreate('key', task)).toEqual({ value: 'reply', cached: true });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('joins an identical request in flight', async () => {
+    const { admin, reads } = createCacheTable();
+    const cache = createResponseCache(admin);
+    let finish: (value: string) => void = () => {};
+    const task = vi.fn(() => new Promise<string>((resolve) => (finish = resolve)));
+
+    const first = cache.getOrCreate('key', task);
+    await vi.waitFor(() => expect(reads).toHaveBeenCalled());
+    const second = cache.getOrCreate('key', task);
+    await vi.waitFor(() => expect(task).toHaveBeenCalled());
+    finish('reply');
+
+    expect(await first).toEqual({ value: 'reply', cached: false });
+    expect(await second).toEqual({ value: 'reply', cached: true });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the lookup for fresh requests but still refreshes the entry', async () => {
+    const { admin, rows, reads } = createCacheTable(new Map([['key', 'old']]));
+    const cache = createResponseCache(admin);
+
+    expect(await cache.getOrCreate('key', async () => 'new', { fresh: true })).toEqual({ value: 'new', cached: false });
+    expect(reads).not.toHaveBeenCalled();
+    expect(rows.get('key')).toBe('new');
+  });
+
+  it('runs every request when CACHE_TTL_SECONDS is 0', async () => {
+    ttl = '0';
+    const { admin, rows } = createCacheTable(new Map([['key', 'old']]));
+    const cache = createResponseCache(admin);
+
+    expect(cache.enabled).toBe(false);
+    expect(await cache.getOrCreate('key', async () => 'new')).toEqual({ value: 'new', cached: false });
+    expect(rows.get('key')).toBe('old');
+  });
+});
@@ -0,0 +1,132 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { sha256 } from "./hash.ts";
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// Work in progress by cache key. Only requests served by the same function
+// instance can join each other; the cache table covers the rest.
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Spacing and Unicode form differences do not change what the model is asked
+export const normalizePrompt = (prompt: string) => prompt.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+// JSON with object keys sorted, so equal requests always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const createCacheKey = async (kind: string, request: unknown) => `${kind}:${await sha256(stableStringify(request))}`;
+
+// CACHE_TTL_SECONDS=0 turns caching off
+const getTtlSeconds = () => {
+  const ttl = Number(Deno.env.get('CACHE_TTL_SECONDS') ?? DEFAULT_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_SECONDS;
+};
+
+export interface CachedValue<T> {
+  value: T;
+  // Answered from the cache or an identical request, without calling the provider
+  cached: boolean;
+}
+
+/**
+ * Response cache shared by all users, backed by the `response_cache` table.
+ * Cache failures are logged and treated as misses so they never fail a
+ * generation. A request that is already in flight is joined instead of
+ * repeated; if it fails, the joiner runs its own.
+ */
+export const createResponseCache = (admin: SupabaseClient) => {
+  const ttlSeconds = getTtlSeconds();
+  const enabled = ttlSeconds > 0;
+
+  const join = async <T>(key: string): Promise<T | null> => {
+    const pending = inFlight.get(key);
+    return pending ? ((await pending.catch(() => null)) as T | null) : null;
+  };
+
+  const read = async <T>(key: string): Promise<T | null> => {
+    const { data, error } = await admin
+      .from('response_cache')
+      .select('response')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) console.error('Failed to read response cache:', error);
+    return (data?.response as T | undefined) ?? null;
+  };
+
+  // An identical request in flight, else the table
+  const get = async <T>(key: string): Promise<T | null> => {
+    if (!enabled) return null;
+    return (await join<T>(key)) ?? (await read<T>(key));
+  };
+
+  // Writing also sweeps out expired entries, which are otherwise never read again
+  const set = async (key: string, value: unknown) => {
+    if (!enabled) return;
+    const now = Date.now();
+    const [{ error }, { error: sweepError }] = await Promise.all([
+      admin.from('response_cache').upsert({
+        key,
+        response: value,
+        expires_at: new Date(now + ttlSeconds * 1000).toISOString(),
+      }),
+      admin.from('response_cache').delete().lt('expires_at', new Date(now).toISOString()),
+    ]);
+    if (error) console.error('Failed to write response cache:', error);
+    if (sweepError) console.error('Failed to sweep response cache:', sweepError);
+  };
+
+  // Lets identical requests wait for `completion` instead of calling the provider themselves
+  const track = <T>(key: string, completion: Promise<T>) => {
+    if (!enabled) return;
+    inFlight.set(key, completion);
+    completion
+      .catch(() => null)
+      .finally(() => {
+        if (inFlight.get(key) === completion) inFlight.delete(key);
+      });
+  };
+
+  return {
+    enabled,
+    get,
+    set,
+    track,
+
+    /**
+     * Answers from the cache when possible, otherwise runs `task` and caches
+     * its value. `fresh` skips the lookup but still refreshes the entry.
+     */
+    getOrCreate: async <T>(key: string, task: () => Promise<T>, { fresh = false } = {}): Promise<CachedValue<T>> => {
+      if (!enabled) return { value: await task(), cached: false };
+
+      const joined = fresh ? null : await join<T>(key);
+      if (joined !== null) return { value: joined, cached: true };
+
+      let cached = false;
+      const work = (async () => {
+        const hit = fresh ? null : await read<T>(key);
+        if (hit !== null) {
+          cached = true;
+          return hit;
+        }
+        const value = await task();
+        await set(key, value);
+        return value;
+      })();
+      // Tracked while the lookup is still pending so a request arriving meanwhile joins this one
+      if (!fresh) track(key, work);
+      return { value: await work, cached };
+    },
+  };
+};
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
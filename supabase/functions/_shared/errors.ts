@@ -0,0 +1,105 @@
+/**
+ * Errors a function can throw to answer with a specific status. Anything else
+ * that escapes a handler is reported as a 500 `internal_error`.
+ */
+export class HttpError extends Error {
+  // Set when the failure survived retries, so the response can say how hard we tried
+  attempts?: number;
+
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 400, 'bad_request', details);
+  }
+}
+
+// A request body that failed schema validation; `fields` maps field paths to messages
+export class ValidationError extends HttpError {
+  constructor(readonly fields: Record<string, string[]>) {
+    super(Object.values(fields)[0]?.[0] ?? 'Invalid request', 400, 'validation_failed', { fields });
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Authentication required. Please sign in to continue.') {
+    super(message, 401, 'unauthorized');
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found') {
+    super(message, 404, 'not_found');
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(message = 'Method not allowed') {
+    super(message, 405, 'method_not_allowed');
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(message, 409, 'conflict');
+  }
+}
+
+export class QuotaExceededError extends HttpError {
+  constructor(message: string) {
+    super(message, 429, 'quota_exceeded');
+  }
+}
+
+export class ConfigurationError extends HttpError {
+  constructor(message: string) {
+    super(message, 500, 'configuration_error');
+  }
+}
+
+interface GatewayErrorOptions {
+  // Worth trying again: rate limits, upstream 5xx and network failures
+  retryable?: boolean;
+  // How long the provider asked us to wait (from `Retry-After`)
+  retryAfterMs?: number;
+}
+
+// Failures reported by (or while talking to) the AI gateway
+export class GatewayError extends HttpError {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status = 502, code = 'gateway_error', { retryable = false, retryAfterMs }: GatewayErrorOptions = {}) {
+    super(message, status, code);
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class RateLimitError extends GatewayError {
+  constructor(message = 'Rate limit exceeded. Please try again later.', retryAfterMs?: number) {
+    super(message, 429, 'rate_limited', { retryable: true, retryAfterMs });
+  }
+}
+
+export class PaymentRequiredError extends GatewayError {
+  constructor(message = 'Payment required. Please add credits to your workspace.') {
+    super(message, 402, 'payment_required');
+  }
+}
+
+// The configured AI provider cannot do what was asked (e.g. images on a text-only local model)
+export class UnsupportedCapabilityError extends HttpError {
+  constructor(message: string) {
+    super(message, 501, 'unsupported_capability');
+  }
+}
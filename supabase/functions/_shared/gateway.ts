@@ -0,0 +1,106 @@
+import { UnsupportedCapabilityError } from "./errors.ts";
+import { ChatCompletion, ChatRequest, createProvider, ImageRequest, ImageResult, JsonOutput } from "./providers/index.ts";
+import { withRetry } from "./retry.ts";
+
+export type { ChatCompletion, ChatMessage, ChatRequest, ContentPart, ImageRequest, ImageResult, JsonOutput } from "./providers/index.ts";
+
+// Retries stop being scheduled this long after the client was created
+const RETRY_DEADLINE_MS = 60_000;
+
+const hasImageInput = ({ messages }: ChatRequest) =>
+  messages.some((message) => Array.isArray(message.content) && message.content.some((part) => part.type === 'image_url'));
+
+// Replays a complete reply as a one-chunk SSE stream, for providers that cannot stream and for cached replies
+export const toEventStream = ({ text, model }: ChatCompletion) => {
+  const chunk = { model, choices: [{ delta: { content: text } }] };
+  return new Blob([`data: ${JSON.stringify(chunk)}\n\n`, 'data: [DONE]\n\n']).stream();
+};
+
+// Reads an OpenAI-style SSE stream to the end and joins its deltas into the complete reply
+export const collectEventStream = async (stream: ReadableStream<Uint8Array>): Promise<ChatCompletion> => {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let model = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const payload = line.trim();
+      if (!payload.startsWith('data: ') || payload === 'data: [DONE]') continue;
+      const chunk = JSON.parse(payload.slice(6));
+      model = chunk.model ?? model;
+      text += chunk.choices?.[0]?.delta?.content ?? '';
+    }
+  }
+
+  return { text, model };
+};
+
+/**
+ * Typed client for whichever AI provider is configured (see `createProvider`).
+ * Takes the studio's model ids, maps them to the provider's models and
+ * rejects requests the provider cannot serve with `UnsupportedCapabilityError`.
+ * Transient failures are retried (see `withRetry`) within one shared deadline
+ * and every result reports how many attempts it took. Failed calls throw
+ * `GatewayError` subclasses carrying the status to answer with.
+ */
+export const createGatewayClient = ({ requestId }: { requestId: string }) => {
+  const provider = createProvider({ requestId });
+  const { capabilities } = provider;
+  const retryOptions = { deadline: Date.now() + RETRY_DEADLINE_MS };
+
+  const prepareChat = (request: ChatRequest): ChatRequest => {
+    if (hasImageInput(request) && !capabilities.vision) {
+      throw new UnsupportedCapabilityError('Image input is not supported by the configured AI provider');
+    }
+    return { ...request, model: provider.resolveModel(request.model) };
+  };
+
+  return {
+    provider: provider.name,
+    capabilities,
+
+    chat: async (request: ChatRequest): Promise<ChatCompletion & { attempts: number }> => {
+      const prepared = prepareChat(request);
+      const { value, attempts } = await withRetry(() => provider.chat(prepared), retryOptions);
+      return { ...value, attempts };
+    },
+
+    // A reply meant to be a JSON document matching `output`; the caller validates it
+    chatJson: async (request: ChatRequest, output: JsonOutput): Promise<ChatCompletion & { attempts: number }> => {
+      const prepared = prepareChat(request);
+      const { value, attempts } = await withRetry(() => provider.chatJson(prepared, output), retryOptions);
+      return { ...value, attempts };
+    },
+
+    // An OpenAI-style SSE stream, to relay as-is. Only opening the stream is retried.
+    chatStream: async (request: ChatRequest): Promise<{ stream: ReadableStream<Uint8Array>; attempts: number }> => {
+      const prepared = prepareChat(request);
+      const { value: stream, attempts } = await withRetry(
+        async () => capabilities.streaming ? provider.chatStream(prepared) : toEventStream(await provider.chat(prepared)),
+        retryOptions,
+      );
+      return { stream, attempts };
+    },
+
+    image: async (request: ImageRequest): Promise<ImageResult & { attempts: number }> => {
+      if (!capabilities.images) {
+        throw new UnsupportedCapabilityError('Image generation is not supported by the configured AI provider');
+      }
+      if (request.images?.length && !capabilities.vision) {
+        throw new UnsupportedCapabilityError('Image editing is not supported by the configured AI provider');
+      }
+      const prepared = { ...request, model: provider.resolveModel(request.model) };
+      const { value, attempts } = await withRetry(() => provider.image(prepared), retryOptions);
+      return { ...value, attempts };
+    },
+  };
+};
+
+export type GatewayClient = ReturnType<typeof createGatewayClient>;
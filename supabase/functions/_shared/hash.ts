@@ -0,0 +1,6 @@
+// Hex SHA-256 of raw bytes or of a string's UTF-8 encoding
+export const sha256 = async (input: Uint8Array | string) => {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from "zod";
+import { BadRequestError, HttpError, MethodNotAllowedError, ValidationError } from "./errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+  'Access-Control-Expose-Headers': 'x-request-id, x-attempts, x-cache',
+};
+
+export interface RequestContext {
+  // Taken from the caller's `x-request-id` header when present, so logs line up end to end
+  requestId: string;
+}
+
+interface ServeFunctionOptions {
+  methods?: string[];
+}
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+interface EventStreamOptions {
+  attempts?: number;
+  // Replayed from the response cache
+  cached?: boolean;
+}
+
+// Streams cannot carry extra fields, so gateway attempts and cache hits travel in headers
+export const eventStream = (body: ReadableStream<Uint8Array>, { attempts = 1, cached = false }: EventStreamOptions = {}) =>
+  new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'X-Attempts': String(attempts),
+      'X-Cache': cached ? 'hit' : 'miss',
+    },
+  });
+
+/**
+ * Reads the JSON body and validates it against `schema`. Invalid JSON is a
+ * 400; schema failures are a `ValidationError` listing every failing field
+ * path (`params.temperature`, `images.0`, ...).
+ */
+export const parseBody = async <S extends z.ZodTypeAny>(req: Request, schema: S): Promise<z.output<S>> => {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON');
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const fields: Record<string, string[]> = {};
+    for (const issue of result.error.issues) {
+      const path = issue.path.join('.') || 'body';
+      (fields[path] ??= []).push(issue.message);
+    }
+    throw new ValidationError(fields);
+  }
+  return result.data;
+};
+
+// Every failure answers with the same envelope: `{ error, code, requestId, attempts?, details? }`
+const errorResponse = (error: unknown, requestId: string) => {
+  const { status, code, message, details, attempts } = error instanceof HttpError
+    ? error
+    : {
+        status: 500,
+        code: 'internal_error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+        details: undefined,
+        attempts: undefined,
+      };
+
+  return json({
+    error: message,
+    code,
+    requestId,
+    ...(attempts && attempts > 1 && { attempts }),
+    ...(details && { details }),
+  }, status);
+};
+
+/**
+ * Serves an edge function with the shared plumbing: CORS preflight, method
+ * checks, request ids on every response and uniform JSON error envelopes.
+ * Handlers return a Response or throw; `HttpError`s keep their status.
+ */
+export const serveFunction = (
+  name: string,
+  handler: (req: Request, context: RequestContext) => Promise<Response>,
+  { methods = ['POST'] }: ServeFunctionOptions = {},
+) => {
+  serve(async (req) => {
+    const requestId = req.headers.get('x-request-id') || crypto.randomUUID();
+    const headers = {
+      ...corsHeaders,
+      'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+      'X-Request-Id': requestId,
+    };
+
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers });
+    }
+
+    let response: Response;
+    try {
+      if (!methods.includes(req.method)) {
+        throw new MethodNotAllowedError();
+      }
+      response = await handler(req, { requestId });
+    } catch (error) {
+      console.error(`Error in ${name} function [${requestId}]:`, error);
+      response = errorResponse(error, requestId);
+    }
+
+    for (const [header, value] of Object.entries(headers)) {
+      response.headers.set(header, value);
+    }
+    return response;
+  });
+};
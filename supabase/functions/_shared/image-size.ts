@@ -0,0 +1,10 @@
+import type { ImageSettings } from "./schemas.ts";
+
+// Exact output size of an image: the resolution is the length of the longer edge.
+// The studio shows it next to the settings (imported there as `@shared/image-size`).
+export const getTargetSize = ({ aspectRatio, resolution }: ImageSettings) => {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  return ratioWidth >= ratioHeight
+    ? { width: resolution, height: Math.round((resolution * ratioHeight) / ratioWidth) }
+    : { width: Math.round((resolution * ratioWidth) / ratioHeight), height: resolution };
+};
@@ -0,0 +1,39 @@
+import { ConfigurationError } from "../errors.ts";
+import { createLovableProvider } from "./lovable.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAICompatibleProvider } from "./openai-compatible.ts";
+import { AIProvider } from "./types.ts";
+
+export type {
+  AIProvider,
+  ChatCompletion,
+  ChatMessage,
+  ChatRequest,
+  ContentPart,
+  ImageRequest,
+  ImageResult,
+  JsonOutput,
+  ProviderCapabilities,
+} from "./types.ts";
+
+const providers: Record<string, (options: { requestId: string }) => AIProvider> = {
+  'lovable': createLovableProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'mock': createMockProvider,
+};
+
+/**
+ * Picks the AI provider from `AI_PROVIDER` (default `lovable`):
+ * - `lovable`: the Lovable AI gateway, using `LOVABLE_API_KEY`
+ * - `openai-compatible`: `AI_BASE_URL` with optional `AI_API_KEY`, `AI_MODEL_MAP`,
+ *   `AI_DEFAULT_MODEL` and `AI_CAPABILITIES` (comma-separated: streaming, images, vision, tools)
+ * - `mock`: deterministic local responses that cost nothing
+ */
+export const createProvider = ({ requestId }: { requestId: string }) => {
+  const name = Deno.env.get('AI_PROVIDER') || 'lovable';
+  const create = providers[name];
+  if (!create) {
+    throw new ConfigurationError(`Unknown AI_PROVIDER "${name}". Use one of ${Object.keys(providers).join(', ')}`);
+  }
+  return create({ requestId });
+};
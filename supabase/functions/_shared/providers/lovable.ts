@@ -0,0 +1,49 @@
+import { ConfigurationError, GatewayError } from "../errors.ts";
+import { createOpenAIClient } from "./openai.ts";
+import { AIProvider, ImageRequest, ImageResult } from "./types.ts";
+
+const BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+
+// The studio's model ids are the gateway's own, so no mapping is needed
+export const createLovableProvider = ({ requestId }: { requestId: string }): AIProvider => {
+  const apiKey = Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) {
+    throw new ConfigurationError('LOVABLE_API_KEY not configured');
+  }
+
+  const client = createOpenAIClient({ name: 'AI Gateway', baseUrl: BASE_URL, apiKey, requestId });
+
+  return {
+    name: 'lovable',
+    capabilities: { streaming: true, images: true, vision: true, tools: true },
+    resolveModel: (model) => model,
+    chat: client.chat,
+    chatStream: client.chatStream,
+    chatJson: (request, output) => client.chatJson(request, output, { tools: true }),
+
+    // Image models answer through chat completions with an image modality
+    image: async ({ model, prompt, images = [] }: ImageRequest): Promise<ImageResult> => {
+      const data = await (await client.post('/chat/completions', {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: images.length > 0
+              ? [
+                  { type: 'text', text: prompt },
+                  ...images.map((url) => ({ type: 'image_url', image_url: { url } })),
+                ]
+              : prompt,
+          },
+        ],
+        modalities: ['image', 'text'],
+      })).json();
+
+      const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      if (!imageUrl) {
+        throw new GatewayError('No image generated');
+      }
+      return { imageUrl, model: data.model ?? model };
+    },
+  };
+};
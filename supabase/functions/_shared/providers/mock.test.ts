@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock.ts";
+import { ChatRequest } from "./types.ts";
+
+const provider = createMockProvider();
+
+const request = (content: string, options: Partial<ChatRequest> = {}): ChatRequest => ({
+  model: 'mock',
+  messages: [{ role: 'user', content }],
+  ...options,
+});
+
+const readStream = async (stream: ReadableStream<Uint8Array>) => new Response(stream).text();
+
+describe('createMockProvider', () => {
+  it('answers the same request the same way, echoing the prompt', async () => {
+    const reply = await provider.chat(request('Write a haiku'));
+    expect(reply.model).toBe('mock');
+    expect(reply.text.startsWith('You asked: "Write a haiku"')).toBe(true);
+    expect(await provider.chat(request('Write a haiku'))).toEqual(reply);
+  });
+
+  it('honours stop sequences and max tokens', async () => {
+    expect((await provider.chat(request('Hi', { stop: ['asked'] }))).text).toBe('You ');
+    // Four characters a token
+    expect((await provider.chat(request('Hi', { max_tokens: 2 }))).text).toBe('You aske');
+  });
+
+  it('streams the reply as OpenAI-style chunks', async () => {
+    const events = (await readStream(await provider.chatStream(request('Hi')))).trim().split('\n\n');
+    expect(events.at(-1)).toBe('data: [DONE]');
+
+    const text = events
+      .slice(0, -1)
+      .map((event) => JSON.parse(event.replace(/^data: /, '')).choices[0].delta.content)
+      .join('');
+    expect(text).toBe((await provider.chat(request('Hi'))).text);
+  });
+
+  it('shapes JSON replies by the schema', async () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        rating: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } },
+        mood: { enum: ['happy', 'sad'] },
+        kind: { const: 'review' },
+      },
+    };
+    const value = JSON.parse((await provider.chatJson(request('Review'), { name: 'review', schema })).text);
+
+    expect(Object.keys(value)).toEqual(['title', 'rating', 'tags', 'mood', 'kind']);
+    expect(typeof value.title).toBe('string');
+    expect(Number.isInteger(value.rating)).toBe(true);
+    expect(value.tags).toHaveLength(1);
+    expect(['happy', 'sad']).toContain(value.mood);
+    expect(value.kind).toBe('review');
+  });
+
+  it('draws a PNG data URL that depends on the prompt', async () => {
+    const { imageUrl } = await provider.image({ model: 'mock', prompt: 'A sunset' });
+    expect(imageUrl.startsWith('data:image/png;base64,iVBORw0KGgo')).toBe(true);
+    expect((await provider.image({ model: 'mock', prompt: 'A sunset' })).imageUrl).toBe(imageUrl);
+    expect((await provider.image({ model: 'mock', prompt: 'A forest' })).imageUrl).not.toBe(imageUrl);
+  }, 30_000);
+});
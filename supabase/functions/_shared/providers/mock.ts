@@ -0,0 +1,120 @@
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { AIProvider, ChatMessage, ChatRequest, ImageRequest, ImageResult, JsonOutput } from "./types.ts";
+
+const MODEL = 'mock';
+const IMAGE_SIZE = 512;
+
+// FNV-1a, so the same input always produces the same output
+const hash = (value: string) => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+};
+
+const encodeBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+
+const textOf = (message: ChatMessage | undefined) =>
+  typeof message?.content === 'string'
+    ? message.content
+    : message?.content.map((part) => (part.type === 'text' ? part.text : '[image]')).join(' ') ?? '';
+
+const sentences = [
+  'This is a deterministic reply from the mock AI provider.',
+  'No credits were spent and no network was used.',
+  'Switch AI_PROVIDER to talk to a real model.',
+  'The same request always produces the same response.',
+];
+
+const mockReply = ({ messages, max_tokens, stop = [] }: ChatRequest) => {
+  const prompt = textOf([...messages].reverse().find((message) => message.role === 'user'));
+  const seed = hash(JSON.stringify(messages));
+  let text = [
+    `You asked: "${prompt.slice(0, 200)}"`,
+    ...Array.from({ length: 3 }, (_, i) => sentences[(seed + i) % sentences.length]),
+  ].join('\n\n');
+
+  for (const sequence of stop) {
+    const index = text.indexOf(sequence);
+    if (index !== -1) text = text.slice(0, index);
+  }
+  // Roughly four characters per token
+  return max_tokens ? text.slice(0, max_tokens * 4) : text;
+};
+
+type Schema = Record<string, unknown>;
+
+// A value shaped by the schema: every property present, one item per array, enums pick one of their options
+const mockValue = (schema: Schema, seed: number): unknown => {
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[seed % schema.enum.length];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Schema>;
+      return Object.fromEntries(Object.entries(properties).map(([key, property], i) => [key, mockValue(property, seed + i)]));
+    }
+    case 'array':
+      return [mockValue((schema.items ?? {}) as Schema, seed)];
+    case 'integer':
+    case 'number':
+      return seed % 100;
+    case 'boolean':
+      return seed % 2 === 0;
+    case 'null':
+      return null;
+    default:
+      return sentences[seed % sentences.length];
+  }
+};
+
+const mockJson = ({ messages }: ChatRequest, { schema }: JsonOutput) =>
+  JSON.stringify(mockValue(schema, hash(JSON.stringify(messages))));
+
+const toEventStream = (text: string) => {
+  const encoder = new TextEncoder();
+  const words = text.match(/\S+\s*/g) ?? [];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const word of words) {
+        const chunk = { model: MODEL, choices: [{ delta: { content: word } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+};
+
+// A two-colour gradient picked from the prompt
+const mockImage = async ({ prompt, images = [] }: ImageRequest) => {
+  const seed = hash(`${prompt}\n${images.join('\n')}`);
+  const from = [seed & 0xff, (seed >> 8) & 0xff, (seed >> 16) & 0xff];
+  const to = [255 - from[0], 255 - from[1], 255 - from[2]];
+  const image = new Image(IMAGE_SIZE, IMAGE_SIZE);
+
+  for (let y = 1; y <= IMAGE_SIZE; y++) {
+    for (let x = 1; x <= IMAGE_SIZE; x++) {
+      const t = (x + y) / (IMAGE_SIZE * 2);
+      const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * t));
+      image.setPixelAt(x, y, Image.rgbaToColor(r, g, b, 255));
+    }
+  }
+
+  // A fixed creation time, as the encoder otherwise stamps the current one into the file
+  return `data:image/png;base64,${encodeBase64(await image.encode(1, { creationTime: 0 }))}`;
+};
+
+// Answers everything locally and deterministically, for offline development and tests
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+  capabilities: { streaming: true, images: true, vision: true, tools: true },
+  resolveModel: () => MODEL,
+  chat: async (request) => ({ text: mockReply(request), model: MODEL }),
+  chatStream: async (request) => toEventStream(mockReply(request)),
+  chatJson: async (request, output) => ({ text: mockJson(request, output), model: MODEL }),
+  image: async (request): Promise<ImageResult> => ({ imageUrl: await mockImage(request), model: MODEL }),
+});
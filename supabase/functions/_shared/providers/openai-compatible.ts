@@ -0,0 +1,77 @@
+import { ConfigurationError, GatewayError, UnsupportedCapabilityError } from "../errors.ts";
+import { createOpenAIClient } from "./openai.ts";
+import { AIProvider, ImageRequest, ImageResult, ProviderCapabilities } from "./types.ts";
+
+const parseModelMap = (value: string | undefined): Record<string, string> => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('not an object');
+    return parsed;
+  } catch (error) {
+    throw new ConfigurationError(`AI_MODEL_MAP must be a JSON object: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Local servers rarely generate images, so only streaming is assumed
+const parseCapabilities = (value: string | undefined): ProviderCapabilities => {
+  const flags = (value ?? 'streaming').split(',').map((flag) => flag.trim());
+  return {
+    streaming: flags.includes('streaming'),
+    images: flags.includes('images'),
+    vision: flags.includes('vision'),
+    tools: flags.includes('tools'),
+  };
+};
+
+/**
+ * Any server exposing the OpenAI API under `AI_BASE_URL`, e.g. Ollama at
+ * http://localhost:11434/v1. Studio model ids are mapped through
+ * `AI_MODEL_MAP`, falling back to `AI_DEFAULT_MODEL`.
+ */
+export const createOpenAICompatibleProvider = ({ requestId }: { requestId: string }): AIProvider => {
+  const baseUrl = Deno.env.get('AI_BASE_URL');
+  if (!baseUrl) {
+    throw new ConfigurationError('AI_BASE_URL not configured');
+  }
+
+  const models = parseModelMap(Deno.env.get('AI_MODEL_MAP'));
+  const defaultModel = Deno.env.get('AI_DEFAULT_MODEL');
+  const capabilities = parseCapabilities(Deno.env.get('AI_CAPABILITIES'));
+  const client = createOpenAIClient({
+    name: 'OpenAI-compatible provider',
+    baseUrl,
+    apiKey: Deno.env.get('AI_API_KEY'),
+    requestId,
+  });
+
+  return {
+    name: 'openai-compatible',
+    capabilities,
+    resolveModel: (model) => models[model] ?? defaultModel ?? model,
+    chat: client.chat,
+    chatStream: client.chatStream,
+    chatJson: (request, output) => client.chatJson(request, output, capabilities),
+
+    // The images API only generates from text
+    image: async ({ model, prompt, images = [] }: ImageRequest): Promise<ImageResult> => {
+      if (images.length > 0) {
+        throw new UnsupportedCapabilityError('Image editing is not supported by the configured AI provider');
+      }
+
+      const data = await (await client.post('/images/generations', {
+        model,
+        prompt,
+        n: 1,
+        response_format: 'b64_json',
+      })).json();
+
+      const image = data.data?.[0];
+      const imageUrl = image?.b64_json ? `data:image/png;base64,${image.b64_json}` : image?.url;
+      if (!imageUrl) {
+        throw new GatewayError('No image generated');
+      }
+      return { imageUrl, model };
+    },
+  };
+};
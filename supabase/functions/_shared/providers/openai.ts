@@ -0,0 +1,99 @@
+import { GatewayError, PaymentRequiredError, RateLimitError } from "../errors.ts";
+import { ChatCompletion, ChatRequest, JsonOutput } from "./types.ts";
+
+interface OpenAIClientOptions {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  requestId: string;
+}
+
+// `Retry-After` is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) ? Math.max(ms, 0) : undefined;
+};
+
+const toGatewayError = (name: string, response: Response, body: string) => {
+  const { status } = response;
+  if (status === 429) return new RateLimitError(undefined, parseRetryAfter(response.headers.get('Retry-After')));
+  if (status === 402) return new PaymentRequiredError();
+  return new GatewayError(`${name} error: ${status} ${body}`, 502, 'gateway_error', { retryable: status >= 500 });
+};
+
+/**
+ * Minimal client for the OpenAI-compatible HTTP API that both the Lovable
+ * gateway and local servers (Ollama, llama.cpp, LocalAI) speak.
+ */
+export const createOpenAIClient = ({ name, baseUrl, apiKey, requestId }: OpenAIClientOptions) => {
+  const post = async (path: string, body: Record<string, unknown>) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+          'Content-Type': 'application/json',
+          'X-Request-Id': requestId,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new GatewayError(
+        `Could not reach ${name}: ${error instanceof Error ? error.message : error}`,
+        502,
+        'gateway_error',
+        { retryable: true },
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${name} error [${requestId}]:`, response.status, errorText);
+      throw toGatewayError(name, response, errorText);
+    }
+
+    return response;
+  };
+
+  return {
+    post,
+
+    chat: async (request: ChatRequest): Promise<ChatCompletion> => {
+      const data = await (await post('/chat/completions', { ...request, stream: false })).json();
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new GatewayError('No text generated');
+      }
+      return { text, model: data.model ?? request.model };
+    },
+
+    // Forces a call to a tool taking the schema as its parameters, or sends the
+    // schema as `response_format` for servers without function calling
+    chatJson: async (request: ChatRequest, { name, schema }: JsonOutput, { tools }: { tools: boolean }): Promise<ChatCompletion> => {
+      const format = tools
+        ? {
+            tools: [{ type: 'function', function: { name, description: 'Record the response', parameters: schema } }],
+            tool_choice: { type: 'function', function: { name } },
+          }
+        : { response_format: { type: 'json_schema', json_schema: { name, schema } } };
+      const data = await (await post('/chat/completions', { ...request, ...format, stream: false })).json();
+      const message = data.choices?.[0]?.message;
+      const text = message?.tool_calls?.[0]?.function?.arguments ?? message?.content;
+      if (!text) {
+        throw new GatewayError('No output generated');
+      }
+      return { text, model: data.model ?? request.model };
+    },
+
+    chatStream: async (request: ChatRequest) => {
+      const response = await post('/chat/completions', { ...request, stream: true });
+      if (!response.body) {
+        throw new GatewayError('Empty response stream');
+      }
+      return response.body;
+    },
+  };
+};
@@ -0,0 +1,67 @@
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+}
+
+// A JSON Schema the reply must follow
+export interface JsonOutput {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatCompletion {
+  text: string;
+  model: string;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  // Data URLs or https URLs of images to edit
+  images?: string[];
+}
+
+export interface ImageResult {
+  imageUrl: string;
+  model: string;
+}
+
+export interface ProviderCapabilities {
+  // Token-by-token SSE; without it streamed requests get the whole reply as one chunk
+  streaming: boolean;
+  // Image generation
+  images: boolean;
+  // Images as input, for chat messages and image edits
+  vision: boolean;
+  // Function calling, used for structured output; without it the schema goes in `response_format`
+  tools: boolean;
+}
+
+/**
+ * A backend that answers chat and image requests. Requests arrive with the
+ * provider's own model names; `resolveModel` maps the studio's ids onto them.
+ */
+export interface AIProvider {
+  name: string;
+  capabilities: ProviderCapabilities;
+  resolveModel: (model: string) => string;
+  chat: (request: ChatRequest) => Promise<ChatCompletion>;
+  // An OpenAI-style SSE stream of chat completion chunks
+  chatStream: (request: ChatRequest) => Promise<ReadableStream<Uint8Array>>;
+  // A reply whose text is a JSON document shaped by `output`. Providers are asked, not trusted: validate it.
+  chatJson: (request: ChatRequest, output: JsonOutput) => Promise<ChatCompletion>;
+  image: (request: ImageRequest) => Promise<ImageResult>;
+}
@@ -0,0 +1,42 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { QuotaExceededError } from "./errors.ts";
+
+export type GenerationKind = 'text' | 'image';
+
+export interface CreditReservation {
+  // Gives the generation back; safe to call more than once
+  refund: () => Promise<void>;
+}
+
+/**
+ * Reserves one generation from the user's daily quota before the gateway is
+ * called. Throws `QuotaExceededError` once the quota is used up. Debits for a
+ * background job record its id, so they are refunded if the job goes stale.
+ */
+export const reserveCredit = async (
+  admin: SupabaseClient,
+  userId: string,
+  kind: GenerationKind,
+  jobId?: string,
+): Promise<CreditReservation> => {
+  const { data: debitId, error } = await admin.rpc('debit_credits', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_job_id: jobId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check quota: ${error.message}`);
+  }
+
+  if (!debitId) {
+    throw new QuotaExceededError(`Daily ${kind} generation limit reached. Your quota resets at midnight UTC.`);
+  }
+
+  return {
+    refund: async () => {
+      const { error: refundError } = await admin.rpc('refund_credits', { p_entry_id: debitId });
+      if (refundError) console.error('Failed to refund quota debit:', refundError);
+    },
+  };
+};
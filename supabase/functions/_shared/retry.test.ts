@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BadRequestError, GatewayError, RateLimitError } from "./errors.ts";
+import { withRetry } from "./retry.ts";
+
+const upstreamError = () => new GatewayError('Upstream failed', 502, 'gateway_error', { retryable: true });
+
+// A task that fails with `errors` in turn, then answers "ok"
+const failing = (...errors: Error[]) =>
+  vi.fn(async () => {
+    const error = errors.shift();
+    if (error) throw error;
+    return 'ok';
+  });
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable errors with exponential backoff', async () => {
+    const task = failing(upstreamError(), upstreamError());
+    const result = withRetry(task, { baseDelayMs: 100 });
+
+    // With no jitter each wait is half the backoff: 50ms, then 100ms
+    await vi.advanceTimersByTimeAsync(49);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(result).resolves.toEqual({ value: 'ok', attempts: 3 });
+  });
+
+  it('waits as long as Retry-After asks instead of backing off', async () => {
+    const task = failing(new RateLimitError(undefined, 3000));
+    const result = withRetry(task, { baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ value: 'ok', attempts: 2 });
+  });
+
+  it('gives up when the next attempt could not start before the deadline', async () => {
+    const error = new RateLimitError(undefined, 5000);
+    const task = failing(error);
+
+    await expect(withRetry(task, { deadline: Date.now() + 4000 })).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(error.attempts).toBe(1);
+  });
+
+  it('stops after the last attempt and records how many were made', async () => {
+    const error = upstreamError();
+    const task = failing(upstreamError(), error);
+    const result = withRetry(task, { maxAttempts: 2, baseDelayMs: 100 });
+    const rejected = expect(result).rejects.toBe(error);
+
+    await vi.advanceTimersByTimeAsync(50);
+    await rejected;
+    expect(error.attempts).toBe(2);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const error = new BadRequestError('Bad prompt');
+    const task = failing(error);
+
+    await expect(withRetry(task)).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { GatewayError, HttpError } from "./errors.ts";
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Epoch ms after which no new attempt is started
+  deadline?: number;
+}
+
+export interface RetryResult<T> {
+  value: T;
+  attempts: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls `task` until it succeeds, retrying retryable `GatewayError`s (429,
+ * upstream 5xx, network failures) with capped exponential backoff and jitter.
+ * A `Retry-After` from the provider overrides the backoff. Gives up when the
+ * next attempt could not start before the deadline; the last error then
+ * carries the number of attempts made.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  { maxAttempts = 4, baseDelayMs = 500, maxDelayMs = 8000, deadline = Infinity }: RetryOptions = {},
+): Promise<RetryResult<T>> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await task(), attempts: attempt };
+    } catch (error) {
+      const giveUp = () => {
+        if (error instanceof HttpError) error.attempts = attempt;
+        return error;
+      };
+
+      if (!(error instanceof GatewayError) || !error.retryable || attempt >= maxAttempts) {
+        throw giveUp();
+      }
+
+      // Equal jitter: at least half the backoff so retries still spread out
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = error.retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+      if (Date.now() + delay >= deadline) {
+        throw giveUp();
+      }
+
+      console.warn(`Attempt ${attempt} failed, retrying in ${Math.round(delay)}ms:`, error.message);
+      await sleep(delay);
+    }
+  }
+};
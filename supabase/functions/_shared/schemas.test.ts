@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { chatInputSchema, MAX_CHAT_MESSAGE_LENGTH, textParamsSchema, textRequestSchema } from "./schemas.ts";
+
+const schemaId = '00000000-0000-4000-8000-000000000001';
+
+// Messages of a failed parse, keyed by the field they are about
+const issuesOf = (request: unknown) => {
+  const result = textRequestSchema.safeParse(request);
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe('textRequestSchema', () => {
+  it('fills in defaults for a plain prompt', () => {
+    expect(textRequestSchema.parse({ prompt: '  Write a haiku  ' })).toMatchObject({
+      prompt: 'Write a haiku',
+      type: 'creative',
+      messages: [],
+      stream: false,
+      fresh: false,
+      structured: null,
+      edit: null,
+    });
+  });
+
+  it('needs a prompt, a chat history or an edit', () => {
+    expect(issuesOf({})).toEqual({ prompt: ['Please enter a prompt'] });
+    expect(issuesOf({ messages: [{ role: 'user', content: 'Hi' }] })).toEqual({});
+    expect(issuesOf({ edit: { action: 'shorten', selection: 'Some text' } })).toEqual({});
+  });
+
+  it('needs the chat history to end with the user', () => {
+    const messages = [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }];
+    expect(issuesOf({ messages })).toEqual({ messages: ['The last message must come from the user'] });
+  });
+
+  it('does not combine edits with a chat history or structured output', () => {
+    const edit = { action: 'rewrite', selection: 'Some text' };
+    const message = ['Edits cannot be combined with a chat history or structured output'];
+    expect(issuesOf({ edit, messages: [{ role: 'user', content: 'Hi' }] })).toEqual({ edit: message });
+    expect(issuesOf({ prompt: 'Hi', edit, structured: { schemaId } })).toEqual({ edit: message });
+  });
+
+  it('does not stream structured output', () => {
+    expect(issuesOf({ prompt: 'Hi', structured: { schemaId }, stream: true })).toEqual({
+      stream: ['Structured output is validated as a whole and cannot be streamed'],
+    });
+  });
+
+  it('reports every broken rule at once', () => {
+    expect(Object.keys(issuesOf({ messages: [{ role: 'assistant', content: 'Hi' }], structured: { schemaId }, stream: true }))).toEqual([
+      'stream',
+      'messages',
+    ]);
+  });
+});
+
+describe('textParamsSchema', () => {
+  it('drops blank stop sequences before counting them', () => {
+    expect(textParamsSchema.parse({ stop: ['', 'END', '', '###', '', '', ''] }).stop).toEqual(['END', '###']);
+    expect(textParamsSchema.safeParse({ stop: ['a', 'b', 'c', 'd', 'e'] }).success).toBe(false);
+  });
+});
+
+describe('chatInputSchema', () => {
+  it('trims the message and rejects blank or overlong ones', () => {
+    expect(chatInputSchema.parse({ content: '  Hi  ' })).toEqual({ content: 'Hi' });
+    expect(chatInputSchema.safeParse({ content: '   ' }).error?.issues[0].message).toBe('Please enter a message');
+    expect(chatInputSchema.safeParse({ content: 'a'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1) }).success).toBe(false);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Request schemas shared by the edge functions and the studio's forms
+ * (imported there as `@shared/schemas`), so both sides agree on what a valid
+ * request is. Keep this file free of Deno- and browser-only APIs.
+ */
+import { z } from "zod";
+
+export const MAX_PROMPT_LENGTH = 4000;
+export const MAX_CHAT_MESSAGES = 100;
+export const MAX_CHAT_MESSAGE_LENGTH = 20000;
+
+export const promptSchema = z
+  .string({ invalid_type_error: 'Prompt must be text' })
+  .trim()
+  .min(1, 'Please enter a prompt')
+  .max(MAX_PROMPT_LENGTH, `Prompts are limited to ${MAX_PROMPT_LENGTH} characters`);
+
+// Text
+
+export const writingStyles = ['creative', 'professional', 'casual', 'technical', 'marketing'] as const;
+
+export const textModels = ['google/gemini-2.5-flash', 'google/gemini-2.5-pro', 'google/gemini-2.5-flash-lite'] as const;
+
+export const MAX_OUTPUT_TOKENS = 8192;
+export const MAX_STOP_SEQUENCES = 4;
+export const MAX_STOP_SEQUENCE_LENGTH = 32;
+
+export const textParamsSchema = z.object({
+  model: z.enum(textModels).default('google/gemini-2.5-flash'),
+  temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature must be at most 2').default(0.8),
+  topP: z.number().gt(0, 'Top P must be greater than 0').max(1, 'Top P must be at most 1').default(1),
+  // null leaves the limit to the model
+  maxTokens: z
+    .number()
+    .int('Max output tokens must be a whole number')
+    .min(1, 'Max output tokens must be at least 1')
+    .max(MAX_OUTPUT_TOKENS, `Max output tokens must be at most ${MAX_OUTPUT_TOKENS}`)
+    .nullable()
+    .default(null),
+  // Blank lines in the stop sequences box are not sequences
+  stop: z
+    .array(z.string().max(MAX_STOP_SEQUENCE_LENGTH, `Stop sequences are limited to ${MAX_STOP_SEQUENCE_LENGTH} characters`))
+    .transform((stop) => stop.filter(Boolean))
+    .pipe(z.array(z.string()).max(MAX_STOP_SEQUENCES, `Up to ${MAX_STOP_SEQUENCES} stop sequences are supported`))
+    .default([]),
+});
+
+export type TextParams = z.infer<typeof textParamsSchema>;
+
+export const defaultTextParams: TextParams = textParamsSchema.parse({});
+
+// A built-in style, or the id of a custom one
+export const styleSchema = z.union([z.enum(writingStyles), z.string().uuid()], {
+  errorMap: () => ({ message: `Writing style must be one of ${writingStyles.join(', ')} or a custom style` }),
+});
+
+// What the text form submits
+export const textGenerationSchema = z.object({
+  prompt: promptSchema,
+  type: styleSchema,
+  params: textParamsSchema.default({}),
+});
+
+export type TextGenerationValues = z.infer<typeof textGenerationSchema>;
+
+// Structured output
+
+export const MAX_JSON_SCHEMA_LENGTH = 20000;
+export const MAX_SCHEMA_NAME_LENGTH = 60;
+
+// The shape of a structured reply. Tool calling needs an object at the top level.
+export const jsonSchemaSchema = z
+  .record(z.unknown(), { invalid_type_error: 'The schema must be a JSON object' })
+  .refine((schema) => JSON.stringify(schema).length <= MAX_JSON_SCHEMA_LENGTH, `Schemas are limited to ${MAX_JSON_SCHEMA_LENGTH} characters`)
+  .refine((schema) => schema.type === 'object', 'The schema must describe an object ("type": "object")');
+
+export type JsonSchema = z.infer<typeof jsonSchemaSchema>;
+
+// A schema sent with the request, or the id of one the user saved
+export const structuredOutputSchema = z
+  .object({
+    schema: jsonSchemaSchema.optional(),
+    schemaId: z.string().uuid('Schema must be a saved schema id').optional(),
+  })
+  .refine(({ schema, schemaId }) => !schema !== !schemaId, { path: ['schema'], message: 'Send either a schema or the id of a saved one' });
+
+export type StructuredOutput = z.infer<typeof structuredOutputSchema>;
+
+export const savedJsonSchemaSchema = z.object({
+  name: z.string().trim().min(1, 'Please name the schema').max(MAX_SCHEMA_NAME_LENGTH, `Names are limited to ${MAX_SCHEMA_NAME_LENGTH} characters`),
+  schema: jsonSchemaSchema,
+});
+
+export type SavedJsonSchemaValues = z.infer<typeof savedJsonSchemaSchema>;
+
+// Inline edits
+
+export const editActions = ['rewrite', 'expand', 'shorten', 'tone', 'grammar'] as const;
+
+export const MAX_EDIT_CONTEXT_LENGTH = 2000;
+export const MAX_TONE_LENGTH = 40;
+
+export type EditAction = typeof editActions[number];
+
+// A passage of an existing text to rework, with the text around it for context
+export const textEditSchema = z
+  .object({
+    action: z.enum(editActions, { errorMap: () => ({ message: `Edits must be one of ${editActions.join(', ')}` }) }),
+    selection: z
+      .string()
+      .max(MAX_PROMPT_LENGTH, `Edits are limited to ${MAX_PROMPT_LENGTH} selected characters`)
+      .refine((selection) => selection.trim().length > 0, 'Select some text to edit'),
+    before: z.string().max(MAX_EDIT_CONTEXT_LENGTH).default(''),
+    after: z.string().max(MAX_EDIT_CONTEXT_LENGTH).default(''),
+    // The tone to change to, for `tone` edits
+    tone: z.string().trim().max(MAX_TONE_LENGTH, `Tones are limited to ${MAX_TONE_LENGTH} characters`).optional(),
+  })
+  .refine(({ action, tone }) => action !== 'tone' || !!tone, { path: ['tone'], message: 'Choose a tone' });
+
+export type TextEdit = z.infer<typeof textEditSchema>;
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().max(MAX_CHAT_MESSAGE_LENGTH, `Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters`),
+});
+
+// What the chat form submits: the user's next message
+export const chatInputSchema = z.object({
+  content: chatMessageSchema.shape.content.trim().min(1, 'Please enter a message'),
+});
+
+export type ChatInputValues = z.infer<typeof chatInputSchema>;
+
+// What generate-text accepts: a prompt, or a chat history ending with the user
+export const textRequestSchema = textGenerationSchema
+  .extend({
+    prompt: promptSchema.optional(),
+    type: styleSchema.default('creative'),
+    // Chat threads send their whole history instead of a single prompt
+    messages: z.array(chatMessageSchema).max(MAX_CHAT_MESSAGES, `Conversations are limited to ${MAX_CHAT_MESSAGES} messages`).default([]),
+    stream: z.boolean().default(false),
+    // Skip the response cache, for a new take on the same request
+    fresh: z.boolean().default(false),
+    // Answer with JSON matching a schema instead of prose
+    structured: structuredOutputSchema.nullable().default(null),
+    // Rework a passage of an earlier reply instead of answering a prompt
+    edit: textEditSchema.nullable().default(null),
+  })
+  .superRefine(({ prompt, messages, stream, structured, edit }, ctx) => {
+    if (!prompt && messages.length === 0 && !edit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prompt'], message: 'Please enter a prompt' });
+    }
+    if (edit && (messages.length > 0 || structured)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edit'], message: 'Edits cannot be combined with a chat history or structured output' });
+    }
+    if (structured && stream) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stream'], message: 'Structured output is validated as a whole and cannot be streamed' });
+    }
+    if (messages.length > 0 && messages[messages.length - 1].role !== 'user') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['messages'], message: 'The last message must come from the user' });
+    }
+  });
+
+export type TextRequest = z.infer<typeof textRequestSchema>;
+
+// Custom writing styles
+
+export const MAX_STYLE_NAME_LENGTH = 40;
+export const MAX_SYSTEM_PROMPT_LENGTH = 2000;
+export const MAX_STYLE_EXAMPLES = 5;
+export const MAX_STYLE_EXAMPLE_LENGTH = 200;
+
+export const writingStyleSchema = z.object({
+  name: z.string().trim().min(1, 'Please name the style').max(MAX_STYLE_NAME_LENGTH, `Names are limited to ${MAX_STYLE_NAME_LENGTH} characters`),
+  // Short enough for one emoji, including skin tones and joined sequences
+  emoji: z.string().trim().min(1, 'Pick an emoji').max(16, 'Use a single emoji'),
+  systemPrompt: z
+    .string()
+    .trim()
+    .min(1, 'Describe how the style should write')
+    .max(MAX_SYSTEM_PROMPT_LENGTH, `System prompts are limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters`),
+  temperature: textParamsSchema.shape.temperature,
+  // Blank lines in the examples box are not examples
+  examples: z
+    .array(z.string().trim().max(MAX_STYLE_EXAMPLE_LENGTH, `Examples are limited to ${MAX_STYLE_EXAMPLE_LENGTH} characters`))
+    .transform((examples) => examples.filter(Boolean))
+    .pipe(z.array(z.string()).max(MAX_STYLE_EXAMPLES, `Up to ${MAX_STYLE_EXAMPLES} example prompts are supported`))
+    .default([]),
+  // Visible to everyone in the owner's workspace
+  shared: z.boolean().default(false),
+});
+
+export type WritingStyleValues = z.infer<typeof writingStyleSchema>;
+
+const styleIdSchema = z.string().uuid('Style must be a style id');
+
+export const styleRequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create'), style: writingStyleSchema }),
+  z.object({ action: z.literal('update'), id: styleIdSchema, style: writingStyleSchema }),
+  z.object({ action: z.literal('delete'), id: styleIdSchema }),
+]);
+
+export type StyleRequest = z.infer<typeof styleRequestSchema>;
+
+// Workspaces
+
+export const MAX_WORKSPACE_NAME_LENGTH = 60;
+
+export const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Please name the workspace')
+  .max(MAX_WORKSPACE_NAME_LENGTH, `Names are limited to ${MAX_WORKSPACE_NAME_LENGTH} characters`);
+
+export const workspaceRequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create'), name: workspaceNameSchema }),
+  z.object({ action: z.literal('join'), inviteCode: z.string().trim().min(1, 'Enter an invite code') }),
+  z.object({ action: z.literal('leave') }),
+]);
+
+export type WorkspaceRequest = z.infer<typeof workspaceRequestSchema>;
+
+// Prompt templates
+
+export const templateFieldTypes = ['text', 'longtext', 'number', 'select'] as const;
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+export const MAX_TEMPLATE_FIELDS = 20;
+export const MAX_SELECT_OPTIONS = 20;
+export const MAX_VARIABLE_LENGTH = 2000;
+
+// `{{name}}`, with optional spaces inside the braces
+const placeholderPattern = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Placeholder names in order of first appearance
+export const getPlaceholders = (body: string) => [...new Set(Array.from(body.matchAll(placeholderPattern), (match) => match[1]))];
+
+// Replaces each placeholder with its value; unknown names are left as written
+export const fillTemplate = (body: string, values: Record<string, string | number>) =>
+  body.replace(placeholderPattern, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
+
+export const templateFieldSchema = z
+  .object({
+    name: z.string(),
+    label: z.string().trim().min(1, 'Please label the field').max(MAX_TEMPLATE_NAME_LENGTH, `Labels are limited to ${MAX_TEMPLATE_NAME_LENGTH} characters`),
+    type: z.enum(templateFieldTypes),
+    // Choices for select fields
+    options: z
+      .array(z.string().trim())
+      .transform((options) => [...new Set(options.filter(Boolean))])
+      .pipe(z.array(z.string()).max(MAX_SELECT_OPTIONS, `Up to ${MAX_SELECT_OPTIONS} options are supported`))
+      .default([]),
+    defaultValue: z.string().max(MAX_VARIABLE_LENGTH).default(''),
+  })
+  .superRefine(({ type, options }, ctx) => {
+    if (type === 'select' && options.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Add at least one option' });
+    }
+  });
+
+export type TemplateField = z.infer<typeof templateFieldSchema>;
+
+export const promptTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Please name the template').max(MAX_TEMPLATE_NAME_LENGTH, `Names are limited to ${MAX_TEMPLATE_NAME_LENGTH} characters`),
+    body: z.string().trim().min(1, 'Please write the template').max(MAX_PROMPT_LENGTH, `Templates are limited to ${MAX_PROMPT_LENGTH} characters`),
+    fields: z.array(templateFieldSchema).max(MAX_TEMPLATE_FIELDS, `Up to ${MAX_TEMPLATE_FIELDS} variables are supported`),
+  })
+  .superRefine(({ body, fields }, ctx) => {
+    const names = new Set(fields.map((field) => field.name));
+    const missing = getPlaceholders(body).filter((name) => !names.has(name));
+    if (missing.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: `Describe ${missing.map((name) => `{{${name}}}`).join(', ')}` });
+    }
+  });
+
+export type PromptTemplateValues = z.infer<typeof promptTemplateSchema>;
+
+// The template a generation was filled in from, stored alongside it
+export const templateUsageSchema = z.object({
+  id: z.string().uuid('Template must be a template id'),
+  variables: z.record(z.union([z.string().max(MAX_VARIABLE_LENGTH), z.number()])),
+});
+
+export type TemplateUsage = z.infer<typeof templateUsageSchema>;
+
+// Images
+
+export const aspectRatios = ['1:1', '4:5', '3:2', '16:9', '9:16'] as const;
+export const resolutions = [512, 1024, 1536, 2048] as const;
+export const outputFormats = ['png', 'jpeg', 'webp'] as const;
+
+export const MAX_SOURCE_IMAGES = 3;
+export const MAX_VARIATIONS = 8;
+// A 5 MB upload is just under 7 MB once base64 encoded
+const MAX_SOURCE_IMAGE_LENGTH = 7 * 1024 * 1024;
+
+export const imageSettingsSchema = z.object({
+  aspectRatio: z.enum(aspectRatios).default('1:1'),
+  resolution: z
+    .number()
+    .refine((value): value is typeof resolutions[number] => (resolutions as readonly number[]).includes(value), {
+      message: `Resolution must be one of ${resolutions.join(', ')}`,
+    })
+    .default(1024),
+  format: z.enum(outputFormats).default('png'),
+  quality: z.number().int('Quality must be a whole number').min(1, 'Quality must be at least 1').max(100, 'Quality must be at most 100').default(90),
+});
+
+export type ImageSettings = z.infer<typeof imageSettingsSchema>;
+
+export const defaultImageSettings: ImageSettings = imageSettingsSchema.parse({});
+
+// What the image form submits
+export const imageGenerationSchema = z.object({
+  prompt: promptSchema,
+  settings: imageSettingsSchema.default({}),
+  variations: z
+    .number()
+    .int('Variations must be a whole number')
+    .min(1, 'At least one variation is required')
+    .max(MAX_VARIATIONS, `Up to ${MAX_VARIATIONS} variations are supported`)
+    .default(1),
+});
+
+export type ImageGenerationValues = z.infer<typeof imageGenerationSchema>;
+
+// What generate-image accepts
+export const imageRequestSchema = imageGenerationSchema.extend({
+  // Source images for edits: uploaded data URLs or stored gallery URLs
+  images: z
+    .array(
+      z
+        .string()
+        .max(MAX_SOURCE_IMAGE_LENGTH, 'Source images are limited to 5 MB')
+        .regex(/^(data:image\/[a-z+.-]+;base64,|https:\/\/)/i, 'Source images must be image data URLs or https URLs')
+    )
+    .max(MAX_SOURCE_IMAGES, `Up to ${MAX_SOURCE_IMAGES} source images are supported`)
+    .default([]),
+  // Skip the response cache, for a new take on the same request
+  fresh: z.boolean().default(false),
+});
+
+export type ImageRequest = z.infer<typeof imageRequestSchema>;
+
+// Jobs
+
+export const jobRequestSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('text'),
+    input: textRequestSchema,
+    template: templateUsageSchema.nullable().default(null),
+  }),
+  z.object({
+    kind: z.literal('image'),
+    input: imageRequestSchema,
+    // The gallery image an edit descends from
+    parentId: z.string().uuid('Parent must be a generation id').nullable().default(null),
+    template: templateUsageSchema.nullable().default(null),
+  }),
+]);
+
+export type JobSubmission = z.infer<typeof jobRequestSchema>;
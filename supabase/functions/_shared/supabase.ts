@@ -0,0 +1,29 @@
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { ConfigurationError, UnauthorizedError } from "./errors.ts";
+
+const getEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new ConfigurationError(`${name} not configured`);
+  }
+  return value;
+};
+
+// Service-role client for quota bookkeeping and storage; never hand its results back unfiltered
+export const createAdminClient = () =>
+  createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_SERVICE_ROLE_KEY'));
+
+// Only signed-in users may spend gateway credits
+export const requireUser = async (req: Request): Promise<User> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new UnauthorizedError();
+  }
+
+  const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'));
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+  return user;
+};
@@ -0,0 +1,121 @@
+import { createCacheKey, createResponseCache, normalizePrompt } from "../_shared/cache.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { createGatewayClient } from "../_shared/gateway.ts";
+import { reserveCredit } from "../_shared/quota.ts";
+import { ImageRequest } from "../_shared/schemas.ts";
+import { createAdminClient } from "../_shared/supabase.ts";
+import { storeImage, StoredImage } from "./storage.ts";
+import { describeSettings } from "./settings.ts";
+
+export type { ImageRequest };
+
+const MODEL = 'google/gemini-2.5-flash-image-preview';
+const VARIATION_CONCURRENCY = 3;
+
+export type VariationResult =
+  | ({ index: number; ok: true; model: string; attempts: number; cached: boolean } & StoredImage)
+  | { index: number; ok: false; error: string; code: string; status: number; attempts: number };
+
+interface GenerationContext {
+  userId: string;
+  requestId: string;
+  // Set when running as a background job
+  jobId?: string;
+}
+
+// Runs `task` for every index with at most `limit` calls in flight
+const runWithConcurrency = async <T>(count: number, limit: number, task: (index: number) => Promise<T>) => {
+  const results: T[] = new Array(count);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, count) }, async () => {
+    while (next < count) {
+      const index = next++;
+      results[index] = await task(index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+};
+
+/**
+ * Generates every requested variation, each against its own credit, and
+ * stores the images. Variations fail independently; only when all of them
+ * fail is the first failure thrown, with every result in its details.
+ * A variation already in the response cache costs no credit; stored images
+ * are content-addressed, so cached ones simply share the stored files.
+ */
+export const generateImages = async (
+  { prompt, images, settings, variations, fresh }: ImageRequest,
+  { userId, requestId, jobId }: GenerationContext,
+) => {
+  const gateway = createGatewayClient({ requestId });
+  const admin = createAdminClient();
+  const cache = createResponseCache(admin);
+
+  const createVariation = async (index: number) => {
+    // Each variation reserves its own generation from the daily quota
+    const credit = await reserveCredit(admin, userId, 'image', jobId);
+
+    try {
+      // Nudge batch members apart so they are not near-duplicates
+      const instruction = [
+        prompt,
+        describeSettings(settings),
+        variations > 1 ? `Variation ${index + 1} of ${variations}: explore a distinct composition.` : null,
+      ].filter(Boolean).join('\n\n');
+
+      const { imageUrl, model, attempts } = await gateway.image({ model: MODEL, prompt: instruction, images });
+
+      // Persist the image instead of handing the raw data URL to the client
+      const storedImage = await storeImage(imageUrl, settings);
+      return { ...storedImage, model, attempts };
+    } catch (error) {
+      await credit.refund();
+      throw error;
+    }
+  };
+
+  // Each variation is cached on its own, since its instruction names its place in the batch
+  const generateVariation = async (index: number) => {
+    const key = await createCacheKey('image', {
+      provider: gateway.provider,
+      model: MODEL,
+      prompt: normalizePrompt(prompt),
+      images,
+      settings,
+      variation: index,
+      variations,
+    });
+    const { value, cached } = await cache.getOrCreate(key, () => createVariation(index), { fresh });
+    return { ...value, attempts: cached ? 0 : value.attempts, cached };
+  };
+
+  const results = await runWithConcurrency<VariationResult>(variations, VARIATION_CONCURRENCY, async (index) => {
+    try {
+      return { index, ok: true, ...(await generateVariation(index)) };
+    } catch (error) {
+      console.error(`[${requestId}] Variation ${index + 1} failed:`, error);
+      return {
+        index,
+        ok: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+        code: error instanceof HttpError ? error.code : 'internal_error',
+        status: error instanceof HttpError ? error.status : 500,
+        attempts: (error instanceof HttpError && error.attempts) || 1,
+      };
+    }
+  });
+
+  const failures = results.filter((result): result is Extract<VariationResult, { ok: false }> => !result.ok);
+  console.log(`[${requestId}] Generated ${results.length - failures.length} of ${results.length} image(s)`);
+
+  // Partial success is still a success; only report an error when nothing came back
+  if (failures.length === results.length) {
+    const [firstFailure] = failures;
+    const error = new HttpError(firstFailure.error, firstFailure.status, firstFailure.code, { results });
+    error.attempts = firstFailure.attempts;
+    throw error;
+  }
+
+  return { results, settings };
+};
@@ -0,0 +1,45 @@
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { getTargetSize } from "../_shared/image-size.ts";
+import { ImageSettings } from "../_shared/schemas.ts";
+
+const mimeTypes: Record<ImageSettings['format'], string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// The model does not take size parameters, so the prompt asks for the framing
+export const describeSettings = (settings: ImageSettings) => {
+  const { width, height } = getTargetSize(settings);
+  const orientation = width === height ? 'square' : width > height ? 'landscape' : 'portrait';
+  return `Compose the image for a ${settings.aspectRatio} ${orientation} frame (${width}x${height} pixels), keeping the main subject away from the edges.`;
+};
+
+/**
+ * Center-crops the model output to the requested aspect ratio, scales it to
+ * the exact target size and re-encodes it in the requested format.
+ */
+export const renderImage = async (image: Image, settings: ImageSettings) => {
+  const { width, height } = getTargetSize(settings);
+  const targetRatio = width / height;
+
+  let cropWidth = image.width;
+  let cropHeight = Math.round(image.width / targetRatio);
+  if (cropHeight > image.height) {
+    cropHeight = image.height;
+    cropWidth = Math.round(image.height * targetRatio);
+  }
+
+  const rendered = image
+    .clone()
+    .crop(Math.floor((image.width - cropWidth) / 2), Math.floor((image.height - cropHeight) / 2), cropWidth, cropHeight)
+    .resize(width, height);
+
+  const bytes = settings.format === 'png'
+    ? await rendered.encode()
+    : settings.format === 'jpeg'
+      ? await rendered.encodeJPEG(settings.quality)
+      : await rendered.encodeWEBP(settings.quality);
+
+  return { image: rendered, bytes, mimeType: mimeTypes[settings.format] };
+};
@@ -0,0 +1,91 @@
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { sha256 } from "../_shared/hash.ts";
+import { ImageSettings } from "../_shared/schemas.ts";
+import { createAdminClient } from "../_shared/supabase.ts";
+import { renderImage } from "./settings.ts";
+
+const BUCKET = 'generated-images';
+const THUMBNAIL_SIZE = 512;
+
+const extensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export interface StoredImage {
+  imageUrl: string;
+  thumbnailUrl: string;
+  storagePath: string;
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+// The gateway usually answers with a base64 data URL, occasionally with a hosted URL
+const readImage = async (url: string) => {
+  const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (dataUrl) {
+    const bytes = Uint8Array.from(atob(dataUrl[2]), (char) => char.charCodeAt(0));
+    return { bytes, mimeType: dataUrl[1] };
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download generated image: ${response.status}`);
+  }
+  const mimeType = response.headers.get('Content-Type')?.split(';')[0] ?? 'image/png';
+  return { bytes: new Uint8Array(await response.arrayBuffer()), mimeType };
+};
+
+/**
+ * Renders a generated image to the requested settings, then uploads it and a
+ * JPEG thumbnail under a content-hash path, so identical images share one
+ * object, and returns their public URLs.
+ */
+export const storeImage = async (url: string, settings: ImageSettings): Promise<StoredImage> => {
+  const source = await readImage(url);
+  if (!extensions[source.mimeType]) {
+    throw new Error(`Unsupported image type: ${source.mimeType}`);
+  }
+
+  const decoded = await decode(source.bytes);
+  if (!(decoded instanceof Image)) {
+    throw new Error('Animated images are not supported');
+  }
+
+  const { image, bytes, mimeType } = await renderImage(decoded, settings);
+  const { width, height } = image;
+  const extension = extensions[mimeType];
+
+  let thumbnail = image;
+  if (width > THUMBNAIL_SIZE || height > THUMBNAIL_SIZE) {
+    thumbnail = width >= height
+      ? image.clone().resize(THUMBNAIL_SIZE, Image.RESIZE_AUTO)
+      : image.clone().resize(Image.RESIZE_AUTO, THUMBNAIL_SIZE);
+  }
+  const thumbnailBytes = await thumbnail.encodeJPEG(80);
+
+  const hash = await sha256(bytes);
+  const storagePath = `originals/${hash}.${extension}`;
+  const thumbnailPath = `thumbnails/${hash}.jpg`;
+
+  const storage = createAdminClient().storage.from(BUCKET);
+  const uploads = await Promise.all([
+    storage.upload(storagePath, bytes, { contentType: mimeType, upsert: true }),
+    storage.upload(thumbnailPath, thumbnailBytes, { contentType: 'image/jpeg', upsert: true }),
+  ]);
+  for (const { error } of uploads) {
+    if (error) throw new Error(`Failed to store image: ${error.message}`);
+  }
+
+  return {
+    imageUrl: storage.getPublicUrl(storagePath).data.publicUrl,
+    thumbnailUrl: storage.getPublicUrl(thumbnailPath).data.publicUrl,
+    storagePath,
+    width,
+    height,
+    mimeType,
+  };
+};
@@ -0,0 +1,37 @@
+import { ChatMessage } from "../_shared/gateway.ts";
+import { EditAction, TextEdit } from "../_shared/schemas.ts";
+
+const instructions: Record<EditAction, (tone?: string) => string> = {
+  rewrite: () => 'Rewrite the passage so it reads better, keeping its meaning and roughly its length.',
+  expand: () => 'Expand the passage with more detail, examples or explanation, in the same voice.',
+  shorten: () => 'Shorten the passage, keeping its key points.',
+  tone: (tone) => `Rewrite the passage in a ${tone} tone, keeping its meaning.`,
+  grammar: () => 'Fix spelling, grammar and punctuation in the passage and change nothing else.',
+};
+
+// The context may be cut off by the client, so it is fenced off from the passage itself
+const quote = (text: string) => `"""\n${text}\n"""`;
+
+/**
+ * Messages asking for a replacement for one passage of a longer text. The
+ * text around it is included so the replacement fits in, but only the
+ * passage itself may be rewritten.
+ */
+export const toEditMessages = ({ action, selection, before, after, tone }: TextEdit, systemPrompt: string): ChatMessage[] => [
+  {
+    role: 'system',
+    content: [
+      systemPrompt,
+      `You are editing one passage of a longer text. ${instructions[action](tone)}`,
+      'Reply with only the replacement passage: no quotes, labels or commentary, and nothing from the surrounding text. Keep any Markdown formatting.',
+    ].join('\n\n'),
+  },
+  {
+    role: 'user',
+    content: [
+      before && `Text before the passage:\n${quote(before)}`,
+      `Passage to edit:\n${quote(selection)}`,
+      after && `Text after the passage:\n${quote(after)}`,
+    ].filter(Boolean).join('\n\n'),
+  },
+];
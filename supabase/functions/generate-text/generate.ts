@@ -0,0 +1,124 @@
+import { createCacheKey, createResponseCache, normalizePrompt } from "../_shared/cache.ts";
+import { ChatCompletion, ChatRequest, collectEventStream, createGatewayClient, GatewayClient, toEventStream } from "../_shared/gateway.ts";
+import { reserveCredit } from "../_shared/quota.ts";
+import { JsonSchema, TextRequest } from "../_shared/schemas.ts";
+import { createAdminClient } from "../_shared/supabase.ts";
+import { toEditMessages } from "./edits.ts";
+import { toGatewayParams } from "./params.ts";
+import { generateStructured, resolveOutputSchema } from "./structured.ts";
+import { resolveSystemPrompt } from "./styles.ts";
+
+export type { TextRequest };
+
+interface GenerationContext {
+  userId: string;
+  requestId: string;
+  // Set when running as a background job
+  jobId?: string;
+}
+
+// The schema guarantees a prompt, a history ending with the user or an edit
+const toChatRequest = ({ prompt = '', messages, params, edit }: TextRequest, systemPrompt: string): ChatRequest => ({
+  ...toGatewayParams(params),
+  messages: edit
+    ? toEditMessages(edit, systemPrompt)
+    : [
+        { role: 'system', content: systemPrompt },
+        ...(messages.length > 0 ? messages : [{ role: 'user' as const, content: prompt }]),
+      ],
+});
+
+// Runs `task` against one reserved text credit, giving it back if the task fails
+const withTextCredit = async <T>({ userId, jobId }: GenerationContext, task: () => Promise<T>) => {
+  const credit = await reserveCredit(createAdminClient(), userId, 'text', jobId);
+  try {
+    return await task();
+  } catch (error) {
+    await credit.refund();
+    throw error;
+  }
+};
+
+// Single prompts are cached; chat turns depend on their whole thread and edits on their text, so neither is.
+// Keyed on the system prompt rather than the style, so editing a custom style takes effect.
+const getCacheKey = (
+  { prompt, messages, params, edit }: TextRequest,
+  systemPrompt: string,
+  gateway: GatewayClient,
+  schema?: JsonSchema,
+) =>
+  messages.length === 0 && prompt && !edit
+    ? createCacheKey('text', { provider: gateway.provider, prompt: normalizePrompt(prompt), systemPrompt, params, schema })
+    : null;
+
+/**
+ * Generates the complete reply. Identical prompts are answered from the
+ * response cache without a credit, reporting `cached: true` and no attempts.
+ * Structured requests answer with JSON matching their schema, as `text` and
+ * parsed as `data`, along with the schema it was checked against.
+ */
+export const generateText = async (request: TextRequest, context: GenerationContext) => {
+  const { userId, requestId } = context;
+  const gateway = createGatewayClient({ requestId });
+  const admin = createAdminClient();
+  const [systemPrompt, schema] = await Promise.all([
+    resolveSystemPrompt(admin, userId, request.type),
+    request.structured ? resolveOutputSchema(admin, userId, request.structured) : undefined,
+  ]);
+  const generate = () => withTextCredit(context, () => {
+    const chatRequest = toChatRequest(request, systemPrompt);
+    return schema ? generateStructured(gateway, chatRequest, schema) : gateway.chat(chatRequest);
+  });
+
+  const key = await getCacheKey(request, systemPrompt, gateway, schema);
+  const { value: { text, model, attempts }, cached } = key
+    ? await createResponseCache(admin).getOrCreate(key, generate, { fresh: request.fresh })
+    : { value: await generate(), cached: false };
+
+  return {
+    text,
+    model,
+    params: request.params,
+    attempts: cached ? 0 : attempts,
+    cached,
+    schema: schema ?? null,
+    ...(schema && { data: JSON.parse(text) }),
+  };
+};
+
+/**
+ * Opens the gateway's SSE stream; the credit is only refunded if the stream
+ * cannot be opened. Cached replies are replayed as a single chunk. A fresh
+ * stream is read alongside the client to cache the finished reply.
+ */
+export const streamText = async (request: TextRequest, context: GenerationContext) => {
+  const { userId, requestId } = context;
+  const gateway = createGatewayClient({ requestId });
+  const admin = createAdminClient();
+  const systemPrompt = await resolveSystemPrompt(admin, userId, request.type);
+  const open = () => withTextCredit(context, () => gateway.chatStream(toChatRequest(request, systemPrompt)));
+
+  const key = await getCacheKey(request, systemPrompt, gateway);
+  const cache = createResponseCache(admin);
+  if (!key || !cache.enabled) {
+    return { ...(await open()), cached: false };
+  }
+
+  const hit = request.fresh ? null : await cache.get<ChatCompletion>(key);
+  if (hit) {
+    return { stream: toEventStream(hit), attempts: 0, cached: true };
+  }
+
+  const { stream, attempts } = await open();
+  const [relay, recorder] = stream.tee();
+  const completion = collectEventStream(recorder).then(async (reply) => {
+    // An empty reply is a failure worth retrying, not an answer
+    if (!reply.text) throw new Error('No text generated');
+    await cache.set(key, { ...reply, attempts });
+    return reply;
+  });
+  completion.catch((error) => console.error(`[${requestId}] Streamed reply was not cached:`, error));
+  cache.track(key, completion);
+
+  return { stream: relay, attempts, cached: false };
+};
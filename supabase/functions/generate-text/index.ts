@@ -1,102 +1,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { eventStream, json, parseBody, serveFunction } from "../_shared/http.ts";
+import { textRequestSchema } from "../_shared/schemas.ts";
+import { requireUser } from "../_shared/supabase.ts";
+import { generateText, streamText } from "./generate.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+serveFunction('generate-text', async (req, { requestId }) => {
+  const user = await requireUser(req);
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { prompt, type = 'creative' } = await req.json();
-    
-    if (!prompt) {
-      throw new Error('Prompt is required');
-    }
-
-    console.log('Generating text with prompt:', prompt, 'type:', type);
-
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
-
-    // System prompts based on type
-    const systemPrompts: Record<string, string> = {
-      creative: 'You are a creative writer who crafts engaging, imaginative content. Write with vivid descriptions and compelling narratives.',
-      professional: 'You are a professional writer who creates clear, concise, and well-structured content. Maintain a formal tone.',
-      casual: 'You are a casual, friendly writer who creates conversational and approachable content. Keep it relaxed and engaging.',
-      technical: 'You are a technical writer who creates detailed, accurate, and well-organized technical content.',
-      marketing: 'You are a marketing copywriter who creates persuasive, engaging content that drives action.',
-    };
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompts[type] || systemPrompts.creative
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8,
-      }),
-    });
+  const request = await parseBody(req, textRequestSchema);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'Payment required. Please add credits to your workspace.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+  console.log(`[${requestId}] User`, user.id, 'generating text with', request.edit ? `${request.edit.action} edit of ${request.edit.selection.length} chars` : request.messages.length > 0 ? `${request.messages.length} messages` : `prompt: ${request.prompt}`, 'type:', request.type, 'stream:', request.stream, 'structured:', !!request.structured, 'params:', request.params);
 
-      throw new Error(`AI Gateway error: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content;
-
-    if (!text) {
-      throw new Error('No text generated');
-    }
-
-    console.log('Text generated successfully');
+  // Relay the gateway's SSE deltas straight through to the client
+  if (request.stream) {
+    const { stream: events, attempts, cached } = await streamText(request, { userId: user.id, requestId });
+    return eventStream(events, { attempts, cached });
+  }
 
-    return new Response(
-      JSON.stringify({ text }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+  const result = await generateText(request, { userId: user.id, requestId });
+  console.log(`[${requestId}]`, result.cached ? 'Text answered from cache' : `Text generated successfully after ${result.attempts} attempt(s)`);
 
-  } catch (error) {
-    console.error('Error in generate-text function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
+  return json(result);
 });
@@ -0,0 +1,10 @@
+import { TextParams } from "../_shared/schemas.ts";
+
+// Gateway (OpenAI-compatible) field names; unset options are left out
+export const toGatewayParams = ({ model, temperature, topP, maxTokens, stop }: TextParams) => ({
+  model,
+  temperature,
+  top_p: topP,
+  ...(maxTokens !== null && { max_tokens: maxTokens }),
+  ...(stop.length > 0 && { stop }),
+});
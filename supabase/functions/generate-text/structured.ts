@@ -0,0 +1,109 @@
+import Ajv, { ErrorObject } from "ajv";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { GatewayError, ValidationError } from "../_shared/errors.ts";
+import { ChatRequest, GatewayClient } from "../_shared/gateway.ts";
+import { JsonSchema, StructuredOutput } from "../_shared/schemas.ts";
+
+// Replies that fail to parse or validate are sent back with the problems this many times in all
+const MAX_OUTPUT_ATTEMPTS = 3;
+
+// Formats such as "email" guide the model but are not checked
+const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+
+const compileSchema = (schema: JsonSchema) => {
+  try {
+    return ajv.compile(schema);
+  } catch (error) {
+    throw new ValidationError({
+      'structured.schema': [`This is not a valid JSON Schema: ${error instanceof Error ? error.message : error}`],
+    });
+  }
+};
+
+const describeErrors = (errors: ErrorObject[] | null | undefined) =>
+  (errors ?? []).map(({ instancePath, message }) => `${instancePath || 'The response'} ${message}`);
+
+type ParsedReply = { ok: true; value: unknown } | { ok: false; error: string };
+
+const tryParse = (text: string): ParsedReply => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (error) {
+    return { ok: false, error: `The response is not valid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+};
+
+/**
+ * Parses a reply that should be JSON, repairing the usual slips first: code
+ * fences around it, prose before or after it and trailing commas.
+ */
+const parseReply = (text: string): ParsedReply => {
+  const parsed = tryParse(text);
+  if (parsed.ok) return parsed;
+
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end < start) return parsed;
+
+  const repaired = tryParse(unfenced.slice(start, end + 1).replace(/,(\s*[}\]])/g, '$1'));
+  return repaired.ok ? repaired : parsed;
+};
+
+/** The schema sent with the request, or the caller's saved one it names. */
+export const resolveOutputSchema = async (admin: SupabaseClient, userId: string, { schema, schemaId }: StructuredOutput) => {
+  if (schema) return schema;
+
+  const { data, error } = await admin
+    .from('json_schemas')
+    .select('schema')
+    .eq('id', schemaId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load schema: ${error.message}`);
+  }
+  if (!data) {
+    throw new ValidationError({ 'structured.schemaId': ['That schema no longer exists'] });
+  }
+  return data.schema as JsonSchema;
+};
+
+/**
+ * Asks for a reply matching `schema` and checks it. A reply that does not
+ * parse or validate is sent back to the model with what was wrong, so every
+ * round continues the same conversation. Gives up with a 502 `invalid_output`
+ * after `MAX_OUTPUT_ATTEMPTS`. The text returned is the reply, re-serialised.
+ */
+export const generateStructured = async (gateway: GatewayClient, request: ChatRequest, schema: JsonSchema) => {
+  const validate = compileSchema(schema);
+  const messages = [...request.messages];
+  let attempts = 0;
+  let problems: string[] = [];
+
+  for (let round = 1; round <= MAX_OUTPUT_ATTEMPTS; round++) {
+    const { text, model, attempts: roundAttempts } = await gateway.chatJson({ ...request, messages }, { name: 'respond', schema });
+    attempts += roundAttempts;
+
+    const parsed = parseReply(text);
+    problems = !parsed.ok ? [parsed.error] : validate(parsed.value) ? [] : describeErrors(validate.errors);
+    if (parsed.ok && problems.length === 0) {
+      return { text: JSON.stringify(parsed.value, null, 2), model, attempts };
+    }
+
+    console.warn(`Structured reply ${round} of ${MAX_OUTPUT_ATTEMPTS} was rejected:`, problems);
+    messages.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `That response does not match the required JSON Schema:\n- ${problems.join('\n- ')}\n\nRespond again with only the corrected JSON.`,
+      },
+    );
+  }
+
+  throw new GatewayError(
+    `The model did not return JSON matching the schema after ${MAX_OUTPUT_ATTEMPTS} tries: ${problems.slice(0, 3).join('; ')}`,
+    502,
+    'invalid_output',
+  );
+};
@@ -0,0 +1,37 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { ValidationError } from "../_shared/errors.ts";
+import { writingStyles } from "../_shared/schemas.ts";
+
+// System prompts for the built-in styles
+const systemPrompts: Record<typeof writingStyles[number], string> = {
+  creative: 'You are a creative writer who crafts engaging, imaginative content. Write with vivid descriptions and compelling narratives.',
+  professional: 'You are a professional writer who creates clear, concise, and well-structured content. Maintain a formal tone.',
+  casual: 'You are a casual, friendly writer who creates conversational and approachable content. Keep it relaxed and engaging.',
+  technical: 'You are a technical writer who creates detailed, accurate, and well-organized technical content.',
+  marketing: 'You are a marketing copywriter who creates persuasive, engaging content that drives action.',
+};
+
+const isBuiltInStyle = (style: string): style is typeof writingStyles[number] =>
+  (writingStyles as readonly string[]).includes(style);
+
+/**
+ * The system prompt for a built-in style, or for a custom style the user owns
+ * or that is shared with their workspace. Unknown styles fail validation.
+ */
+export const resolveSystemPrompt = async (admin: SupabaseClient, userId: string, style: string) => {
+  if (isBuiltInStyle(style)) return systemPrompts[style];
+
+  const [{ data: custom, error }, { data: membership }] = await Promise.all([
+    admin.from('writing_styles').select('user_id, workspace_id, system_prompt').eq('id', style).maybeSingle(),
+    admin.from('workspace_members').select('workspace_id').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (error) {
+    throw new Error(`Failed to load writing style: ${error.message}`);
+  }
+
+  const canUse = custom && (custom.user_id === userId || (custom.workspace_id && custom.workspace_id === membership?.workspace_id));
+  if (!canUse) {
+    throw new ValidationError({ type: ['That writing style no longer exists or is not shared with you'] });
+  }
+  return custom.system_prompt as string;
+};
@@ -0,0 +1,84 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { BadRequestError } from "../_shared/errors.ts";
+import { json, parseBody, serveFunction } from "../_shared/http.ts";
+import { jobRequestSchema } from "../_shared/schemas.ts";
+import { createAdminClient, requireUser } from "../_shared/supabase.ts";
+import { resolveSystemPrompt } from "../generate-text/styles.ts";
+import { resolveOutputSchema } from "../generate-text/structured.ts";
+import { Job, JobRequest, runJob } from "./worker.ts";
+
+// Provided by the Supabase edge runtime to keep work going after the response is sent
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+serveFunction('jobs', async (req, { requestId }) => {
+  const user = await requireUser(req);
+
+  // Validate up front so a bad request fails now rather than in the worker
+  const submission = await parseBody(req, jobRequestSchema);
+  const { kind } = submission;
+
+  const admin = createAdminClient();
+
+  // Generations may only point at the user's own templates
+  const { template } = submission;
+  if (template !== null) {
+    const { data: owned } = await admin
+      .from('prompt_templates')
+      .select('id')
+      .eq('id', template.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!owned) {
+      throw new BadRequestError('The template was not found');
+    }
+  }
+
+  let request: JobRequest;
+  if (submission.kind === 'text') {
+    // Custom styles and saved schemas must exist and be visible to the user
+    await resolveSystemPrompt(admin, user.id, submission.input.type);
+    if (submission.input.structured) await resolveOutputSchema(admin, user.id, submission.input.structured);
+    request = { kind: 'text', template, ...submission.input };
+  } else {
+    const { parentId } = submission;
+    // Edits may only descend from the user's own images
+    if (parentId !== null) {
+      const { data: parent } = await admin
+        .from('generations')
+        .select('id')
+        .eq('id', parentId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!parent) {
+        throw new BadRequestError('The image being edited was not found');
+      }
+    }
+    request = { kind: 'image', parentId, template, ...submission.input };
+  }
+
+  // Jobs whose worker died are also swept on a schedule; failing them now keeps the queue honest
+  const { error: staleError } = await admin.rpc('fail_stale_jobs', { p_user_id: user.id });
+  if (staleError) console.error(`[${requestId}] Failed to clear stale jobs:`, staleError);
+
+  // Source images only live as long as the worker that uses them: the row, which is
+  // broadcast with every status change, keeps the request without them
+  const stored = request.kind === 'image' ? { ...request, images: [] } : request;
+  const { data: job, error } = await admin
+    .from('generation_jobs')
+    .insert({ user_id: user.id, kind, request: stored })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue job: ${error.message}`);
+  }
+
+  console.log(`[${requestId}] User`, user.id, `queued ${kind} job`, job.id);
+
+  const work = runJob({ ...(job as Job), request }, requestId);
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work);
+  }
+
+  return json(job, 202);
+});
@@ -0,0 +1,147 @@
+import { HttpError } from "../_shared/errors.ts";
+import type { TemplateUsage } from "../_shared/schemas.ts";
+import { createAdminClient } from "../_shared/supabase.ts";
+import { generateImages, ImageRequest, VariationResult } from "../generate-image/generate.ts";
+import { generateText, TextRequest } from "../generate-text/generate.ts";
+
+// `template` is stored with the generations so they can be filled in again
+export type JobRequest =
+  | ({ kind: 'text'; template: TemplateUsage | null } & TextRequest)
+  | ({ kind: 'image'; parentId: string | null; template: TemplateUsage | null } & ImageRequest);
+
+export interface Job {
+  id: string;
+  user_id: string;
+  request: JobRequest;
+}
+
+type Admin = ReturnType<typeof createAdminClient>;
+
+const liveStatuses = ['queued', 'running'];
+
+// Saves a job's generations, unless the stale job sweep (fail_stale_jobs) has
+// already failed the job and refunded its credits, in which case nothing is saved
+const insertGenerations = async (admin: Admin, job: Job, rows: Record<string, unknown>[]) => {
+  const { data: live, error: claimError } = await admin
+    .from('generation_jobs')
+    .update({ status: 'running' })
+    .eq('id', job.id)
+    .in('status', liveStatuses)
+    .select('id')
+    .maybeSingle();
+  if (claimError) {
+    throw new Error(`Failed to check job: ${claimError.message}`);
+  }
+  if (!live) {
+    throw new Error('The job did not finish in time');
+  }
+
+  const { data, error } = await admin.from('generations').insert(rows).select('id');
+  if (error) {
+    throw new Error(`Failed to save generation: ${error.message}`);
+  }
+  return (data as { id: string }[]).map(({ id }) => id);
+};
+
+const completeTextJob = async (
+  admin: Admin,
+  job: Job,
+  request: TextRequest & { template: TemplateUsage | null },
+  requestId: string,
+) => {
+  const { text, model, params, attempts, cached, schema } = await generateText(request, { userId: job.user_id, requestId, jobId: job.id });
+  const generationIds = await insertGenerations(admin, job, [{
+    user_id: job.user_id,
+    kind: 'text',
+    prompt: request.prompt ?? '',
+    style: request.type,
+    model,
+    output: text,
+    settings: params,
+    cached,
+    template_id: request.template?.id ?? null,
+    variables: request.template?.variables ?? null,
+    output_schema: schema,
+  }]);
+  return { generationIds, attempts };
+};
+
+const completeImageJob = async (
+  admin: Admin,
+  job: Job,
+  request: ImageRequest & { parentId: string | null; template: TemplateUsage | null },
+  requestId: string,
+) => {
+  const { results, settings } = await generateImages(request, { userId: job.user_id, requestId, jobId: job.id });
+  const succeeded = results.filter((result): result is Extract<VariationResult, { ok: true }> => result.ok);
+  const batchId = request.variations > 1 ? crypto.randomUUID() : null;
+
+  const generationIds = await insertGenerations(admin, job, succeeded.map((result) => ({
+    user_id: job.user_id,
+    kind: 'image',
+    prompt: request.prompt,
+    model: result.model,
+    output: result.imageUrl,
+    thumbnail_url: result.thumbnailUrl,
+    storage_path: result.storagePath,
+    width: result.width,
+    height: result.height,
+    mime_type: result.mimeType,
+    settings,
+    parent_id: request.parentId,
+    batch_id: batchId,
+    cached: result.cached,
+    template_id: request.template?.id ?? null,
+    variables: request.template?.variables ?? null,
+  })));
+
+  return {
+    generationIds,
+    // Failed variations keep their error so the studio can report a partial batch
+    results: results.map((result) => result.ok ? { index: result.index, ok: true, attempts: result.attempts } : result),
+    attempts: results.reduce((total, result) => total + result.attempts, 0),
+  };
+};
+
+/**
+ * Runs a queued job to completion: generates, saves the generations on the
+ * user's behalf and records the outcome on the job row, which the studio
+ * follows over realtime. Never throws; failures are written to the job.
+ */
+export const runJob = async (job: Job, requestId: string) => {
+  const admin = createAdminClient();
+  // A job the sweep has failed keeps its timeout, as nothing was saved for it
+  const update = async (changes: Record<string, unknown>) => {
+    const { error } = await admin
+      .from('generation_jobs')
+      .update(changes)
+      .eq('id', job.id)
+      .in('status', liveStatuses);
+    if (error) console.error(`[${requestId}] Failed to update job ${job.id}:`, error);
+  };
+
+  await update({ status: 'running', started_at: new Date().toISOString() });
+
+  try {
+    const { request } = job;
+    const result = request.kind === 'text'
+      ? await completeTextJob(admin, job, request, requestId)
+      : await completeImageJob(admin, job, request, requestId);
+
+    console.log(`[${requestId}] Job ${job.id} succeeded`);
+    await update({
+      status: 'succeeded',
+      result,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[${requestId}] Job ${job.id} failed:`, error);
+    await update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      error_code: error instanceof HttpError ? error.code : 'internal_error',
+      result: error instanceof HttpError ? { ...error.details, attempts: error.attempts ?? 1 } : null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+};
@@ -0,0 +1,64 @@
+import { NotFoundError, ValidationError } from "../_shared/errors.ts";
+import { json, parseBody, serveFunction } from "../_shared/http.ts";
+import { styleRequestSchema, WritingStyleValues } from "../_shared/schemas.ts";
+import { createAdminClient, requireUser } from "../_shared/supabase.ts";
+
+type Admin = ReturnType<typeof createAdminClient>;
+
+// Table columns for a validated style; sharing stores the owner's current workspace
+const toRow = async (admin: Admin, userId: string, { name, emoji, systemPrompt, temperature, examples, shared }: WritingStyleValues) => {
+  let workspaceId: string | null = null;
+  if (shared) {
+    const { data: membership } = await admin.from('workspace_members').select('workspace_id').eq('user_id', userId).maybeSingle();
+    if (!membership) {
+      throw new ValidationError({ 'style.shared': ['Create or join a workspace before sharing styles'] });
+    }
+    workspaceId = membership.workspace_id;
+  }
+
+  return { name, emoji, system_prompt: systemPrompt, temperature, examples, workspace_id: workspaceId };
+};
+
+// Creates, updates and deletes the caller's custom writing styles. Reads go straight to the table.
+serveFunction('styles', async (req, { requestId }) => {
+  const user = await requireUser(req);
+  const request = await parseBody(req, styleRequestSchema);
+  const admin = createAdminClient();
+
+  console.log(`[${requestId}] User`, user.id, `${request.action} writing style`, 'id' in request ? request.id : '');
+
+  if (request.action === 'create') {
+    const { data, error } = await admin
+      .from('writing_styles')
+      .insert({ user_id: user.id, ...(await toRow(admin, user.id, request.style)) })
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save writing style: ${error.message}`);
+    return json(data, 201);
+  }
+
+  // Only the owner may change a style, shared or not
+  if (request.action === 'update') {
+    const { data, error } = await admin
+      .from('writing_styles')
+      .update({ ...(await toRow(admin, user.id, request.style)), updated_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Failed to save writing style: ${error.message}`);
+    if (!data) throw new NotFoundError('Writing style not found');
+    return json(data);
+  }
+
+  const { data, error } = await admin
+    .from('writing_styles')
+    .delete()
+    .eq('id', request.id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to delete writing style: ${error.message}`);
+  if (!data) throw new NotFoundError('Writing style not found');
+  return json({ id: data.id });
+});
@@ -0,0 +1,26 @@
+import { json, serveFunction } from "../_shared/http.ts";
+import { createAdminClient, requireUser } from "../_shared/supabase.ts";
+
+serveFunction('usage', async (req) => {
+  const user = await requireUser(req);
+
+  const { data, error } = await createAdminClient().rpc('get_usage', { p_user_id: user.id });
+
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  const rows: { plan: string; kind: 'text' | 'image'; daily_limit: number; used: number }[] = data ?? [];
+  const usage = Object.fromEntries(
+    rows.map(({ kind, daily_limit, used }) => [
+      kind,
+      { limit: daily_limit, used, remaining: Math.max(daily_limit - used, 0) },
+    ])
+  );
+
+  // Quotas reset at midnight UTC
+  const resetsAt = new Date();
+  resetsAt.setUTCHours(24, 0, 0, 0);
+
+  return json({ plan: rows[0]?.plan ?? 'free', usage, resetsAt: resetsAt.toISOString() });
+}, { methods: ['GET'] });
@@ -0,0 +1,64 @@
+import { ConflictError, NotFoundError } from "../_shared/errors.ts";
+import { json, parseBody, serveFunction } from "../_shared/http.ts";
+import { workspaceRequestSchema } from "../_shared/schemas.ts";
+import { createAdminClient, requireUser } from "../_shared/supabase.ts";
+
+/**
+ * Creates, joins and leaves workspaces. A user belongs to at most one, and
+ * joins with the invite code of an existing member. Answers with the
+ * workspace the user ends up in, or null after leaving.
+ */
+serveFunction('workspace', async (req, { requestId }) => {
+  const user = await requireUser(req);
+  const request = await parseBody(req, workspaceRequestSchema);
+  const admin = createAdminClient();
+
+  console.log(`[${requestId}] User`, user.id, `${request.action} workspace`);
+
+  const { data: membership } = await admin
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (request.action === 'leave') {
+    if (!membership) throw new NotFoundError('You are not in a workspace');
+
+    // Styles shared with the workspace stop being shared when their owner leaves
+    await admin.from('writing_styles').update({ workspace_id: null }).eq('user_id', user.id);
+    const { error } = await admin.from('workspace_members').delete().eq('user_id', user.id);
+    if (error) throw new Error(`Failed to leave workspace: ${error.message}`);
+
+    // The last member out takes the workspace with them
+    const { count } = await admin
+      .from('workspace_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('workspace_id', membership.workspace_id);
+    if (count === 0) await admin.from('workspaces').delete().eq('id', membership.workspace_id);
+
+    return json(null);
+  }
+
+  if (membership) throw new ConflictError('Leave your current workspace first');
+
+  let workspaceId: string;
+  if (request.action === 'create') {
+    const { data, error } = await admin
+      .from('workspaces')
+      .insert({ name: request.name, created_by: user.id })
+      .select('id')
+      .single();
+    if (error) throw new Error(`Failed to create workspace: ${error.message}`);
+    workspaceId = data.id;
+  } else {
+    const { data } = await admin.from('workspaces').select('id').eq('invite_code', request.inviteCode).maybeSingle();
+    if (!data) throw new NotFoundError('No workspace matches that invite code');
+    workspaceId = data.id;
+  }
+
+  const { error } = await admin.from('workspace_members').insert({ user_id: user.id, workspace_id: workspaceId });
+  if (error) throw new Error(`Failed to join workspace: ${error.message}`);
+
+  const { data: workspace } = await admin.from('workspaces').select('*').eq('id', workspaceId).single();
+  return json(workspace);
+});
@@ -0,0 +1,35 @@
+-- Generated texts and images, previously kept only in localStorage
+CREATE TYPE public.generation_kind AS ENUM ('text', 'image');
+
+CREATE TABLE public.generations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind public.generation_kind NOT NULL,
+  prompt TEXT NOT NULL,
+  style TEXT,
+  model TEXT,
+  output TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid()
+);
+
+CREATE INDEX generations_user_id_kind_created_at_idx
+  ON public.generations (user_id, kind, created_at DESC);
+
+ALTER TABLE public.generations ENABLE ROW LEVEL SECURITY;
+
+-- Rows belong to their creator. Visitors who are not signed in cannot store
+-- anything here, so their generations stay in localStorage until they sign in.
+CREATE POLICY "Users can view their own generations"
+  ON public.generations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own generations"
+  ON public.generations FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own generations"
+  ON public.generations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
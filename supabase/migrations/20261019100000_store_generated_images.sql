@@ -0,0 +1,17 @@
+-- Generated images are uploaded to storage instead of being kept as data URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('generated-images', 'generated-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are written by the generate-image function with the service role;
+-- paths are content hashes, so public reads expose nothing enumerable
+CREATE POLICY "Generated images are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'generated-images');
+
+ALTER TABLE public.generations
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN thumbnail_url TEXT,
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER,
+  ADD COLUMN mime_type TEXT;
@@ -0,0 +1,146 @@
+-- Per-user daily quotas, enforced by the edge functions before calling the gateway
+CREATE TYPE public.plan_tier AS ENUM ('free', 'pro', 'team');
+
+CREATE TABLE public.plan_limits (
+  plan public.plan_tier NOT NULL,
+  kind public.generation_kind NOT NULL,
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+  PRIMARY KEY (plan, kind)
+);
+
+INSERT INTO public.plan_limits (plan, kind, daily_limit) VALUES
+  ('free', 'text', 50),
+  ('free', 'image', 10),
+  ('pro', 'text', 500),
+  ('pro', 'image', 100),
+  ('team', 'text', 2000),
+  ('team', 'image', 400);
+
+-- Users without a row are on the free plan
+CREATE TABLE public.user_plans (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  plan public.plan_tier NOT NULL DEFAULT 'free',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Debits are negative, refunds positive and point at the debit they reverse
+CREATE TABLE public.credit_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  kind public.generation_kind NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  refund_of UUID UNIQUE REFERENCES public.credit_ledger (id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_ledger_user_id_kind_created_at_idx
+  ON public.credit_ledger (user_id, kind, created_at DESC);
+
+ALTER TABLE public.plan_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Plan limits are readable by signed-in users"
+  ON public.plan_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can view their own plan"
+  ON public.user_plans FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Ledger rows are only ever written through the functions below
+CREATE POLICY "Users can view their own ledger"
+  ON public.credit_ledger FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Start of the current quota window (midnight UTC)
+CREATE FUNCTION public.quota_window_start()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+$$;
+
+-- Debits one generation when the user is under their daily limit.
+-- Returns the ledger entry id, or NULL when the quota is exhausted.
+CREATE FUNCTION public.debit_credits(p_user_id UUID, p_kind public.generation_kind, p_amount INTEGER DEFAULT 1)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_entry_id UUID;
+BEGIN
+  -- Serialise debits per user and kind so concurrent requests cannot overspend
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_kind::text));
+
+  SELECT pl.daily_limit INTO v_limit
+  FROM public.plan_limits pl
+  WHERE pl.kind = p_kind
+    AND pl.plan = COALESCE((SELECT up.plan FROM public.user_plans up WHERE up.user_id = p_user_id), 'free');
+
+  SELECT COALESCE(-SUM(cl.amount), 0) INTO v_used
+  FROM public.credit_ledger cl
+  WHERE cl.user_id = p_user_id
+    AND cl.kind = p_kind
+    AND cl.created_at >= public.quota_window_start();
+
+  IF v_used + p_amount > COALESCE(v_limit, 0) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.credit_ledger (user_id, kind, amount)
+  VALUES (p_user_id, p_kind, -p_amount)
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Reverses a debit once; refunding the same entry twice is a no-op
+CREATE FUNCTION public.refund_credits(p_entry_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.credit_ledger (user_id, kind, amount, refund_of)
+  SELECT cl.user_id, cl.kind, -cl.amount, cl.id
+  FROM public.credit_ledger cl
+  WHERE cl.id = p_entry_id AND cl.amount < 0
+  ON CONFLICT (refund_of) DO NOTHING;
+$$;
+
+CREATE FUNCTION public.get_usage(p_user_id UUID)
+RETURNS TABLE (plan public.plan_tier, kind public.generation_kind, daily_limit INTEGER, used INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pl.plan, pl.kind, pl.daily_limit,
+    COALESCE((
+      SELECT -SUM(cl.amount)::INTEGER
+      FROM public.credit_ledger cl
+      WHERE cl.user_id = p_user_id
+        AND cl.kind = pl.kind
+        AND cl.created_at >= public.quota_window_start()
+    ), 0) AS used
+  FROM public.plan_limits pl
+  WHERE pl.plan = COALESCE((SELECT up.plan FROM public.user_plans up WHERE up.user_id = p_user_id), 'free');
+$$;
+
+-- These take an arbitrary user id, so only the edge functions (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.debit_credits(UUID, public.generation_kind, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_credits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_usage(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.debit_credits(UUID, public.generation_kind, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_usage(UUID) TO service_role;
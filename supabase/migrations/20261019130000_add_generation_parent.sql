@@ -0,0 +1,5 @@
+-- Image edits point at the gallery image they were made from
+ALTER TABLE public.generations
+  ADD COLUMN parent_id UUID REFERENCES public.generations (id) ON DELETE SET NULL;
+
+CREATE INDEX generations_parent_id_idx ON public.generations (parent_id);
@@ -0,0 +1,3 @@
+-- Aspect ratio, resolution and output format an image was rendered with
+ALTER TABLE public.generations
+  ADD COLUMN settings JSONB;
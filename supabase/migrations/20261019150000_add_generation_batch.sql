@@ -0,0 +1,5 @@
+-- Images generated together as variations of one request share a batch id
+ALTER TABLE public.generations
+  ADD COLUMN batch_id UUID;
+
+CREATE INDEX generations_batch_id_idx ON public.generations (batch_id);
@@ -0,0 +1,37 @@
+-- Background generation jobs: submitted by the jobs function, completed by its worker
+CREATE TYPE public.job_status AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  kind public.generation_kind NOT NULL,
+  status public.job_status NOT NULL DEFAULT 'queued',
+  -- The validated request body, as the synchronous function would receive it, minus any source images
+  request JSONB NOT NULL,
+  -- Generation ids and per-item outcomes once finished
+  result JSONB,
+  error TEXT,
+  error_code TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX generation_jobs_user_id_created_at_idx
+  ON public.generation_jobs (user_id, created_at DESC);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are only written by the jobs function (service role); users can watch and dismiss them
+CREATE POLICY "Users can view their own jobs"
+  ON public.generation_jobs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own jobs"
+  ON public.generation_jobs FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Let the studio follow job progress over realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
@@ -0,0 +1,17 @@
+-- Responses to identical generation requests, shared across users so repeats are not paid for twice
+CREATE TABLE public.response_cache (
+  -- `<kind>:<sha-256 of the normalized request>`
+  key TEXT NOT NULL PRIMARY KEY,
+  response JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX response_cache_expires_at_idx ON public.response_cache (expires_at);
+
+-- Only the edge functions (service role) read and write the cache
+ALTER TABLE public.response_cache ENABLE ROW LEVEL SECURITY;
+
+-- Whether a generation was answered from the cache rather than the AI provider
+ALTER TABLE public.generations
+  ADD COLUMN cached BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,43 @@
+-- Teams of users who share writing styles
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Handed to teammates so they can join
+  invite_code TEXT NOT NULL UNIQUE DEFAULT left(replace(gen_random_uuid()::text, '-', ''), 12),
+  created_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.workspace_members (
+  -- A user belongs to at most one workspace
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces (id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX workspace_members_workspace_id_idx ON public.workspace_members (workspace_id);
+
+-- The caller's workspace; SECURITY DEFINER so policies can use it without recursing into workspace_members
+CREATE FUNCTION public.current_workspace_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT wm.workspace_id FROM public.workspace_members wm WHERE wm.user_id = auth.uid();
+$$;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are created, joined and left through the workspace function (service role)
+CREATE POLICY "Members can view their workspace"
+  ON public.workspaces FOR SELECT
+  TO authenticated
+  USING (id = public.current_workspace_id());
+
+CREATE POLICY "Members can view their workspace's members"
+  ON public.workspace_members FOR SELECT
+  TO authenticated
+  USING (workspace_id = public.current_workspace_id());
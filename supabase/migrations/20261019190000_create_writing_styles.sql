@@ -0,0 +1,25 @@
+-- User-defined writing styles, offered alongside the built-in ones
+CREATE TABLE public.writing_styles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  -- Set while the style is shared with its owner's workspace
+  workspace_id UUID REFERENCES public.workspaces (id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  system_prompt TEXT NOT NULL,
+  temperature REAL NOT NULL DEFAULT 0.8,
+  examples TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX writing_styles_user_id_idx ON public.writing_styles (user_id);
+CREATE INDEX writing_styles_workspace_id_idx ON public.writing_styles (workspace_id);
+
+ALTER TABLE public.writing_styles ENABLE ROW LEVEL SECURITY;
+
+-- Styles are written only by the styles function, which validates them
+CREATE POLICY "Users can view their own and their workspace's styles"
+  ON public.writing_styles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR workspace_id = public.current_workspace_id());
@@ -0,0 +1,43 @@
+-- Reusable prompts with {{variable}} placeholders and a typed field for each
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  kind public.generation_kind NOT NULL,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- [{ name, label, type, options, defaultValue }], one per placeholder
+  fields JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX prompt_templates_user_id_kind_idx ON public.prompt_templates (user_id, kind);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own templates"
+  ON public.prompt_templates FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates"
+  ON public.prompt_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates"
+  ON public.prompt_templates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON public.prompt_templates FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The template a generation was filled in from, and the values it was given,
+-- so it can be generated again with one field changed
+ALTER TABLE public.generations
+  ADD COLUMN template_id UUID REFERENCES public.prompt_templates (id) ON DELETE SET NULL,
+  ADD COLUMN variables JSONB;
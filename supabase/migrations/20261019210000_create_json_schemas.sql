@@ -0,0 +1,39 @@
+-- JSON Schemas saved for structured text output
+CREATE TABLE public.json_schemas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name TEXT NOT NULL,
+  schema JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX json_schemas_user_id_idx ON public.json_schemas (user_id);
+
+ALTER TABLE public.json_schemas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own schemas"
+  ON public.json_schemas FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own schemas"
+  ON public.json_schemas FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own schemas"
+  ON public.json_schemas FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own schemas"
+  ON public.json_schemas FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The schema a structured text was generated against; its output is then a JSON document.
+-- Copied rather than referenced, so editing or deleting a saved schema leaves old texts readable.
+ALTER TABLE public.generations
+  ADD COLUMN output_schema JSONB;
@@ -0,0 +1,10 @@
+-- Generated texts can be edited after the fact, e.g. by rewriting a passage with AI
+CREATE POLICY "Users can update their own generations"
+  ON public.generations FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- When the output last changed after generation; NULL if it never has
+ALTER TABLE public.generations
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
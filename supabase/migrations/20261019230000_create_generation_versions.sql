@@ -0,0 +1,93 @@
+-- How a version of a generation's output came about
+CREATE TYPE public.generation_version_source AS ENUM ('generated', 'regenerated', 'ai_edit', 'manual_edit', 'restored');
+
+-- Every output a generation has had, oldest first. The generation row keeps the current one.
+-- Versions are never changed, only added, and go when their generation is deleted.
+CREATE TABLE public.generation_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  generation_id UUID NOT NULL REFERENCES public.generations (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  source public.generation_version_source NOT NULL,
+  output TEXT NOT NULL,
+  model TEXT,
+  restored_from UUID REFERENCES public.generation_versions (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX generation_versions_generation_id_created_at_idx
+  ON public.generation_versions (generation_id, created_at);
+
+ALTER TABLE public.generation_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation versions"
+  ON public.generation_versions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Only onto generations the user owns, e.g. when importing an archive
+CREATE POLICY "Users can create their own generation versions"
+  ON public.generation_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.generations g WHERE g.id = generation_id AND g.user_id = auth.uid())
+  );
+
+-- Generations have no UPDATE policy, so this is the only way to change one's output
+DROP POLICY "Users can update their own generations" ON public.generations;
+
+-- Replaces a generation's output and records it as a new version, all at once.
+-- A generation that has never changed has no versions yet, so its original output
+-- is recorded first. Only the caller's own generations can be revised, and only
+-- restored from one of their own versions.
+-- Regenerating counts as a fresh generation and clears edited_at; anything else sets it.
+CREATE FUNCTION public.revise_generation(
+  p_generation_id UUID,
+  p_output TEXT,
+  p_source public.generation_version_source,
+  p_model TEXT DEFAULT NULL,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_generation public.generations;
+BEGIN
+  -- Lock the row so concurrent saves append their versions one after the other
+  SELECT * INTO v_generation FROM public.generations g
+  WHERE g.id = p_generation_id AND g.user_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Generation % not found', p_generation_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_restored_from IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.generation_versions gv WHERE gv.id = p_restored_from AND gv.generation_id = v_generation.id
+  ) THEN
+    RAISE EXCEPTION 'Version % not found', p_restored_from USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.generation_versions (generation_id, user_id, source, output, model, created_at)
+  SELECT v_generation.id, v_generation.user_id, 'generated', v_generation.output, v_generation.model, v_generation.created_at
+  WHERE NOT EXISTS (SELECT 1 FROM public.generation_versions gv WHERE gv.generation_id = v_generation.id);
+
+  INSERT INTO public.generation_versions (generation_id, user_id, source, output, model, restored_from)
+  VALUES (v_generation.id, v_generation.user_id, p_source, p_output, COALESCE(p_model, v_generation.model), p_restored_from);
+
+  UPDATE public.generations g
+  SET output = p_output,
+      model = COALESCE(p_model, g.model),
+      cached = CASE WHEN p_source = 'regenerated' THEN false ELSE g.cached END,
+      edited_at = CASE WHEN p_source = 'regenerated' THEN NULL ELSE now() END
+  WHERE g.id = v_generation.id
+  RETURNING * INTO v_generation;
+
+  RETURN v_generation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revise_generation(UUID, TEXT, public.generation_version_source, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revise_generation(UUID, TEXT, public.generation_version_source, TEXT, UUID) TO authenticated;
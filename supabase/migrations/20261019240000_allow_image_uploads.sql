@@ -0,0 +1,29 @@
+-- Only images go in the bucket, up to the largest a 2048px PNG can be. This holds
+-- for the generate-image function's uploads too.
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/png', 'image/jpeg', 'image/webp'],
+  file_size_limit = 20971520
+WHERE id = 'generated-images';
+
+-- Importing a studio archive uploads its images and their thumbnails from the browser. Each user
+-- writes only under uploads/{their id}/, named by content hash like generated images.
+-- Nothing is ever overwritten: a path already taken holds the same bytes.
+CREATE POLICY "Users can upload their own images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'generated-images'
+    AND (storage.foldername(name))[1] = 'uploads'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND storage.extension(name) IN ('png', 'jpg', 'webp')
+  );
+
+-- Replacing the studio with an archive removes the uploads no image uses any more
+CREATE POLICY "Users can delete their own uploaded images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'generated-images'
+    AND (storage.foldername(name))[1] = 'uploads'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
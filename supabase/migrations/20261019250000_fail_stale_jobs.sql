@@ -0,0 +1,100 @@
+-- Debits made while running a job point at it, so a job that never finishes can be refunded
+ALTER TABLE public.credit_ledger
+  ADD COLUMN job_id UUID REFERENCES public.generation_jobs (id) ON DELETE SET NULL;
+
+CREATE INDEX credit_ledger_job_id_idx
+  ON public.credit_ledger (job_id)
+  WHERE job_id IS NOT NULL;
+
+DROP FUNCTION public.debit_credits(UUID, public.generation_kind, INTEGER);
+
+-- Debits one generation when the user is under their daily limit.
+-- Returns the ledger entry id, or NULL when the quota is exhausted.
+CREATE FUNCTION public.debit_credits(
+  p_user_id UUID,
+  p_kind public.generation_kind,
+  p_amount INTEGER DEFAULT 1,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_entry_id UUID;
+BEGIN
+  -- Serialise debits per user and kind so concurrent requests cannot overspend
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_kind::text));
+
+  SELECT pl.daily_limit INTO v_limit
+  FROM public.plan_limits pl
+  WHERE pl.kind = p_kind
+    AND pl.plan = COALESCE((SELECT up.plan FROM public.user_plans up WHERE up.user_id = p_user_id), 'free');
+
+  SELECT COALESCE(-SUM(cl.amount), 0) INTO v_used
+  FROM public.credit_ledger cl
+  WHERE cl.user_id = p_user_id
+    AND cl.kind = p_kind
+    AND cl.created_at >= public.quota_window_start();
+
+  IF v_used + p_amount > COALESCE(v_limit, 0) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.credit_ledger (user_id, kind, amount, job_id)
+  VALUES (p_user_id, p_kind, -p_amount, p_job_id)
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Fails jobs still unfinished 15 minutes after they were queued, whose worker must have
+-- died, and refunds whatever they debited. Covers one user, or everyone when no user is given.
+-- Returns how many jobs were failed.
+CREATE FUNCTION public.fail_stale_jobs(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_failed INTEGER;
+BEGIN
+  WITH stale AS (
+    UPDATE public.generation_jobs gj
+    SET status = 'failed',
+      error = 'The job did not finish in time',
+      error_code = 'timeout',
+      completed_at = now()
+    WHERE (p_user_id IS NULL OR gj.user_id = p_user_id)
+      AND gj.status IN ('queued', 'running')
+      AND gj.created_at < now() - INTERVAL '15 minutes'
+    RETURNING gj.id
+  ), refunds AS (
+    INSERT INTO public.credit_ledger (user_id, kind, amount, refund_of, job_id)
+    SELECT cl.user_id, cl.kind, -cl.amount, cl.id, cl.job_id
+    FROM public.credit_ledger cl
+    JOIN stale ON stale.id = cl.job_id
+    WHERE cl.amount < 0
+    ON CONFLICT (refund_of) DO NOTHING
+  )
+  SELECT count(*) INTO v_failed FROM stale;
+
+  RETURN v_failed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_credits(UUID, public.generation_kind, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_stale_jobs(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.debit_credits(UUID, public.generation_kind, INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_stale_jobs(UUID) TO service_role;
+
+-- Sweep every five minutes, so a stale job fails even if its owner never submits another.
+-- The studio hears about it over realtime like any other job update.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('fail-stale-jobs', '*/5 * * * *', $$SELECT public.fail_stale_jobs()$$);
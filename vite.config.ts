@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
@@ -13,6 +13,16 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code shared with the edge functions, such as the request schemas
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+    // Deno loads these by URL; tests use the same versions from node_modules
+    alias: {
+      "https://esm.sh/@supabase/supabase-js@2.75.1": "@supabase/supabase-js",
+      "https://deno.land/x/imagescript@1.2.17/mod.ts": "imagescript",
     },
   },
 }));